@@ -1,20 +1,58 @@
 import { Router, Request, Response } from 'express';
-import { getInitializedDataSource } from '../config/database';
 import { Activity } from '../entity/activity.entity';
 import { Organization } from '../entity/organization.entity';
-import { jwtMiddleware, setOrganizationContext, requireOrganization } from '../utils/middleware/jwtMiddleWare';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, requestContext } from '../utils/middleware/jwtMiddleWare';
 import { ActivityKind } from '../db/enums';
+import { encodeCursor, decodeCursor, cursorTimestampSql } from '../utils/cursor';
+import { validate, id, idParam, booleanQuery, limitQuery, cursorQuery } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
 
 const router = Router();
 
-// Get activity feed for an organization
-router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Anything Date.parse understands, e.g. 2025-01-31 or a full ISO timestamp
+const dateQuery = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Must be a valid date');
+
+const activityQuery = z.object({
+  before: cursorQuery.optional(),
+  after: cursorQuery.optional(),
+  kind: z.enum(ActivityKind).optional(),
+  objectType: z.string().max(40).optional(),
+  objectId: idParam.optional(),
+  actorId: idParam.optional(),
+  from: dateQuery.optional(),
+  to: dateQuery.optional(),
+  includeTotal: booleanQuery.optional(),
+  limit: limitQuery(20, 100)
+}).refine((query) => !(query.before && query.after), {
+  message: 'Use either before or after, not both'
+});
+
+const createActivityBody = z.object({
+  kind: z.enum(ActivityKind),
+  message: z.string().trim().min(1),
+  objectType: z.string().max(40).nullable().optional(),
+  objectId: id.nullable().optional(),
+  meta: z.record(z.string(), z.any()).default({})
+});
+
+// Get activity feed for an organization (keyset pagination on created_at, id)
+//   ?before=<cursor>  older activities than the cursor (default: newest first)
+//   ?after=<cursor>   newer activities than the cursor, e.g. to catch up after a reconnect
+//   ?kind, ?objectType, ?objectId, ?actorId, ?from, ?to   filters
+//   ?includeTotal=true  also count all activities matching the filters
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: activityQuery }) as any, async (req: any, res: Response) => {
   try {
     const organizationId = req.organizationId || req.params.organizationId;
-    const { page = 1, limit = 20, kind } = req.query;
+    const { before, after, kind, objectType, objectId, actorId, from, to, includeTotal, limit } = req.query;
+
+    const cursorParam = (before || after) as string | undefined;
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return res.status(400).json({ code: 'invalid_cursor', message: 'Invalid pagination cursor' });
+    }
     
-    const AppDataSource = await getInitializedDataSource();
-    const organizationRepository = AppDataSource.getRepository(Organization);
+    const { manager } = requestContext(req);
+    const organizationRepository = manager.getRepository(Organization);
     
       // Get organization details
       const organization = await organizationRepository.findOne({
@@ -27,30 +65,71 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
       
       // Get activities from PostgreSQL
       console.log('ActivityController: Getting activities for organizationId:', organizationId);
-      const activityRepository = AppDataSource.getRepository(Activity);
+      const activityRepository = manager.getRepository(Activity);
       
-      // Build query
+      // Build filtered query
       const queryBuilder = activityRepository
         .createQueryBuilder('activity')
         .leftJoinAndSelect('activity.actor', 'actor')
-        .where('activity.organizationId = :organizationId', { organizationId })
-        .orderBy('activity.createdAt', 'DESC');
+        .where('activity.organizationId = :organizationId', { organizationId });
       
-      // Add kind filter if provided
       if (kind) {
         queryBuilder.andWhere('activity.kind = :kind', { kind });
       }
+      if (objectType) {
+        queryBuilder.andWhere('activity.objectType = :objectType', { objectType });
+      }
+      if (objectId) {
+        queryBuilder.andWhere('activity.objectId = :objectId', { objectId });
+      }
+      if (actorId) {
+        queryBuilder.andWhere('activity.actorId = :actorId', { actorId });
+      }
+      if (from) {
+        queryBuilder.andWhere('activity.createdAt >= :from', { from: new Date(String(from)) });
+      }
+      if (to) {
+        queryBuilder.andWhere('activity.createdAt < :to', { to: new Date(String(to)) });
+      }
+      
+      // Total is opt-in: counting a large org's feed costs a full index scan
+      const total = includeTotal === 'true' ? await queryBuilder.getCount() : undefined;
+      
+      // The plain created_at bound lets the planner range-scan idx_activities_org_time;
+      // the row comparison breaks ties between activities sharing a timestamp.
+      if (cursor && before) {
+        queryBuilder
+          .andWhere('activity.createdAt <= CAST(:cursorTs AS timestamptz)', { cursorTs: cursor.t })
+          .andWhere('(activity.createdAt, activity.id) < (CAST(:cursorTs AS timestamptz), CAST(:cursorId AS bigint))', { cursorId: cursor.id });
+      } else if (cursor && after) {
+        queryBuilder
+          .andWhere('activity.createdAt >= CAST(:cursorTs AS timestamptz)', { cursorTs: cursor.t })
+          .andWhere('(activity.createdAt, activity.id) > (CAST(:cursorTs AS timestamptz), CAST(:cursorId AS bigint))', { cursorId: cursor.id });
+      }
+      
+      const direction = after ? 'ASC' : 'DESC';
+      const { raw, entities } = await queryBuilder
+        .addSelect(cursorTimestampSql('activity.created_at'), 'cursor_ts')
+        .orderBy('activity.createdAt', direction)
+        .addOrderBy('activity.id', direction)
+        .limit(limit + 1)
+        .getRawAndEntities();
       
-      // Get total count
-      const total = await queryBuilder.getCount();
+      const hasMore = entities.length > limit;
+      const cursors = raw.slice(0, limit).map((row: any) => encodeCursor({ t: row.cursor_ts, id: String(row.activity_id) }));
+      let activities = entities.slice(0, limit);
       
-      // Add pagination
-      const activities = await queryBuilder
-        .skip((Number(page) - 1) * Number(limit))
-        .take(Number(limit))
-        .getMany();
+      // Always return newest first
+      if (after) {
+        activities = activities.reverse();
+        cursors.reverse();
+      }
       
-      console.log('ActivityController: Retrieved activities:', activities.length, 'total:', total);
+      // nextCursor pages further into the past (?before=), prevCursor polls for newer activities (?after=)
+      const nextCursor = activities.length > 0 && (after || hasMore) ? cursors[cursors.length - 1] : null;
+      const prevCursor = activities.length > 0 ? cursors[0] : null;
+      
+      console.log('ActivityController: Retrieved activities:', activities.length, 'hasMore:', hasMore);
     
     res.json({
       activities,
@@ -60,10 +139,11 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
         roomKey: organization.roomKey
       },
       pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total,
-        pages: Math.ceil(total / Number(limit))
+        limit,
+        hasMore,
+        nextCursor,
+        prevCursor,
+        ...(total !== undefined ? { total } : {})
       }
     });
   } catch (error: any) {
@@ -73,21 +153,12 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
 });
 
 // Create a new activity
-router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createActivityBody }) as any, async (req: any, res: Response) => {
   try {
     const organizationId = req.organizationId || req.params.organizationId;
-    const { kind, message, objectType, objectId, meta = {} } = req.body;
-    
-    if (!kind || !message) {
-      return res.status(400).json({ message: 'Kind and message are required' });
-    }
-    
-    if (!Object.values(ActivityKind).includes(kind)) {
-      return res.status(400).json({ message: 'Invalid activity kind' });
-    }
+    const { kind, message, objectType, objectId, meta } = req.body;
     
-    const AppDataSource = await getInitializedDataSource();
-    const activityRepository = AppDataSource.getRepository(Activity);
+    const activityRepository = requestContext(req).manager.getRepository(Activity);
     
     const activity = activityRepository.create({
       organizationId,
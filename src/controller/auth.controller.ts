@@ -6,6 +6,8 @@ import { getInitializedDataSource } from '../config/database';
 import { User } from '../entity/user.entity';
 import logger from '../utils/logger';
 import { z } from 'zod';
+import { RefreshTokenService, RefreshTokenError } from '../services/refresh-token.service';
+import { validate, noInput } from '../utils/middleware/validationMiddleware';
 
 const router = Router();
 
@@ -18,42 +20,58 @@ export const passwordSchema = z
   .regex(/\p{Lu}/u, "Must include at least one uppercase letter")
   .regex(/\p{Nd}/u, "Must include at least one digit");
 
-const generateTokens = (userId: string, username: string) => {
-  const accessToken = jwt.sign(
+const username = z.string().trim().min(1, 'Username is required').max(100);
+
+const registerBody = z.object({ username, password: passwordSchema });
+
+// Login only checks presence; the password rules apply when it is set
+const loginBody = z.object({ username, password: z.string().min(1, 'Password is required') });
+
+const findByUsernameBody = z.object({ username });
+
+// Queries shorter than two characters answer an empty list
+const searchUsersBody = z.object({
+  query: z.string().max(100).default(''),
+  limit: z.number().int().min(1).max(50).default(10)
+});
+
+const generateAccessToken = (userId: string, username: string) => {
+  return jwt.sign(
     { userId, username, token_use: 'access' },
     process.env.JWT_ACCESS_SECRET || 'default-access-secret-for-demo',
     { expiresIn: '15m' }
   );
-  
-  const refreshToken = jwt.sign(
-    { userId, username, token_use: 'refresh', jti: require('crypto').randomUUID() },
-    process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-for-demo',
-    { expiresIn: '7d' }
-  );
+};
+
+// Starts a new refresh token family; the refresh token is persisted by its jti
+const generateTokens = async (userId: string, username: string) => {
+  const accessToken = generateAccessToken(userId, username);
+  const refreshToken = await RefreshTokenService.issue(userId, username);
   
   return { accessToken, refreshToken };
 };
 
-router.post('/register', async (req: Request, res: Response) => {
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
+    maxAge: RefreshTokenService.maxAgeMs
+  });
+};
+
+const clearRefreshCookie = (res: Response) => {
+  res.clearCookie('refreshToken', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax'
+  });
+};
+
+router.post('/register', validate({ body: registerBody }) as any, async (req: Request, res: Response) => {
   try {
     const { username, password } = req.body;
     
-    if (!username || !password) {
-      return res.status(400).json({ error: 'Username and password are required' });
-    }
-    
-    const checkPasswordParse = passwordSchema.safeParse(password);
-
-    if (!checkPasswordParse.success) {
-      return res.status(400).json({
-        message: "Validation failed",
-        errors: checkPasswordParse.error.issues.map((err) => ({
-          field: err.path.join("."),
-          message: err.message,
-        })),
-      });
-    }
-    
     const AppDataSource = await getInitializedDataSource();
     const userRepository = AppDataSource.getRepository(User);
     const existingUser = await userRepository.findOne({ where: { username } });
@@ -70,13 +88,8 @@ router.post('/register', async (req: Request, res: Response) => {
     
     await userRepository.save(user);
     
-    const { accessToken, refreshToken } = generateTokens(user.id, user.username);
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-    });
+    const { accessToken, refreshToken } = await generateTokens(user.id, user.username);
+    setRefreshCookie(res, refreshToken);
     logger.info(`User registered: ${username}`);
     
     const {id, passwordHash: passwrdHash, ...userWithoutPassword} = user;
@@ -92,14 +105,10 @@ router.post('/register', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', validate({ body: loginBody }) as any, async (req: Request, res: Response) => {
   try {
     const { username, password } = req.body;
     
-    if (!username || !password) {
-      return res.status(400).json({ error: 'Username and password are required' });
-    }
-    
     const AppDataSource = await getInitializedDataSource();
     const userRepository = AppDataSource.getRepository(User);
     const user = await userRepository.findOne({ where: { username } });
@@ -114,7 +123,7 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
     
-    const { accessToken, refreshToken } = generateTokens(user.id, user.username);
+    const { accessToken, refreshToken } = await generateTokens(user.id, user.username);
     
     logger.info(`User logged in: ${username}`);
     const queryRunner = AppDataSource.createQueryRunner();
@@ -126,12 +135,7 @@ router.post('/login', async (req: Request, res: Response) => {
     const {passwordHash, ...userWithoutPassword} = user;
     
     // Set refresh token as HTTP-only cookie
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000
-    });
+    setRefreshCookie(res, refreshToken);
     
     res.json({
       message: 'Login successful',
@@ -149,14 +153,10 @@ router.post('/login', async (req: Request, res: Response) => {
 
 
 // Find user by username
-router.post('/find-by-username', async (req: Request, res: Response) => {
+router.post('/find-by-username', validate({ body: findByUsernameBody }) as any, async (req: Request, res: Response) => {
   try {
     const { username } = req.body;
     
-    if (!username) {
-      return res.status(400).json({ error: 'Username is required' });
-    }
-    
     const AppDataSource = await getInitializedDataSource();
     const userRepository = AppDataSource.getRepository(User);
     const user = await userRepository.findOne({ where: { username } });
@@ -176,11 +176,11 @@ router.post('/find-by-username', async (req: Request, res: Response) => {
 });
 
 // Search users with fuzzy matching
-router.post('/search-users', async (req: Request, res: Response) => {
+router.post('/search-users', validate({ body: searchUsersBody }) as any, async (req: Request, res: Response) => {
   try {
-    const { query, limit = 10 } = req.body;
+    const { query, limit } = req.body;
     
-    if (!query || query.trim().length < 2) {
+    if (query.trim().length < 2) {
       return res.json({ users: [] });
     }
     
@@ -205,7 +205,7 @@ router.post('/search-users', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/refresh', async (req: Request, res: Response) => {
+router.post('/refresh', validate({ body: noInput }) as any, async (req: Request, res: Response) => {
   try {
     const refreshToken = req.cookies.refreshToken;
     
@@ -217,15 +217,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
     }
 
     try {
-      const payload = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-for-demo') as any;
-      
-      // Verify token type
-      if (payload.token_use !== 'refresh') {
-        return res.status(401).json({ 
-          code: 'invalid_token_type', 
-          message: 'Invalid token type' 
-        });
-      }
+      const payload = RefreshTokenService.verify(refreshToken);
 
       // Re-load user from database to ensure claims are current
       const AppDataSource = await getInitializedDataSource();
@@ -233,18 +225,19 @@ router.post('/refresh', async (req: Request, res: Response) => {
       const user = await userRepository.findOne({ where: { id: payload.userId } });
 
       if (!user) {
+        clearRefreshCookie(res);
         return res.status(401).json({ 
           code: 'user_not_found', 
           message: 'User not found' 
         });
       }
 
+      // Rotate: the presented token is revoked and replaced by a new one in the same family
+      const rotated = await RefreshTokenService.rotate(refreshToken, user.username);
+      setRefreshCookie(res, rotated.refreshToken);
+
       // Generate new access token with current user data
-      const newAccessToken = jwt.sign(
-        { userId: user.id, username: user.username, token_use: 'access' },
-        process.env.JWT_ACCESS_SECRET || 'default-access-secret-for-demo',
-        { expiresIn: '15m' }
-      );
+      const newAccessToken = generateAccessToken(user.id, user.username);
 
       // Set new access token in response header
       res.setHeader('Authorization', `Bearer ${newAccessToken}`);
@@ -256,17 +249,15 @@ router.post('/refresh', async (req: Request, res: Response) => {
         message: 'Token refreshed successfully' 
       });
 
-    } catch (jwtError: any) {
-      if (jwtError.name === 'TokenExpiredError') {
+    } catch (refreshError: any) {
+      if (refreshError instanceof RefreshTokenError) {
+        clearRefreshCookie(res);
         return res.status(401).json({ 
-          code: 'refresh_expired', 
-          message: 'Refresh token expired' 
+          code: refreshError.code, 
+          message: refreshError.message 
         });
       }
-      return res.status(401).json({ 
-        code: 'invalid_refresh', 
-        message: 'Invalid refresh token' 
-      });
+      throw refreshError;
     }
 
   } catch (error) {
@@ -278,14 +269,14 @@ router.post('/refresh', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/logout', async (req: Request, res: Response) => {
+router.post('/logout', validate({ body: noInput }) as any, async (req: Request, res: Response) => {
   try {
     const refreshToken = req.cookies.refreshToken;
     
     if (refreshToken) {
-      // In a production app, you would blacklist the refresh token
-      // For now, we'll just clear the cookie
-      res.clearCookie('refreshToken');
+      // Revoke the whole token family so copies of the cookie stop working too
+      await RefreshTokenService.revoke(refreshToken);
+      clearRefreshCookie(res);
       logger.info('User logged out');
     }
     
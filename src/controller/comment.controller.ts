@@ -0,0 +1,333 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission, sendForbidden } from '../utils/middleware/permissionMiddleware';
+import { ActivityService } from '../services/activity.service';
+import { NotificationService } from '../services/notification.service';
+import { getWebSocketService } from '../services/websocket.service';
+import { validate, id, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const MENTION_REGEX = /(^|[^\w@])@([A-Za-z0-9_.-]+)/g;
+const MAX_COMMENT_LENGTH = 10000;
+
+const commentParams = z.object({ commentId: idParam });
+
+// Stored as written; only a blank body is refused
+const commentBody = z.string()
+  .max(MAX_COMMENT_LENGTH, `Comment body must be at most ${MAX_COMMENT_LENGTH} characters`)
+  .refine((body) => body.trim().length > 0, 'Comment body is required');
+
+const createCommentBody = z.object({
+  body: commentBody,
+  // Replies name their parent comment
+  parentId: id.nullable().optional()
+});
+
+const updateCommentBody = z.object({ body: commentBody });
+
+// Extract projectId/taskId from the original URL since they're not in req.params
+const getRouteIds = (req: any) => {
+  const urlMatch = req.originalUrl?.match(/\/projects\/([^\/]+)\/tasks\/([^\/]+)\/comments/);
+  return {
+    projectId: req.params.projectId || urlMatch?.[1],
+    taskId: req.params.taskId || urlMatch?.[2]
+  };
+};
+
+const parseMentionedUsernames = (body: string): string[] => {
+  const usernames = new Set<string>();
+  for (const match of body.matchAll(MENTION_REGEX)) {
+    usernames.add(match[2].toLowerCase());
+  }
+  return Array.from(usernames);
+};
+
+// Resolve @username mentions against the project's members; unknown names are ignored
+const resolveMentions = async (req: any, projectId: string, body: string) => {
+  const usernames = parseMentionedUsernames(body);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  return executeWithRLS(req, `
+    SELECT u.id, u.username
+    FROM project_members pm
+    JOIN users u ON u.id = pm.user_id
+    WHERE pm.project_id = $1 AND pm.organization_id = $2
+      AND lower(u.username::text) = ANY($3::text[])
+  `, [projectId, req.organizationId, usernames]);
+};
+
+const getTask = async (req: any, projectId: string, taskId: string) => {
+  const task = await executeWithRLS(req, `
+    SELECT id, title FROM tasks
+    WHERE id = $1 AND project_id = $2 AND organization_id = $3
+  `, [taskId, projectId, req.organizationId]);
+
+  return task[0];
+};
+
+// Broadcast to the project room once the comment change has committed
+const broadcastComment = (req: any, projectId: string, action: 'created' | 'updated' | 'deleted', comment: Record<string, any>) => {
+  afterCommit(req, () => getWebSocketService()?.broadcastTaskComment(projectId, action, comment));
+};
+
+// Nest replies under their parent comment; orphans (parent deleted mid-read) stay top-level
+const buildThreads = (comments: any[]) => {
+  const byId = new Map<string, any>();
+  comments.forEach((comment) => byId.set(String(comment.id), { ...comment, replies: [] }));
+
+  const threads: any[] = [];
+  for (const comment of byId.values()) {
+    const parent = comment.parent_id ? byId.get(String(comment.parent_id)) : undefined;
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      threads.push(comment);
+    }
+  }
+  return threads;
+};
+
+// 1. List comments for a task (threaded)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+
+    const task = await getTask(req, projectId, taskId);
+    if (!task) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    const comments = await executeWithRLS(req, `
+      SELECT
+        c.id, c.task_id, c.parent_id, c.author_id, c.body, c.created_at, c.updated_at,
+        u.username as author_username,
+        COALESCE((
+          SELECT json_agg(json_build_object('id', mu.id, 'username', mu.username))
+          FROM users mu WHERE mu.id = ANY(c.mentions)
+        ), '[]'::json) as mentions
+      FROM task_comments c
+      LEFT JOIN users u ON u.id = c.author_id
+      WHERE c.task_id = $1 AND c.organization_id = $2
+      ORDER BY c.created_at ASC, c.id ASC
+    `, [taskId, req.organizationId]);
+
+    res.json({
+      comments: buildThreads(comments),
+      count: comments.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching comments:', error);
+    res.status(500).json({
+      message: 'Failed to fetch comments'
+    });
+  }
+});
+
+// 2. Create comment or reply (comment.create)
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createCommentBody }) as any, requirePermission('comment.create') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+    const { body, parentId } = req.body;
+
+    const task = await getTask(req, projectId, taskId);
+    if (!task) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    if (parentId) {
+      const parent = await executeWithRLS(req, `
+        SELECT id FROM task_comments WHERE id = $1 AND task_id = $2
+      `, [parentId, taskId]);
+
+      if (parent.length === 0) {
+        return res.status(400).json({
+          message: 'Parent comment must belong to the same task'
+        });
+      }
+    }
+
+    const mentions = await resolveMentions(req, projectId, body);
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO task_comments (organization_id, project_id, task_id, parent_id, author_id, body, mentions)
+      VALUES ($1, $2, $3, $4, $5, $6, $7::bigint[])
+      RETURNING id, task_id, parent_id, author_id, body, created_at, updated_at
+    `, [req.organizationId, projectId, taskId, parentId || null, req.user!.userId, body, mentions.map((m: any) => m.id)]);
+
+    const comment = {
+      ...result[0],
+      author_username: req.user!.username,
+      mentions
+    };
+
+    afterCommit(req, () => ActivityService.logCommentActivity(
+      req.organizationId,
+      req.user!.userId,
+      parentId ? 'replied' : 'created',
+      task.title,
+      comment.id,
+      taskId,
+      mentions.map((m: any) => m.id)
+    ));
+
+    afterCommit(req, () => NotificationService.notifyMentioned(
+      req.organizationId,
+      req.user!.userId,
+      mentions.map((m: any) => m.id),
+      { id: taskId, title: task.title, projectId },
+      comment.id
+    ));
+
+    broadcastComment(req, projectId, 'created', comment);
+
+    res.status(201).json({
+      comment,
+      message: 'Comment created successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error creating comment:', error);
+    res.status(500).json({
+      message: 'Failed to create comment'
+    });
+  }
+});
+
+// 3. Edit comment (author only)
+router.put('/:commentId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: commentParams, body: updateCommentBody }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+    const { commentId } = req.params;
+    const { body } = req.body;
+
+    const existing = await executeWithRLS(req, `
+      SELECT c.id, c.author_id, c.mentions, t.title as task_title
+      FROM task_comments c
+      JOIN tasks t ON t.id = c.task_id
+      WHERE c.id = $1 AND c.task_id = $2 AND c.project_id = $3 AND c.organization_id = $4
+    `, [commentId, taskId, projectId, req.organizationId]);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        message: 'Comment not found'
+      });
+    }
+
+    if (String(existing[0].author_id) !== String(req.user!.userId)) {
+      return res.status(403).json({
+        message: 'Only the author can edit a comment'
+      });
+    }
+
+    const mentions = await resolveMentions(req, projectId, body);
+
+    const result = await executeWithRLS(req, `
+      UPDATE task_comments
+      SET body = $1, mentions = $2::bigint[], updated_at = now()
+      WHERE id = $3
+      RETURNING id, task_id, parent_id, author_id, body, created_at, updated_at
+    `, [body, mentions.map((m: any) => m.id), commentId]);
+
+    const comment = {
+      ...result[0][0],
+      author_username: req.user!.username,
+      mentions
+    };
+
+    afterCommit(req, () => ActivityService.logCommentActivity(
+      req.organizationId,
+      req.user!.userId,
+      'updated',
+      existing[0].task_title,
+      commentId,
+      taskId,
+      mentions.map((m: any) => m.id)
+    ));
+
+    // Only people newly mentioned by the edit are notified
+    const previousMentions = (existing[0].mentions || []).map(String);
+    afterCommit(req, () => NotificationService.notifyMentioned(
+      req.organizationId,
+      req.user!.userId,
+      mentions.map((m: any) => String(m.id)).filter((id: string) => !previousMentions.includes(id)),
+      { id: taskId, title: existing[0].task_title, projectId },
+      commentId
+    ));
+
+    broadcastComment(req, projectId, 'updated', comment);
+
+    res.json({
+      comment,
+      message: 'Comment updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating comment:', error);
+    res.status(500).json({
+      message: 'Failed to update comment'
+    });
+  }
+});
+
+// 4. Delete comment and its replies (author, or comment.delete_any)
+router.delete('/:commentId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: commentParams }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+    const { commentId } = req.params;
+
+    const existing = await executeWithRLS(req, `
+      SELECT c.id, c.author_id, t.title as task_title
+      FROM task_comments c
+      JOIN tasks t ON t.id = c.task_id
+      WHERE c.id = $1 AND c.task_id = $2 AND c.project_id = $3 AND c.organization_id = $4
+    `, [commentId, taskId, projectId, req.organizationId]);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        message: 'Comment not found'
+      });
+    }
+
+    const isAuthor = String(existing[0].author_id) === String(req.user!.userId);
+    if (!isAuthor && !req.access.permissions.has('comment.delete_any')) {
+      return sendForbidden(res, 'comment.delete_any');
+    }
+
+    await executeWithRLS(req, `
+      DELETE FROM task_comments WHERE id = $1
+    `, [commentId]);
+
+    afterCommit(req, () => ActivityService.logCommentActivity(
+      req.organizationId,
+      req.user!.userId,
+      'deleted',
+      existing[0].task_title,
+      commentId,
+      taskId
+    ));
+
+    broadcastComment(req, projectId, 'deleted', { id: commentId, task_id: taskId });
+
+    res.json({
+      message: 'Comment deleted successfully',
+      commentId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting comment:', error);
+    res.status(500).json({
+      message: 'Failed to delete comment'
+    });
+  }
+});
+
+export default router;
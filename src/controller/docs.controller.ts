@@ -0,0 +1,139 @@
+import express, { Request, Response } from 'express';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { OpenApiService, DocumentedRouter, OperationDoc } from '../services/openapi.service';
+import authRouter from './auth.controller';
+import organizationRouter from './organization.controller';
+import projectRouter from './project.controller';
+import taskRouter from './task.controller';
+import activityRouter from './activity.controller';
+
+const router = express.Router();
+
+// Mount paths as in src/index.ts
+const DOCUMENTED_ROUTERS: DocumentedRouter[] = [
+  { prefix: '/api/auth', router: authRouter, tag: 'Auth', description: 'Accounts, login and access token refresh' },
+  { prefix: '/api/organizations', router: organizationRouter, tag: 'Organizations', description: 'Organizations and their members' },
+  { prefix: '/api/organizations/:organizationId/projects', router: projectRouter, tag: 'Projects', description: 'Projects and project members' },
+  { prefix: '/api/organizations/:organizationId/projects/:projectId/tasks', router: taskRouter, tag: 'Tasks', description: 'Tasks, the board, history, subtasks and labels' },
+  { prefix: '/api/organizations/:organizationId/activities', router: activityRouter, tag: 'Activities', description: 'The organization\'s activity feed' }
+];
+
+const ORGANIZATION = '/api/organizations/{organizationId}';
+const PROJECTS = `${ORGANIZATION}/projects`;
+const TASKS = `${PROJECTS}/{projectId}/tasks`;
+
+const OPERATIONS: Record<string, OperationDoc> = {
+  'POST /api/auth/register': {
+    summary: 'Register',
+    description: 'Creates the user, sets the refresh cookie and returns an access token.',
+    status: 201,
+    responses: { 400: 'Username already exists' }
+  },
+  'POST /api/auth/login': {
+    summary: 'Log in',
+    description: 'Sets the refresh cookie and returns an access token.',
+    responses: { 401: 'Invalid credentials' }
+  },
+  'POST /api/auth/find-by-username': { summary: 'Find a user by username', responses: { 404: 'User not found' } },
+  'POST /api/auth/search-users': { summary: 'Search users by username', description: 'Queries shorter than two characters return an empty list.' },
+  'POST /api/auth/refresh': {
+    summary: 'Refresh the access token',
+    description: 'Rotates the refresh cookie and returns a new access token, also in the `Authorization` response header. A refresh token is single-use: presenting it twice revokes its whole family.',
+    auth: 'refresh',
+    errors: ['missing_refresh', 'invalid_refresh', 'invalid_token_type', 'refresh_expired', 'refresh_reused', 'user_not_found', 'internal_error']
+  },
+  'POST /api/auth/logout': { summary: 'Log out', description: 'Revokes the refresh token family and clears the cookie.', auth: 'refresh' },
+
+  'POST /api/organizations': { summary: 'Create an organization', description: 'The caller becomes its OWNER.', status: 201, responses: { 409: 'Subdomain already exists' } },
+  'GET /api/organizations': { summary: 'List the caller\'s organizations' },
+  'POST /api/organizations/switch/{organizationId}': { summary: 'Switch to an organization', responses: { 403: 'Not a member of the organization' } },
+  'GET /api/organizations/current': {
+    summary: 'Get the current organization',
+    description: 'The organization is taken from `?organizationId=`.',
+    responses: { 404: 'Organization not found or access denied' }
+  },
+  [`POST ${ORGANIZATION}/members`]: { summary: 'Add a member', status: 201, responses: { 404: 'User not found', 409: 'User is already a member of this organization' } },
+  [`GET ${ORGANIZATION}/members`]: { summary: 'List members' },
+  [`PUT ${ORGANIZATION}/members/{userId}`]: { summary: 'Change a member\'s role', responses: { 404: 'User is not a member of this organization' } },
+  [`DELETE ${ORGANIZATION}/members/{userId}`]: { summary: 'Remove a member', responses: { 404: 'User is not a member of this organization' } },
+  [`POST ${ORGANIZATION}/transfer-ownership`]: { summary: 'Transfer ownership', responses: { 404: 'New owner must be a member of the organization' } },
+
+  [`POST ${PROJECTS}`]: { summary: 'Create a project', description: 'The caller becomes an EDITOR of the project.', status: 201, responses: { 409: 'Project slug already exists in this organization' } },
+  [`GET ${PROJECTS}`]: { summary: 'List projects' },
+  [`GET ${PROJECTS}/{projectId}`]: { summary: 'Get a project', responses: { 404: 'Project not found' } },
+  [`PUT ${PROJECTS}/{projectId}`]: { summary: 'Update a project', responses: { 404: 'Project not found', 409: 'Project slug already exists in this organization' } },
+  [`DELETE ${PROJECTS}/{projectId}`]: { summary: 'Delete a project', description: 'Its members, tasks and the rest of the project are deleted with it.', responses: { 404: 'Project not found' } },
+  [`POST ${PROJECTS}/{projectId}/members`]: { summary: 'Add a project member', status: 201, responses: { 404: 'User must be a member of the organization first', 409: 'User is already a member of this project' } },
+  [`GET ${PROJECTS}/{projectId}/members`]: { summary: 'List project members' },
+  [`PUT ${PROJECTS}/{projectId}/members/{userId}`]: { summary: 'Change a project member\'s role', responses: { 404: 'User is not a member of this project' } },
+  [`DELETE ${PROJECTS}/{projectId}/members/{userId}`]: { summary: 'Remove a project member' },
+
+  [`POST ${TASKS}`]: { summary: 'Create a task', description: 'New tasks go to the bottom of their status column.', status: 201 },
+  [`GET ${TASKS}`]: {
+    summary: 'List tasks',
+    description: 'List filters take comma-separated or repeated values; `me` stands for the caller. `?viewId=` applies a saved view, and filters given in the query override its values.'
+  },
+  [`PUT ${TASKS}/{taskId}`]: {
+    summary: 'Update a task',
+    description: 'Assignees can change the status, `task.assign` can reassign and `task.update` can change everything. Status changes follow the workflow\'s transitions.',
+    errors: ['task_blocked'],
+    responses: { 404: 'Task not found' }
+  },
+  [`DELETE ${TASKS}/{taskId}`]: { summary: 'Delete a task', description: 'Its subtasks become top-level tasks.', responses: { 404: 'Task not found' } },
+  [`GET ${TASKS}/board`]: { summary: 'Get the board', description: 'Takes the same filters as the list; columns follow the workflow order.' },
+  [`GET ${TASKS}/{taskId}/history`]: { summary: 'Get a task\'s field history', description: 'Newest first.', errors: ['invalid_cursor'] },
+  [`POST ${TASKS}/{taskId}/move`]: {
+    summary: 'Move a task on the board',
+    description: 'Places the task directly below `afterTaskId` and/or above `beforeTaskId` in the status column; with neither it goes to the bottom.',
+    errors: ['task_blocked'],
+    responses: { 404: 'Task not found' }
+  },
+  [`GET ${TASKS}/{taskId}/subtasks`]: { summary: 'List subtasks with progress', responses: { 404: 'Task not found' } },
+  [`POST ${TASKS}/{taskId}/labels`]: { summary: 'Add labels to a task', description: 'Labels the task already has are left as they are.', responses: { 404: 'Task not found' } },
+  [`DELETE ${TASKS}/{taskId}/labels/{labelId}`]: { summary: 'Remove a label from a task', responses: { 404: 'Label is not on this task' } },
+
+  [`GET ${ORGANIZATION}/activities`]: {
+    summary: 'Get the activity feed',
+    description: 'Newest first. Page into the past with `?before=<nextCursor>` and catch up with `?after=<prevCursor>`.',
+    errors: ['invalid_cursor'],
+    responses: { 404: 'Organization not found' }
+  },
+  [`POST ${ORGANIZATION}/activities`]: { summary: 'Record an activity', status: 201 }
+};
+
+const DESCRIPTION = `Multi-tenant task manager API.
+
+Authenticate with the access token from \`POST /api/auth/login\` as \`Authorization: Bearer <token>\`. It expires after 15 minutes; on \`401\` with \`code: token_expired\` call \`POST /api/auth/refresh\`, which reads the HTTP-only \`refreshToken\` cookie, and retry.
+
+Invalid input is answered with \`400\` and \`code: validation_failed\`, listing every issue in \`errors\`. Other refusals answer \`{ message }\`, plus a \`code\` where clients can act on it.`;
+
+let document: Record<string, any> | null = null;
+
+// Built on first use, once every router is defined
+const getDocument = () => {
+  if (!document) {
+    document = OpenApiService.buildDocument({
+      title: 'Multi-Tenant Task Manager API',
+      version: '1.0.0',
+      description: DESCRIPTION,
+      routers: DOCUMENTED_ROUTERS,
+      operations: OPERATIONS
+    });
+  }
+  return document;
+};
+
+const docsPage = readFileSync(join(__dirname, '..', 'docs', 'index.html'), 'utf8');
+
+// OpenAPI 3.1 document
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  res.json(getDocument());
+});
+
+// Interactive docs page; it loads /api/openapi.json
+router.get('/docs', (_req: Request, res: Response) => {
+  res.type('html').send(docsPage);
+});
+
+export default router;
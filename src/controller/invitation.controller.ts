@@ -0,0 +1,258 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { ActivityService } from '../services/activity.service';
+import { InvitationService, DEFAULT_INVITE_EXPIRY_DAYS, MAX_INVITE_EXPIRY_DAYS, INVITATION_STATUSES } from '../services/invitation.service';
+import { PermissionService } from '../services/permission.service';
+import { OrgRole, RoleScope } from '../db/enums';
+import { validate, id, idParam } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const createInvitationBody = z.object({
+  email: z.string().trim().max(320).regex(EMAIL_REGEX, 'A valid email is required'),
+  role: z.enum(OrgRole).default(OrgRole.USER),
+  customRoleId: id.nullable().default(null),
+  expiresInDays: z.number().int().min(1).max(MAX_INVITE_EXPIRY_DAYS).default(DEFAULT_INVITE_EXPIRY_DAYS)
+});
+
+const invitationQuery = z.object({
+  status: z.enum(INVITATION_STATUSES).optional()
+});
+
+const invitationParams = z.object({ invitationId: idParam });
+
+const acceptInvitationBody = z.object({
+  token: z.string().min(1, 'Invitation token is required').max(200)
+});
+
+const serializeInvitation = (row: any) => ({
+  id: row.id,
+  email: row.email,
+  role: row.role,
+  custom_role_id: row.custom_role_id,
+  status: InvitationService.statusOf(row),
+  invited_by: row.invited_by,
+  invited_by_username: row.invited_by_username,
+  expires_at: row.expires_at,
+  accepted_at: row.accepted_at,
+  accepted_by: row.accepted_by,
+  revoked_at: row.revoked_at,
+  created_at: row.created_at
+});
+
+// 1. Create invitation (member.invite)
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createInvitationBody }) as any, requirePermission('member.invite') as any, async (req: any, res: Response) => {
+  try {
+    const organizationId = req.organizationId;
+    const { email, role, customRoleId, expiresInDays: days } = req.body;
+
+    // ADMIN cannot invite new OWNERs; custom-role inviters can only invite USERs
+    if (!PermissionService.canAssignOrgRole(req.access.orgRole, role)) {
+      return res.status(403).json({
+        message: `You cannot invite users as ${role}`
+      });
+    }
+
+    if (customRoleId !== null) {
+      const lookup = await PermissionService.findAssignableRole(req, customRoleId, RoleScope.ORGANIZATION);
+      if (lookup.error) {
+        return res.status(400).json({
+          message: lookup.error
+        });
+      }
+    }
+
+    const pending = await executeWithRLS(req, `
+      SELECT id FROM invitations
+      WHERE organization_id = $1 AND email = $2
+        AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > now()
+    `, [organizationId, email]);
+
+    if (pending.length > 0) {
+      return res.status(409).json({
+        message: 'A pending invitation already exists for this email'
+      });
+    }
+
+    // Expired invitations still hold the partial unique index, so close them out first
+    await executeWithRLS(req, `
+      UPDATE invitations SET revoked_at = now()
+      WHERE organization_id = $1 AND email = $2
+        AND accepted_at IS NULL AND revoked_at IS NULL
+    `, [organizationId, email]);
+
+    const { token, tokenHash } = InvitationService.generateToken();
+    const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO invitations (organization_id, email, role, custom_role_id, token_hash, invited_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, email, role, custom_role_id, invited_by, expires_at, accepted_at, accepted_by, revoked_at, created_at
+    `, [organizationId, email, role, customRoleId, tokenHash, req.user!.userId, expiresAt]);
+
+    const invitation = result[0];
+
+    const organization = await executeWithRLS(req, `
+      SELECT name FROM organizations WHERE id = $1
+    `, [organizationId]);
+
+    let emailSent = true;
+    try {
+      await InvitationService.sendInvitationEmail(
+        email,
+        token,
+        organization[0]?.name || 'your organization',
+        req.user!.username || 'A teammate',
+        role,
+        expiresAt
+      );
+    } catch (mailError) {
+      console.error('Error sending invitation email:', mailError);
+      emailSent = false;
+    }
+
+    res.status(201).json({
+      invitation: serializeInvitation(invitation),
+      emailSent,
+      message: 'Invitation created successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error creating invitation:', error);
+    res.status(500).json({
+      message: 'Failed to create invitation'
+    });
+  }
+});
+
+// 2. List invitations (member.invite)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: invitationQuery }) as any, requirePermission('member.invite') as any, async (req: any, res: Response) => {
+  try {
+    const organizationId = req.organizationId;
+    const { status } = req.query;
+
+    const rows = await executeWithRLS(req, `
+      SELECT
+        i.id, i.email, i.role, i.custom_role_id, i.invited_by, i.expires_at,
+        i.accepted_at, i.accepted_by, i.revoked_at, i.created_at,
+        u.username as invited_by_username
+      FROM invitations i
+      LEFT JOIN users u ON u.id = i.invited_by
+      WHERE i.organization_id = $1
+      ORDER BY i.created_at DESC
+    `, [organizationId]);
+
+    let invitations = rows.map(serializeInvitation);
+    if (status) {
+      invitations = invitations.filter((invitation: any) => invitation.status === status);
+    }
+
+    res.json({
+      invitations,
+      count: invitations.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({
+      message: 'Failed to fetch invitations'
+    });
+  }
+});
+
+// 3. Revoke invitation (member.invite)
+router.delete('/:invitationId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: invitationParams }) as any, requirePermission('member.invite') as any, async (req: any, res: Response) => {
+  try {
+    const organizationId = req.organizationId;
+    const { invitationId } = req.params;
+
+    const invitation = await executeWithRLS(req, `
+      SELECT id, accepted_at, revoked_at FROM invitations
+      WHERE id = $1 AND organization_id = $2
+    `, [invitationId, organizationId]);
+
+    if (invitation.length === 0) {
+      return res.status(404).json({
+        message: 'Invitation not found'
+      });
+    }
+
+    if (invitation[0].accepted_at) {
+      return res.status(409).json({
+        message: 'Invitation has already been accepted'
+      });
+    }
+
+    if (!invitation[0].revoked_at) {
+      await executeWithRLS(req, `
+        UPDATE invitations SET revoked_at = now()
+        WHERE id = $1 AND organization_id = $2
+      `, [invitationId, organizationId]);
+    }
+
+    res.json({
+      message: 'Invitation revoked successfully',
+      invitationId
+    });
+
+  } catch (error: any) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({
+      message: 'Failed to revoke invitation'
+    });
+  }
+});
+
+// Accepting happens outside any organization context: the invitee is not a member yet
+export const acceptInvitationRouter = express.Router();
+
+// 4. Accept invitation (any authenticated user holding the token)
+acceptInvitationRouter.post('/accept', jwtMiddleware as any, validate({ body: acceptInvitationBody }) as any, async (req: any, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    const userId = req.user!.userId;
+
+    const outcome = await InvitationService.accept((query, params) => executeWithRLS(req, query, params), token);
+    if (!outcome.invitation) {
+      return res.status(outcome.status!).json({
+        message: outcome.message
+      });
+    }
+
+    const { invitation } = outcome;
+
+    const userDetails = await executeWithRLS(req, `
+      SELECT username FROM users WHERE id = $1
+    `, [userId]);
+
+    // Log activity on behalf of the inviter so the feed reads "<admin> added <user>"
+    afterCommit(req, () => ActivityService.logMemberActivity(
+      invitation.organization_id,
+      invitation.invited_by || userId,
+      'added',
+      userDetails[0].username,
+      userId,
+      invitation.role
+    ));
+
+    res.json({
+      message: 'Invitation accepted successfully',
+      organizationId: invitation.organization_id,
+      role: invitation.role,
+      customRoleId: invitation.custom_role_id
+    });
+
+  } catch (error: any) {
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({
+      message: 'Failed to accept invitation'
+    });
+  }
+});
+
+export default router;
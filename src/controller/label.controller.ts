@@ -0,0 +1,191 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { LabelService, LABEL_COLUMNS } from '../services/label.service';
+import { validate, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const labelParams = z.object({ labelId: idParam });
+
+// Types only; LabelService.validate trims and checks the values and normalizes the colour
+const createLabelBody = z.object({
+  name: z.string(),
+  color: z.string(),
+  description: z.string().nullable().optional()
+});
+
+const updateLabelBody = createLabelBody.partial();
+
+const getLabel = async (req: any, labelId: string) => {
+  const label = await executeWithRLS(req, `
+    SELECT ${LABEL_COLUMNS} FROM labels
+    WHERE id = $1 AND organization_id = $2
+  `, [labelId, req.organizationId]);
+
+  return label[0];
+};
+
+// 1. List the organization's label catalog with usage counts (organization.view)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const labels = await executeWithRLS(req, `
+      SELECT
+        l.id, l.name, l.color, l.description, l.created_by, l.created_at, l.updated_at,
+        (SELECT COUNT(*)::int FROM task_labels tl WHERE tl.label_id = l.id) as task_count
+      FROM labels l
+      WHERE l.organization_id = $1
+      ORDER BY lower(l.name) ASC, l.id ASC
+    `, [req.organizationId]);
+
+    res.json({
+      labels,
+      count: labels.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching labels:', error);
+    res.status(500).json({
+      message: 'Failed to fetch labels'
+    });
+  }
+});
+
+// 2. Create label (label.manage)
+// Body: { name, color: '#1f77b4', description? }
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createLabelBody }) as any, requirePermission('label.manage') as any, async (req: any, res: Response) => {
+  try {
+    const validated = LabelService.validate(req.body, false);
+    if (validated.error) {
+      return res.status(400).json({
+        message: validated.error
+      });
+    }
+    const { name, color, description = null } = validated.input!;
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO labels (organization_id, name, color, description, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${LABEL_COLUMNS}
+    `, [req.organizationId, name, color, description, req.user!.userId]);
+
+    res.status(201).json({
+      label: result[0],
+      message: 'Label created successfully'
+    });
+
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        message: 'A label with this name already exists in this organization'
+      });
+    }
+    console.error('Error creating label:', error);
+    res.status(500).json({
+      message: 'Failed to create label'
+    });
+  }
+});
+
+// 3. Update label (label.manage)
+// Body: { name?, color?, description? }
+router.put('/:labelId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: labelParams, body: updateLabelBody }) as any, requirePermission('label.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { labelId } = req.params;
+
+    const validated = LabelService.validate(req.body, true);
+    if (validated.error) {
+      return res.status(400).json({
+        message: validated.error
+      });
+    }
+    const { name, color, description } = validated.input!;
+
+    const existing = await getLabel(req, labelId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Label not found'
+      });
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    if (name !== undefined) {
+      updateFields.push(`name = $${paramCount++}`);
+      updateValues.push(name);
+    }
+    if (color !== undefined) {
+      updateFields.push(`color = $${paramCount++}`);
+      updateValues.push(color);
+    }
+    if (description !== undefined) {
+      updateFields.push(`description = $${paramCount++}`);
+      updateValues.push(description);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    updateValues.push(labelId, req.organizationId);
+
+    const result = await executeWithRLS(req, `
+      UPDATE labels
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++} AND organization_id = $${paramCount++}
+      RETURNING ${LABEL_COLUMNS}
+    `, updateValues);
+
+    res.json({
+      label: result[0][0],
+      message: 'Label updated successfully'
+    });
+
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        message: 'A label with this name already exists in this organization'
+      });
+    }
+    console.error('Error updating label:', error);
+    res.status(500).json({
+      message: 'Failed to update label'
+    });
+  }
+});
+
+// 4. Delete label; it is removed from every task that carries it (label.manage)
+router.delete('/:labelId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: labelParams }) as any, requirePermission('label.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { labelId } = req.params;
+
+    const existing = await getLabel(req, labelId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Label not found'
+      });
+    }
+
+    await executeWithRLS(req, `
+      DELETE FROM labels WHERE id = $1 AND organization_id = $2
+    `, [labelId, req.organizationId]);
+
+    res.json({
+      message: 'Label deleted successfully',
+      labelId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting label:', error);
+    res.status(500).json({
+      message: 'Failed to delete label'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { MyWorkService } from '../services/my-work.service';
+import { validate, booleanQuery, limitQuery } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+// ?includeDone=true&limit=<tasks per bucket>
+const myWorkQuery = z.object({
+  includeDone: booleanQuery.optional(),
+  limit: limitQuery(50, 200)
+});
+
+const router = express.Router();
+
+// 1. Tasks assigned to the caller across every accessible project of the organization
+router.get('/tasks', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: myWorkQuery }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const work = await MyWorkService.getAssignedTasks(req, {
+      organizationId: req.organizationId,
+      includeDone: req.query.includeDone === 'true',
+      limit: req.query.limit
+    });
+
+    res.json({
+      organizationId: req.organizationId,
+      ...work
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching my tasks:', error);
+    res.status(500).json({
+      message: 'Failed to fetch my tasks'
+    });
+  }
+});
+
+// Cross-organization variant, mounted at /api/me
+export const userWorkRouter = express.Router();
+
+// 2. Tasks assigned to the caller in every organization they belong to
+userWorkRouter.get('/tasks', jwtMiddleware as any, validate({ query: myWorkQuery }) as any, async (req: any, res: Response) => {
+  try {
+    const work = await MyWorkService.getAssignedTasks(req, {
+      organizationId: null,
+      includeDone: req.query.includeDone === 'true',
+      limit: req.query.limit
+    });
+
+    res.json(work);
+
+  } catch (error: any) {
+    console.error('Error fetching my tasks:', error);
+    res.status(500).json({
+      message: 'Failed to fetch my tasks'
+    });
+  }
+});
+
+export default router;
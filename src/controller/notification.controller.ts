@@ -0,0 +1,246 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, executeInTransactionWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { encodeCursor, decodeCursor, cursorTimestampSql } from '../utils/cursor';
+import { DigestFrequency, NotificationChannel, NotificationType } from '../db/enums';
+import { NotificationPreferenceService } from '../services/notification-preference.service';
+import { validate, idParam, booleanQuery, limitQuery, cursorQuery, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const notificationQuery = z.object({
+  unread: booleanQuery.optional(),
+  before: cursorQuery.optional(),
+  limit: limitQuery(20, 100)
+});
+
+const notificationParams = z.object({ notificationId: idParam });
+
+// Notification type to channel; types left out keep their current channel
+const updatePreferencesBody = z.object({
+  preferences: z.partialRecord(z.enum(NotificationType), z.enum(NotificationChannel)).optional(),
+  digest: z.enum(DigestFrequency).optional()
+});
+
+const countUnread = async (req: any): Promise<number> => {
+  const result = await executeWithRLS(req, `
+    SELECT COUNT(*)::int as count FROM notifications
+    WHERE user_id = $1 AND organization_id = $2 AND read_at IS NULL
+  `, [req.user!.userId, req.organizationId]);
+
+  return result[0].count;
+};
+
+// The caller's channel per notification type and digest settings; query runs with RLS
+const loadPreferences = async (query: (sql: string, params?: any[]) => Promise<any>, req: any) => {
+  const rows = await query(`
+    SELECT event_type, channel FROM notification_preferences
+    WHERE user_id = $1 AND organization_id = $2
+  `, [req.user!.userId, req.organizationId]);
+
+  const digest = await query(`
+    SELECT frequency, next_run_at, last_sent_at FROM digest_subscriptions
+    WHERE user_id = $1 AND organization_id = $2
+  `, [req.user!.userId, req.organizationId]);
+
+  return {
+    preferences: NotificationPreferenceService.resolve(rows),
+    digest: digest[0] ?? { frequency: DigestFrequency.NONE, next_run_at: null, last_sent_at: null }
+  };
+};
+
+// 1. List the caller's notifications, newest first (organization.view)
+//   ?unread=true  only unread ones
+//   ?before=<cursor>  older notifications than the cursor (keyset on created_at, id)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: notificationQuery }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { limit } = req.query;
+
+    const cursor = req.query.before ? decodeCursor(req.query.before) : null;
+    if (req.query.before && !cursor) {
+      return res.status(400).json({ code: 'invalid_cursor', message: 'Invalid pagination cursor' });
+    }
+
+    const params: any[] = [req.user!.userId, req.organizationId];
+    const conditions = ['n.user_id = $1', 'n.organization_id = $2'];
+    if (req.query.unread === 'true') {
+      conditions.push('n.read_at IS NULL');
+    }
+    if (cursor) {
+      params.push(cursor.t, cursor.id);
+      conditions.push(`(n.created_at, n.id) < ($${params.length - 1}::timestamptz, $${params.length}::bigint)`);
+    }
+    params.push(limit + 1);
+
+    const rows = await executeWithRLS(req, `
+      SELECT
+        n.id, n.type, n.message, n.object_type, n.object_id, n.data, n.read_at, n.created_at,
+        n.actor_id, u.username as actor_username,
+        ${cursorTimestampSql('n.created_at')} as cursor_ts
+      FROM notifications n
+      LEFT JOIN users u ON u.id = n.actor_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY n.created_at DESC, n.id DESC
+      LIMIT $${params.length}
+    `, params);
+
+    const hasMore = rows.length > limit;
+    const notifications = rows.slice(0, limit);
+    const last = notifications[notifications.length - 1];
+
+    res.json({
+      notifications: notifications.map(({ cursor_ts, ...notification }: any) => notification),
+      unreadCount: await countUnread(req),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor({ t: last.cursor_ts, id: String(last.id) }) : null
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      message: 'Failed to fetch notifications'
+    });
+  }
+});
+
+// 2. Count the caller's unread notifications (organization.view)
+router.get('/unread-count', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    res.json({
+      unreadCount: await countUnread(req)
+    });
+
+  } catch (error: any) {
+    console.error('Error counting unread notifications:', error);
+    res.status(500).json({
+      message: 'Failed to count unread notifications'
+    });
+  }
+});
+
+// 3. Mark all of the caller's notifications read (organization.view)
+router.post('/read-all', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const result = await executeWithRLS(req, `
+      UPDATE notifications SET read_at = now()
+      WHERE user_id = $1 AND organization_id = $2 AND read_at IS NULL
+      RETURNING id
+    `, [req.user!.userId, req.organizationId]);
+
+    res.json({
+      message: 'All notifications marked as read',
+      updated: result[0].length,
+      unreadCount: 0
+    });
+
+  } catch (error: any) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({
+      message: 'Failed to mark notifications as read'
+    });
+  }
+});
+
+// 4. Mark one notification read; already-read notifications keep their read_at (organization.view)
+router.post('/:notificationId/read', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: notificationParams }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { notificationId } = req.params;
+
+    const result = await executeWithRLS(req, `
+      UPDATE notifications SET read_at = COALESCE(read_at, now())
+      WHERE id = $1 AND user_id = $2 AND organization_id = $3
+      RETURNING id, read_at
+    `, [notificationId, req.user!.userId, req.organizationId]);
+
+    if (result[0].length === 0) {
+      return res.status(404).json({
+        message: 'Notification not found'
+      });
+    }
+
+    res.json({
+      notification: result[0][0],
+      unreadCount: await countUnread(req),
+      message: 'Notification marked as read'
+    });
+
+  } catch (error: any) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({
+      message: 'Failed to mark notification as read'
+    });
+  }
+});
+
+// 5. Get the caller's notification preferences in this organization (organization.view)
+// Types without a stored preference use the in_app channel
+router.get('/preferences', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    res.json(await loadPreferences((sql, params) => executeWithRLS(req, sql, params), req));
+
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({
+      message: 'Failed to fetch notification preferences'
+    });
+  }
+});
+
+// 6. Update the caller's notification preferences; only affects the caller (organization.view)
+// Body: { preferences?: { task_assigned: 'email', task_status_changed: 'none', ... }, digest?: 'none' | 'daily' | 'weekly' }
+router.put('/preferences', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: updatePreferencesBody }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { preferences, digest } = req.body;
+
+    if (preferences === undefined && digest === undefined) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    const result = await executeInTransactionWithRLS(req, async (query) => {
+      for (const [type, channel] of Object.entries(preferences ?? {})) {
+        await query(`
+          INSERT INTO notification_preferences (user_id, organization_id, event_type, channel)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (user_id, organization_id, event_type)
+          DO UPDATE SET channel = EXCLUDED.channel, updated_at = now()
+        `, [req.user!.userId, req.organizationId, type, channel]);
+      }
+
+      // A new frequency starts a fresh schedule, so the first digest covers one period, not
+      // everything since the last digest under the old frequency
+      if (digest !== undefined) {
+        await query(`
+          INSERT INTO digest_subscriptions (user_id, organization_id, frequency, next_run_at)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (user_id, organization_id) DO UPDATE SET
+            frequency = EXCLUDED.frequency,
+            next_run_at = CASE WHEN digest_subscriptions.frequency = EXCLUDED.frequency
+              THEN digest_subscriptions.next_run_at ELSE EXCLUDED.next_run_at END,
+            last_sent_at = CASE WHEN digest_subscriptions.frequency = EXCLUDED.frequency
+              THEN digest_subscriptions.last_sent_at ELSE NULL END
+        `, [req.user!.userId, req.organizationId, digest, NotificationPreferenceService.nextDigestAt(digest)]);
+      }
+
+      return loadPreferences(query, req);
+    });
+
+    res.json({
+      ...result,
+      message: 'Notification preferences updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({
+      message: 'Failed to update notification preferences'
+    });
+  }
+});
+
+export default router;
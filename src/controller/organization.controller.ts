@@ -1,6 +1,14 @@
 import express, { Request, Response } from 'express';
-import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, getUserOrganizations, switchOrganization } from '../utils/middleware/jwtMiddleWare';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, switchOrganization, afterCommit, requestContext } from '../utils/middleware/jwtMiddleWare';
 import { ActivityService } from '../services/activity.service';
+import { NotificationService } from '../services/notification.service';
+import { getWebSocketService } from '../services/websocket.service';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { OrganizationService } from '../services/organization.service';
+import { OrgRole, RoleScope } from '../db/enums';
+import { validate, validateIdParam, id, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -19,73 +27,57 @@ const router = express.Router();
 // Apply JWT middleware to all routes
 router.use(jwtMiddleware as any);
 
-// 1. Create organization
-router.post('/', async (req: any, res: Response) => {
-  try {
-    const { name, subdomain } = req.body;
-    
-    if (!name || !subdomain) {
-      return res.status(400).json({ 
-        message: 'Name and subdomain are required' 
-      });
-    }
+// Checked before setOrganizationContext reads it
+router.param('organizationId', validateIdParam);
 
-    if (!req.queryRunner) {
-      return res.status(500).json({ 
-        message: 'Database connection not available' 
-      });
-    }
+const organizationParams = z.object({ organizationId: idParam });
+const currentOrganizationQuery = z.object({ organizationId: idParam });
+const memberParams = z.object({ organizationId: idParam, userId: idParam });
 
-    console.log('Organization creation: Checking for existing subdomain:', subdomain);
-    
-    // Check if subdomain is already taken (without RLS since we're creating)
-    const existingOrg = await req.queryRunner.query(`
-      SELECT id FROM organizations WHERE subdomain = $1
-    `, [subdomain]);
+const createOrganizationBody = z.object({
+  name: z.string().trim().min(1).max(120),
+  // Also the organization's socket room key
+  subdomain: z.string().regex(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i, 'Must be a valid subdomain (letters, digits and hyphens)')
+});
 
-    console.log('Organization creation: Existing org check result:', existingOrg);
+const addMemberBody = z.object({
+  userId: id,
+  role: z.enum(OrgRole).default(OrgRole.USER),
+  customRoleId: id.nullable().default(null)
+});
 
-    if (existingOrg.length > 0) {
-      return res.status(409).json({ 
-        message: 'Subdomain already exists' 
-      });
-    }
+// customRoleId: null clears the custom role, omitted keeps it
+const updateMemberBody = z.object({
+  role: z.enum(OrgRole).optional(),
+  customRoleId: id.nullable().optional()
+}).refine((body) => body.role !== undefined || body.customRoleId !== undefined, {
+  message: 'role and/or customRoleId is required'
+});
 
-    console.log('Organization creation: Creating organization with:', { name, subdomain });
-    
-    // Create organization (without RLS since we're creating)
-    const result = await req.queryRunner.query(`
-      INSERT INTO organizations (name, subdomain, room_key)
-      VALUES ($1, $2, $3)
-      RETURNING id, name, subdomain, room_key, created_at
-    `, [name, subdomain, subdomain]);
+const transferOwnershipBody = z.object({
+  newOwnerId: id
+});
 
-    console.log('Organization creation: Insert result:', result);
-    const organization = result[0];
+// 1. Create organization
+router.post('/', validate({ body: createOrganizationBody }) as any, async (req: any, res: Response) => {
+  try {
+    const { name, subdomain } = req.body;
 
-    console.log('Organization creation: Adding user as owner:', { organizationId: organization.id, userId: req.user!.userId });
-    
-    // Add user as owner of the organization (without RLS since we're creating)
-    await req.queryRunner.query(`
-      INSERT INTO org_memberships (organization_id, user_id, role)
-      VALUES ($1, $2, 'OWNER')
-    `, [organization.id, req.user!.userId]);
-    
-    console.log('Organization creation: User added as owner successfully');
+    // The caller becomes the OWNER of the new organization
+    const result = await OrganizationService.create(requestContext(req), { name, subdomain });
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
+      });
+    }
 
     res.status(201).json({
-      organization,
+      organization: result.organization,
       message: 'Organization created successfully'
     });
 
   } catch (error: any) {
     console.error('Error creating organization:', error);
-    console.error('Error details:', {
-      message: error.message,
-      stack: error.stack,
-      code: error.code,
-      constraint: error.constraint
-    });
     res.status(500).json({ 
       message: 'Failed to create organization',
       error: error.message 
@@ -94,9 +86,9 @@ router.post('/', async (req: any, res: Response) => {
 });
 
 // 2. List all organizations user is part of
-router.get('/', async (req: any, res: Response) => {
+router.get('/', validate({ query: noInput }) as any, async (req: any, res: Response) => {
   try {
-    const organizations = await getUserOrganizations(req);
+    const organizations = await OrganizationService.listForUser(requestContext(req));
     
     res.json({
       organizations,
@@ -112,15 +104,9 @@ router.get('/', async (req: any, res: Response) => {
 });
 
 // 3. Switch to a workspace/connect to a workspace
-router.post('/switch/:organizationId', async (req: any, res: Response) => {
+router.post('/switch/:organizationId', validate({ params: organizationParams }) as any, async (req: any, res: Response) => {
   try {
     const { organizationId } = req.params;
-    
-    if (!organizationId) {
-      return res.status(400).json({ 
-        message: 'Organization ID is required' 
-      });
-    }
 
     await switchOrganization(req, organizationId);
 
@@ -138,23 +124,18 @@ router.post('/switch/:organizationId', async (req: any, res: Response) => {
 });
 
 // Additional endpoint: Get current organization context
-router.get('/current', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+router.get('/current', setOrganizationContext as any, requireOrganization as any, validate({ query: currentOrganizationQuery }) as any, async (req: any, res: Response) => {
   try {
-    const organization = await executeWithRLS(req, `
-      SELECT o.id, o.name, o.subdomain, om.role
-      FROM organizations o
-      JOIN org_memberships om ON o.id = om.organization_id
-      WHERE o.id = $1 AND om.user_id = $2
-    `, [req.organizationId, req.user!.userId]);
-
-    if (organization.length === 0) {
+    const organization = await OrganizationService.getCurrent(requestContext(req));
+
+    if (!organization) {
       return res.status(404).json({ 
         message: 'Organization not found or access denied' 
       });
     }
 
     res.json({
-      organization: organization[0]
+      organization
     });
 
   } catch (error: any) {
@@ -165,30 +146,29 @@ router.get('/current', setOrganizationContext as any, requireOrganization as any
   }
 });
 
-// Add member to organization (OWNER/ADMIN only)
-router.post('/:organizationId/members', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Add member to organization (member.invite)
+router.post('/:organizationId/members', setOrganizationContext as any, requireOrganization as any, validate({ params: organizationParams, body: addMemberBody }) as any, requirePermission('member.invite') as any, async (req: any, res: Response) => {
   try {
     const { organizationId } = req.params;
-    const { userId, role = 'USER' } = req.body;
-    
-    if (!userId) {
-      return res.status(400).json({ 
-        message: 'User ID is required' 
-      });
-    }
-
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [organizationId, req.user!.userId]);
+    const { userId, role, customRoleId } = req.body;
 
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
+    if (!PermissionService.canAssignOrgRole(req.access.orgRole, role)) {
       return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can add members' 
+        message: `You cannot add members as ${role}` 
       });
     }
 
+    let customRole = null;
+    if (customRoleId !== null) {
+      const lookup = await PermissionService.findAssignableRole(req, customRoleId, RoleScope.ORGANIZATION);
+      if (lookup.error) {
+        return res.status(400).json({ 
+          message: lookup.error 
+        });
+      }
+      customRole = lookup.role;
+    }
+
     // Check if user exists
     const userExists = await executeWithRLS(req, `
       SELECT id FROM users WHERE id = $1
@@ -214,9 +194,9 @@ router.post('/:organizationId/members', setOrganizationContext as any, requireOr
 
     // Add user to organization
     await executeWithRLS(req, `
-      INSERT INTO org_memberships (organization_id, user_id, role)
-      VALUES ($1, $2, $3)
-    `, [organizationId, userId, role]);
+      INSERT INTO org_memberships (organization_id, user_id, role, custom_role_id)
+      VALUES ($1, $2, $3, $4)
+    `, [organizationId, userId, role, customRole?.id || null]);
 
     // Get user details for activity log
     const userDetails = await executeWithRLS(req, `
@@ -224,20 +204,29 @@ router.post('/:organizationId/members', setOrganizationContext as any, requireOr
     `, [userId]);
 
     // Log activity
-    await ActivityService.logMemberActivity(
+    afterCommit(req, () => ActivityService.logMemberActivity(
       organizationId,
       req.user!.userId,
       'added',
       userDetails[0].username,
       userId,
       role
-    );
+    ));
+
+    afterCommit(req, () => NotificationService.notifyMemberAdded(
+      organizationId,
+      req.user!.userId,
+      userId,
+      { type: 'organization', id: organizationId },
+      customRole ? `${role} (${customRole.name})` : role
+    ));
 
     res.status(201).json({
       message: 'Member added successfully',
       organizationId,
       userId,
-      role
+      role,
+      customRole
     });
 
   } catch (error: any) {
@@ -248,32 +237,23 @@ router.post('/:organizationId/members', setOrganizationContext as any, requireOr
   }
 });
 
-// List organization members (OWNER/ADMIN only)
-router.get('/:organizationId/members', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// List organization members (member.view)
+router.get('/:organizationId/members', setOrganizationContext as any, requireOrganization as any, validate({ params: organizationParams }) as any, requirePermission('member.view') as any, async (req: any, res: Response) => {
   try {
     const { organizationId } = req.params;
     
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can view members' 
-      });
-    }
-
     // Get all members
     const members = await executeWithRLS(req, `
       SELECT 
         u.id,
         u.username,
         om.role,
+        om.custom_role_id,
+        cr.name as custom_role_name,
         om.created_at as joined_at
       FROM org_memberships om
       JOIN users u ON u.id = om.user_id
+      LEFT JOIN custom_roles cr ON cr.id = om.custom_role_id
       WHERE om.organization_id = $1
       ORDER BY om.created_at DESC
     `, [organizationId]);
@@ -291,29 +271,11 @@ router.get('/:organizationId/members', setOrganizationContext as any, requireOrg
   }
 });
 
-// Update member role (OWNER/ADMIN only)
-router.put('/:organizationId/members/:userId', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Update member role (member.update_role)
+router.put('/:organizationId/members/:userId', setOrganizationContext as any, requireOrganization as any, validate({ params: memberParams, body: updateMemberBody }) as any, requirePermission('member.update_role') as any, async (req: any, res: Response) => {
   try {
     const { organizationId, userId } = req.params;
-    const { role } = req.body;
-    
-    if (!role || !['OWNER', 'ADMIN', 'USER'].includes(role)) {
-      return res.status(400).json({ 
-        message: 'Valid role is required (OWNER, ADMIN, USER)' 
-      });
-    }
-
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can update member roles' 
-      });
-    }
+    const { role, customRoleId } = req.body;
 
     // OWNER cannot change their own role
     if (req.user!.userId === userId) {
@@ -322,62 +284,93 @@ router.put('/:organizationId/members/:userId', setOrganizationContext as any, re
       });
     }
 
-    // ADMIN cannot promote to OWNER or demote OWNER
-    if (currentUserRole[0].role === 'ADMIN') {
-      if (role === 'OWNER') {
-        return res.status(403).json({ 
-          message: 'ADMIN cannot promote users to OWNER' 
-        });
-      }
-      
-      const targetUserRole = await executeWithRLS(req, `
-        SELECT role FROM org_memberships 
-        WHERE organization_id = $1 AND user_id = $2
-      `, [organizationId, userId]);
-      
-      if (targetUserRole.length > 0 && targetUserRole[0].role === 'OWNER') {
-        return res.status(403).json({ 
-          message: 'ADMIN cannot modify OWNER role' 
-        });
-      }
-    }
-
     // Get current role and user details for activity log
     const [currentRole, userDetails] = await Promise.all([
       executeWithRLS(req, `
-        SELECT role FROM org_memberships 
-        WHERE organization_id = $1 AND user_id = $2
+        SELECT om.role, cr.name as custom_role_name
+        FROM org_memberships om
+        LEFT JOIN custom_roles cr ON cr.id = om.custom_role_id
+        WHERE om.organization_id = $1 AND om.user_id = $2
       `, [organizationId, userId]),
       executeWithRLS(req, `
         SELECT username FROM users WHERE id = $1
       `, [userId])
     ]);
 
-    const oldRole = currentRole[0]?.role || 'USER';
+    if (currentRole.length === 0) {
+      return res.status(404).json({ 
+        message: 'User is not a member of this organization' 
+      });
+    }
+
+    // ADMIN cannot promote to OWNER or modify an OWNER; custom-role managers only handle USERs
+    if (!PermissionService.canManageOrgMember(req.access.orgRole, currentRole[0].role)) {
+      return res.status(403).json({ 
+        message: `You cannot modify a member with role ${currentRole[0].role}` 
+      });
+    }
+    if (role !== undefined && !PermissionService.canAssignOrgRole(req.access.orgRole, role)) {
+      return res.status(403).json({ 
+        message: `You cannot assign the ${role} role` 
+      });
+    }
 
-    // Update member role
+    let customRole = null;
+    if (customRoleId !== undefined && customRoleId !== null) {
+      const lookup = await PermissionService.findAssignableRole(req, customRoleId, RoleScope.ORGANIZATION);
+      if (lookup.error) {
+        return res.status(400).json({ 
+          message: lookup.error 
+        });
+      }
+      customRole = lookup.role;
+    }
+
+    const describeRole = (baseRole: string, customRoleName?: string | null) =>
+      customRoleName ? `${baseRole} (${customRoleName})` : baseRole;
+
+    const newRole = role ?? currentRole[0].role;
+    const newCustomRoleName = customRoleId === undefined ? currentRole[0].custom_role_name : customRole?.name;
+    const oldRole = describeRole(currentRole[0].role, currentRole[0].custom_role_name);
+
+    // Update member role; customRoleId: null clears the custom role, omitted keeps it
     await executeWithRLS(req, `
       UPDATE org_memberships 
-      SET role = $1, updated_at = now()
-      WHERE organization_id = $2 AND user_id = $3
-    `, [role, organizationId, userId]);
+      SET role = $1,
+          custom_role_id = CASE WHEN $2::boolean THEN $3::bigint ELSE custom_role_id END,
+          updated_at = now()
+      WHERE organization_id = $4 AND user_id = $5
+    `, [newRole, customRoleId !== undefined, customRole?.id || null, organizationId, userId]);
 
     // Log activity
-    await ActivityService.logMemberActivity(
+    afterCommit(req, () => ActivityService.logMemberActivity(
       organizationId,
       req.user!.userId,
       'role_changed',
       userDetails[0].username,
       userId,
-      role,
+      describeRole(newRole, newCustomRoleName),
       oldRole
-    );
+    ));
+
+    afterCommit(req, () => NotificationService.notifyRoleChanged(
+      organizationId,
+      req.user!.userId,
+      userId,
+      { type: 'organization', id: organizationId },
+      describeRole(newRole, newCustomRoleName),
+      oldRole
+    ));
+
+    // A downgrade can take away projects the member's sockets are listening to
+    afterCommit(req, () => getWebSocketService()?.reauthorizeUser(organizationId, userId));
 
     res.json({
       message: 'Member role updated successfully',
       organizationId,
       userId,
-      role
+      role: newRole,
+      customRoleId: customRoleId === undefined ? undefined : customRole?.id || null
     });
 
   } catch (error: any) {
@@ -388,23 +381,11 @@ router.put('/:organizationId/members/:userId', setOrganizationContext as any, re
   }
 });
 
-// Remove member from organization (OWNER/ADMIN only)
-router.delete('/:organizationId/members/:userId', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Remove member from organization (member.remove)
+router.delete('/:organizationId/members/:userId', setOrganizationContext as any, requireOrganization as any, validate({ params: memberParams }) as any, requirePermission('member.remove') as any, async (req: any, res: Response) => {
   try {
     const { organizationId, userId } = req.params;
     
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can remove members' 
-      });
-    }
-
     // Check if target user exists in organization
     const targetUser = await executeWithRLS(req, `
       SELECT role FROM org_memberships 
@@ -417,10 +398,10 @@ router.delete('/:organizationId/members/:userId', setOrganizationContext as any,
       });
     }
 
-    // ADMIN cannot remove OWNER
-    if (currentUserRole[0].role === 'ADMIN' && targetUser[0].role === 'OWNER') {
+    // ADMIN cannot remove OWNER; custom-role managers can only remove USERs
+    if (!PermissionService.canManageOrgMember(req.access.orgRole, targetUser[0].role)) {
       return res.status(403).json({ 
-        message: 'ADMIN cannot remove OWNER' 
+        message: `You cannot remove a member with role ${targetUser[0].role}` 
       });
     }
 
@@ -443,13 +424,16 @@ router.delete('/:organizationId/members/:userId', setOrganizationContext as any,
     `, [organizationId, userId]);
 
     // Log activity
-    await ActivityService.logMemberActivity(
+    afterCommit(req, () => ActivityService.logMemberActivity(
       organizationId,
       req.user!.userId,
       'removed',
       userDetails[0].username,
       userId
-    );
+    ));
+
+    // Stop streaming this organization's activity to the removed member
+    afterCommit(req, () => getWebSocketService()?.evictUserFromOrganization(organizationId, userId));
 
     res.json({
       message: 'Member removed successfully',
@@ -465,29 +449,11 @@ router.delete('/:organizationId/members/:userId', setOrganizationContext as any,
   }
 });
 
-// Transfer ownership (OWNER only)
-router.post('/:organizationId/transfer-ownership', setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Transfer ownership (ownership.transfer)
+router.post('/:organizationId/transfer-ownership', setOrganizationContext as any, requireOrganization as any, validate({ params: organizationParams, body: transferOwnershipBody }) as any, requirePermission('ownership.transfer') as any, async (req: any, res: Response) => {
   try {
     const { organizationId } = req.params;
     const { newOwnerId } = req.body;
-    
-    if (!newOwnerId) {
-      return res.status(400).json({ 
-        message: 'New owner ID is required' 
-      });
-    }
-
-    // Check if current user is OWNER
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || currentUserRole[0].role !== 'OWNER') {
-      return res.status(403).json({ 
-        message: 'Only OWNER can transfer ownership' 
-      });
-    }
 
     // Check if new owner is a member
     const newOwner = await executeWithRLS(req, `
@@ -501,13 +467,13 @@ router.post('/:organizationId/transfer-ownership', setOrganizationContext as any
       });
     }
 
-    // Transfer ownership
+    // Transfer ownership; both updates commit or roll back with the request transaction
     await executeWithRLS(req, `
-      BEGIN;
-      UPDATE org_memberships SET role = 'ADMIN' WHERE organization_id = $1 AND user_id = $2;
-      UPDATE org_memberships SET role = 'OWNER' WHERE organization_id = $1 AND user_id = $3;
-      COMMIT;
-    `, [organizationId, req.user!.userId, newOwnerId]);
+      UPDATE org_memberships SET role = 'ADMIN' WHERE organization_id = $1 AND user_id = $2
+    `, [organizationId, req.user!.userId]);
+    await executeWithRLS(req, `
+      UPDATE org_memberships SET role = 'OWNER' WHERE organization_id = $1 AND user_id = $2
+    `, [organizationId, newOwnerId]);
 
     res.json({
       message: 'Ownership transferred successfully',
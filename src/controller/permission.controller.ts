@@ -0,0 +1,46 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization } from '../utils/middleware/jwtMiddleWare';
+import { loadAccess } from '../utils/middleware/permissionMiddleware';
+import { ORG_ACTIONS, PROJECT_ACTIONS } from '../services/permission.service';
+import { validate, idParam } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const permissionQuery = z.object({ projectId: idParam.optional() });
+
+// Effective permissions of the current user, so the frontend can hide actions it cannot perform
+//   ?projectId=<id>  also include project-level actions for that project
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: permissionQuery }) as any, async (req: any, res: Response) => {
+  try {
+    const { projectId } = req.query;
+
+    const access = await loadAccess(req, projectId);
+    if (!access) {
+      return res.status(404).json({
+        message: 'Project not found'
+      });
+    }
+
+    // Keep the canonical action order so responses are stable
+    const actions = projectId ? [...ORG_ACTIONS, ...PROJECT_ACTIONS] : [...ORG_ACTIONS];
+
+    res.json({
+      organizationId: req.organizationId,
+      projectId: access.projectId,
+      orgRole: access.orgRole,
+      projectRole: access.projectRole,
+      orgCustomRole: access.orgCustomRole,
+      projectCustomRole: access.projectCustomRole,
+      permissions: actions.filter((action) => access.permissions.has(action))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching permissions:', error);
+    res.status(500).json({
+      message: 'Failed to fetch permissions'
+    });
+  }
+});
+
+export default router;
@@ -1,65 +1,67 @@
 import express, { Response } from 'express';
-import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, hasProjectAccess } from '../utils/middleware/jwtMiddleWare';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit, requestContext } from '../utils/middleware/jwtMiddleWare';
+import { getWebSocketService } from '../services/websocket.service';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { BlockerPolicy, ProjectRole, RoleScope } from '../db/enums';
 import { ActivityService } from '../services/activity.service';
+import { NotificationService } from '../services/notification.service';
+import { ProjectService } from '../services/project.service';
+import { validate, validateIdParam, id, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
 const router = express.Router();
 
-// 1. Create project (OWNER/ADMIN only)
-router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
-  try {
-    const { name, slug } = req.body;
-    
-    if (!name || !slug) {
-      return res.status(400).json({ 
-        message: 'Name and slug are required' 
-      });
-    }
+// Checked before requirePermission() resolves the caller's project role
+router.param('projectId', validateIdParam);
 
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [req.organizationId, req.user!.userId]);
+const projectParams = z.object({ projectId: idParam });
+const memberParams = z.object({ projectId: idParam, userId: idParam });
 
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can create projects' 
-      });
-    }
+const createProjectBody = z.object({
+  name: z.string().trim().min(1).max(140),
+  slug: z.string().trim().min(1).max(140)
+});
 
-    // Check if slug is already taken in this organization
-    const existingProject = await executeWithRLS(req, `
-      SELECT id FROM projects WHERE organization_id = $1 AND slug = $2
-    `, [req.organizationId, slug]);
+const updateProjectBody = createProjectBody.partial().extend({
+  blockerPolicy: z.enum(BlockerPolicy).optional()
+});
 
-    if (existingProject.length > 0) {
-      return res.status(409).json({ 
-        message: 'Project slug already exists in this organization' 
-      });
-    }
+const addMemberBody = z.object({
+  userId: id,
+  role: z.enum(ProjectRole).default(ProjectRole.VIEWER),
+  customRoleId: id.nullable().default(null)
+});
 
-    // Create project
-    const result = await executeWithRLS(req, `
-      INSERT INTO projects (organization_id, name, slug)
-      VALUES ($1, $2, $3)
-      RETURNING id, name, slug, created_at
-    `, [req.organizationId, name, slug]);
+// customRoleId: null clears the custom role, omitted keeps it
+const updateMemberBody = z.object({
+  role: z.enum(ProjectRole).optional(),
+  customRoleId: id.nullable().optional()
+}).refine((body) => body.role !== undefined || body.customRoleId !== undefined, {
+  message: 'role and/or customRoleId is required'
+});
 
-    const project = result[0];
+// 1. Create project (project.create)
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createProjectBody }) as any, requirePermission('project.create') as any, async (req: any, res: Response) => {
+  try {
+    const { name, slug } = req.body;
 
-    // Add creator as EDITOR of the project
-    await executeWithRLS(req, `
-      INSERT INTO project_members (organization_id, project_id, user_id, role)
-      VALUES ($1, $2, $3, 'EDITOR')
-    `, [req.organizationId, project.id, req.user!.userId]);
+    // The creator becomes an EDITOR of the project
+    const result = await ProjectService.create(requestContext(req), { name, slug });
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
+      });
+    }
+    const project = result.project!;
 
     // Log activity
-    await ActivityService.logProjectActivity(
+    afterCommit(req, () => ActivityService.logProjectActivity(
       req.organizationId,
       req.user!.userId,
       'created',
-      name,
+      project.name,
       project.id
-    );
+    ));
 
     res.status(201).json({
       project,
@@ -75,24 +77,9 @@ router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrg
 });
 
 // 2. List all projects in organization
-router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, async (req: any, res: Response) => {
   try {
-    console.log('Projects GET request:', { 
-      userId: req.user?.userId, 
-      organizationId: req.organizationId,
-    });
-    const projects = await executeWithRLS(req, `
-      SELECT 
-        p.id,
-        p.name,
-        p.slug,
-        p.created_at,
-        pm.role as user_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      WHERE p.organization_id = $2
-      ORDER BY p.created_at DESC
-    `, [req.user!.userId, req.organizationId]);
+    const projects = await ProjectService.list(requestContext(req));
 
     res.json({
       projects,
@@ -108,38 +95,18 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
 });
 
 // 3. Get project details
-router.get('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+router.get('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: projectParams }) as any, requirePermission('project.view') as any, async (req: any, res: Response) => {
   try {
-    const { projectId } = req.params;
-    
-    // Check if user has access to project
-    const hasAccess = await hasProjectAccess(req, projectId);
-    if (!hasAccess) {
-      return res.status(403).json({ 
-        message: 'Access denied to this project' 
-      });
-    }
+    const project = await ProjectService.get(requestContext(req), req.params.projectId);
 
-    const project = await executeWithRLS(req, `
-      SELECT 
-        p.id,
-        p.name,
-        p.slug,
-        p.created_at,
-        pm.role as user_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      WHERE p.id = $2 AND p.organization_id = $3
-    `, [req.user!.userId, projectId, req.organizationId]);
-
-    if (project.length === 0) {
+    if (!project) {
       return res.status(404).json({ 
         message: 'Project not found' 
       });
     }
 
     res.json({
-      project: project[0]
+      project
     });
 
   } catch (error: any) {
@@ -150,82 +117,20 @@ router.get('/:projectId', jwtMiddleware as any, setOrganizationContext as any, r
   }
 });
 
-// 4. Update project (EDITOR or OWNER/ADMIN)
-router.put('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 4. Update project (project.update)
+router.put('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: projectParams, body: updateProjectBody }) as any, requirePermission('project.update') as any, async (req: any, res: Response) => {
   try {
-    const { projectId } = req.params;
-    const { name, slug } = req.body;
-    
-    // Check if user has EDITOR access or is OWNER/ADMIN
-    const userAccess = await executeWithRLS(req, `
-      SELECT 
-        pm.role as project_role,
-        om.role as org_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      LEFT JOIN org_memberships om ON p.organization_id = om.organization_id AND om.user_id = $1
-      WHERE p.id = $2 AND p.organization_id = $3
-    `, [req.user!.userId, projectId, req.organizationId]);
-
-    if (userAccess.length === 0) {
-      return res.status(404).json({ 
-        message: 'Project not found' 
-      });
-    }
-
-    const { project_role, org_role } = userAccess[0];
-    const canEdit = project_role === 'EDITOR' || ['OWNER', 'ADMIN'].includes(org_role);
+    const { name, slug, blockerPolicy } = req.body;
 
-    if (!canEdit) {
-      return res.status(403).json({ 
-        message: 'Only EDITOR or OWNER/ADMIN can update projects' 
+    const result = await ProjectService.update(requestContext(req), req.params.projectId, { name, slug, blockerPolicy });
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
       });
     }
 
-    // Check if new slug is taken (if slug is being changed)
-    if (slug) {
-      const existingProject = await executeWithRLS(req, `
-        SELECT id FROM projects WHERE organization_id = $1 AND slug = $2 AND id != $3
-      `, [req.organizationId, slug, projectId]);
-
-      if (existingProject.length > 0) {
-        return res.status(409).json({ 
-          message: 'Project slug already exists in this organization' 
-        });
-      }
-    }
-
-    // Update project
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
-
-    if (name) {
-      updateFields.push(`name = $${paramCount++}`);
-      updateValues.push(name);
-    }
-    if (slug) {
-      updateFields.push(`slug = $${paramCount++}`);
-      updateValues.push(slug);
-    }
-
-    if (updateFields.length === 0) {
-      return res.status(400).json({ 
-        message: 'No fields to update' 
-      });
-    }
-
-    updateValues.push(projectId, req.organizationId);
-
-    const result = await executeWithRLS(req, `
-      UPDATE projects 
-      SET ${updateFields.join(', ')}, updated_at = now()
-      WHERE id = $${paramCount++} AND organization_id = $${paramCount++}
-      RETURNING id, name, slug, updated_at
-    `, updateValues);
-
     res.json({
-      project: result[0],
+      project: result.project,
       message: 'Project updated successfully'
     });
 
@@ -237,47 +142,28 @@ router.put('/:projectId', jwtMiddleware as any, setOrganizationContext as any, r
   }
 });
 
-// 5. Delete project (OWNER/ADMIN only)
-router.delete('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 5. Delete project (project.delete)
+router.delete('/:projectId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: projectParams }) as any, requirePermission('project.delete') as any, async (req: any, res: Response) => {
   try {
     const { projectId } = req.params;
-    
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [req.organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can delete projects' 
-      });
-    }
 
-    // Check if project exists
-    const project = await executeWithRLS(req, `
-      SELECT id FROM projects WHERE id = $1 AND organization_id = $2
-    `, [projectId, req.organizationId]);
-
-    if (project.length === 0) {
-      return res.status(404).json({ 
-        message: 'Project not found' 
+    // Delete project (cascade will handle project_members and tasks)
+    const result = await ProjectService.delete(requestContext(req), projectId);
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
       });
     }
 
-    // Log activity before deletion
-    await ActivityService.logProjectActivity(
+    afterCommit(req, () => ActivityService.logProjectActivity(
       req.organizationId,
       req.user!.userId,
       'deleted',
-      project[0].name,
+      result.project!.name,
       projectId
-    );
+    ));
 
-    // Delete project (cascade will handle project_members and tasks)
-    await executeWithRLS(req, `
-      DELETE FROM projects WHERE id = $1 AND organization_id = $2
-    `, [projectId, req.organizationId]);
+    afterCommit(req, () => getWebSocketService()?.closeProject(projectId));
 
     res.json({
       message: 'Project deleted successfully',
@@ -292,28 +178,21 @@ router.delete('/:projectId', jwtMiddleware as any, setOrganizationContext as any
   }
 });
 
-// 6. Add member to project (OWNER/ADMIN only)
-router.post('/:projectId/members', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 6. Add member to project (project.member.manage)
+router.post('/:projectId/members', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: projectParams, body: addMemberBody }) as any, requirePermission('project.member.manage') as any, async (req: any, res: Response) => {
   try {
     const { projectId } = req.params;
-    const { userId, role = 'VIEWER' } = req.body;
-    
-    if (!userId || !['EDITOR', 'VIEWER'].includes(role)) {
-      return res.status(400).json({ 
-        message: 'Valid userId and role (EDITOR/VIEWER) are required' 
-      });
-    }
-
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [req.organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can add project members' 
-      });
+    const { userId, role, customRoleId } = req.body;
+
+    let customRole = null;
+    if (customRoleId !== null) {
+      const lookup = await PermissionService.findAssignableRole(req, customRoleId, RoleScope.PROJECT);
+      if (lookup.error) {
+        return res.status(400).json({ 
+          message: lookup.error 
+        });
+      }
+      customRole = lookup.role;
     }
 
     // Check if user is a member of the organization
@@ -342,15 +221,28 @@ router.post('/:projectId/members', jwtMiddleware as any, setOrganizationContext
 
     // Add user to project
     await executeWithRLS(req, `
-      INSERT INTO project_members (organization_id, project_id, user_id, role)
-      VALUES ($1, $2, $3, $4)
-    `, [req.organizationId, projectId, userId, role]);
+      INSERT INTO project_members (organization_id, project_id, user_id, role, custom_role_id)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.organizationId, projectId, userId, role, customRole?.id || null]);
+
+    const project = await executeWithRLS(req, `
+      SELECT name FROM projects WHERE id = $1
+    `, [projectId]);
+
+    afterCommit(req, () => NotificationService.notifyMemberAdded(
+      req.organizationId,
+      req.user!.userId,
+      userId,
+      { type: 'project', id: projectId, name: project[0]?.name },
+      customRole ? `${role} (${customRole.name})` : role
+    ));
 
     res.status(201).json({
       message: 'Project member added successfully',
       projectId,
       userId,
-      role
+      role,
+      customRole
     });
 
   } catch (error: any) {
@@ -362,26 +254,21 @@ router.post('/:projectId/members', jwtMiddleware as any, setOrganizationContext
 });
 
 // 7. List project members
-router.get('/:projectId/members', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+router.get('/:projectId/members', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: projectParams }) as any, requirePermission('project.view') as any, async (req: any, res: Response) => {
   try {
     const { projectId } = req.params;
     
-    // Check if user has access to project
-    const hasAccess = await hasProjectAccess(req, projectId);
-    if (!hasAccess) {
-      return res.status(403).json({ 
-        message: 'Access denied to this project' 
-      });
-    }
-
     const members = await executeWithRLS(req, `
       SELECT 
         u.id,
         u.username,
         pm.role,
+        pm.custom_role_id,
+        cr.name as custom_role_name,
         pm.created_at as joined_at
       FROM project_members pm
       JOIN users u ON u.id = pm.user_id
+      LEFT JOIN custom_roles cr ON cr.id = pm.custom_role_id
       WHERE pm.project_id = $1
       ORDER BY pm.created_at DESC
     `, [projectId]);
@@ -399,42 +286,58 @@ router.get('/:projectId/members', jwtMiddleware as any, setOrganizationContext a
   }
 });
 
-// 8. Update project member role (OWNER/ADMIN only)
-router.put('/:projectId/members/:userId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 8. Update project member role (project.member.manage)
+router.put('/:projectId/members/:userId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: memberParams, body: updateMemberBody }) as any, requirePermission('project.member.manage') as any, async (req: any, res: Response) => {
   try {
     const { projectId, userId } = req.params;
-    const { role } = req.body;
-    
-    if (!role || !['EDITOR', 'VIEWER'].includes(role)) {
-      return res.status(400).json({ 
-        message: 'Valid role is required (EDITOR, VIEWER)' 
-      });
+    const { role, customRoleId } = req.body;
+
+    let customRole = null;
+    if (customRoleId !== undefined && customRoleId !== null) {
+      const lookup = await PermissionService.findAssignableRole(req, customRoleId, RoleScope.PROJECT);
+      if (lookup.error) {
+        return res.status(400).json({ 
+          message: lookup.error 
+        });
+      }
+      customRole = lookup.role;
     }
 
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [req.organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can update project member roles' 
+    // Update member role; customRoleId: null clears the custom role, omitted keeps it
+    const result = await executeWithRLS(req, `
+      UPDATE project_members 
+      SET role = COALESCE($1::project_role, role),
+          custom_role_id = CASE WHEN $2::boolean THEN $3::bigint ELSE custom_role_id END,
+          updated_at = now()
+      WHERE project_id = $4 AND user_id = $5
+      RETURNING role, custom_role_id
+    `, [role ?? null, customRoleId !== undefined, customRole?.id || null, projectId, userId]);
+
+    if (result[0].length === 0) {
+      return res.status(404).json({ 
+        message: 'User is not a member of this project' 
       });
     }
 
-    // Update member role
-    await executeWithRLS(req, `
-      UPDATE project_members 
-      SET role = $1, updated_at = now()
-      WHERE project_id = $2 AND user_id = $3
-    `, [role, projectId, userId]);
+    const project = await executeWithRLS(req, `
+      SELECT name FROM projects WHERE id = $1
+    `, [projectId]);
+
+    const newRole = result[0][0].role;
+    afterCommit(req, () => NotificationService.notifyRoleChanged(
+      req.organizationId,
+      req.user!.userId,
+      userId,
+      { type: 'project', id: projectId, name: project[0]?.name },
+      customRole ? `${newRole} (${customRole.name})` : newRole
+    ));
 
     res.json({
       message: 'Project member role updated successfully',
       projectId,
       userId,
-      role
+      role: result[0][0].role,
+      customRoleId: result[0][0].custom_role_id
     });
 
   } catch (error: any) {
@@ -445,29 +348,20 @@ router.put('/:projectId/members/:userId', jwtMiddleware as any, setOrganizationC
   }
 });
 
-// 9. Remove project member (OWNER/ADMIN only)
-router.delete('/:projectId/members/:userId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 9. Remove project member (project.member.manage)
+router.delete('/:projectId/members/:userId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: memberParams }) as any, requirePermission('project.member.manage') as any, async (req: any, res: Response) => {
   try {
     const { projectId, userId } = req.params;
     
-    // Check if current user is OWNER or ADMIN
-    const currentUserRole = await executeWithRLS(req, `
-      SELECT role FROM org_memberships 
-      WHERE organization_id = $1 AND user_id = $2
-    `, [req.organizationId, req.user!.userId]);
-
-    if (currentUserRole.length === 0 || !['OWNER', 'ADMIN'].includes(currentUserRole[0].role)) {
-      return res.status(403).json({ 
-        message: 'Only OWNER or ADMIN can remove project members' 
-      });
-    }
-
     // Remove member
     await executeWithRLS(req, `
       DELETE FROM project_members 
       WHERE project_id = $1 AND user_id = $2
     `, [projectId, userId]);
 
+    // The user may still see the project through their organization role; otherwise they leave its room
+    afterCommit(req, () => getWebSocketService()?.reauthorizeUser(req.organizationId, userId));
+
     res.json({
       message: 'Project member removed successfully',
       projectId,
@@ -0,0 +1,316 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit, requestContext } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission, getRouteProjectId } from '../utils/middleware/permissionMiddleware';
+import { WorkflowService } from '../services/workflow.service';
+import { RecurringTaskService, RecurringTaskInput, RECURRING_TASK_COLUMNS } from '../services/recurring-task.service';
+import { getRecurringTaskScheduler } from '../services/recurring-task-scheduler.service';
+import { validate, id, idParam, priority, noInput } from '../utils/middleware/validationMiddleware';
+import { parseRRule, parseDay, parseTimeOfDay, isValidTimeZone } from '../utils/rrule';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const PREVIEW_OCCURRENCES = 5;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DUE_IN_DAYS = 365;
+
+const templateParams = z.object({ recurringTaskId: idParam });
+
+// e.g. FREQ=WEEKLY;BYDAY=MO; stored without an RRULE: prefix and upper-cased
+const rrule = z.string().superRefine((value, ctx) => {
+  try {
+    parseRRule(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: 'custom', message: `Invalid rrule: ${error.message}` });
+  }
+}).transform((value) => value.trim().replace(/^RRULE:/i, '').toUpperCase());
+
+// Workflow status and assignee membership depend on the project and are checked by the route
+const createTemplateBody = z.object({
+  title: z.string().trim().min(1).max(MAX_TITLE_LENGTH),
+  description: z.string().nullable().optional(),
+  status: z.string().nullable().optional(),
+  priority: priority.nullable().optional(),
+  assigneeId: id.nullable().optional(),
+  dueInDays: z.number().int().min(0).max(MAX_DUE_IN_DAYS).nullable().optional(),
+  rrule,
+  timezone: z.string().refine(isValidTimeZone, 'Must be an IANA timezone such as Europe/Berlin').optional(),
+  startsOn: z.string().refine((value) => parseDay(value) !== null, 'Must be a date (YYYY-MM-DD)'),
+  timeOfDay: z.string().refine((value) => parseTimeOfDay(value) !== null, 'Must be a time (HH:MM, 24-hour)').optional(),
+  isActive: z.boolean().optional()
+});
+
+const updateTemplateBody = createTemplateBody.partial();
+
+// Template column for each input field
+const COLUMNS: Record<keyof RecurringTaskInput, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  assigneeId: 'assignee_id',
+  dueInDays: 'due_in_days',
+  rrule: 'rrule',
+  timezone: 'timezone',
+  startsOn: 'starts_on',
+  timeOfDay: 'time_of_day',
+  isActive: 'is_active',
+};
+
+const getTemplate = async (req: any, projectId: string, recurringTaskId: string) => {
+  const template = await executeWithRLS(req, `
+    SELECT ${RECURRING_TASK_COLUMNS} FROM recurring_tasks
+    WHERE id = $1 AND project_id = $2 AND organization_id = $3
+  `, [recurringTaskId, projectId, req.organizationId]);
+
+  return template[0];
+};
+
+// Upcoming occurrences of an active template, from the next one without a task
+const withUpcoming = (template: any, limit: number) => {
+  const upcoming = template.is_active && template.next_run_at
+    ? RecurringTaskService.upcoming(template, new Date(template.next_run_at), limit)
+    : [];
+  return { ...template, upcoming };
+};
+
+// Workflow status and assignee membership depend on the project; returns an error message or null
+const validateForProject = async (req: any, projectId: string, input: RecurringTaskInput): Promise<string | null> => {
+  if (input.status) {
+    const statuses = await WorkflowService.getStatuses(requestContext(req), projectId);
+    const statusError = WorkflowService.validateStatus(statuses, input.status);
+    if (statusError) {
+      return statusError;
+    }
+  }
+
+  if (input.assigneeId) {
+    const assigneeCheck = await executeWithRLS(req, `
+      SELECT user_id FROM project_members
+      WHERE project_id = $1 AND user_id = $2
+    `, [projectId, input.assigneeId]);
+
+    if (assigneeCheck.length === 0) {
+      return 'Assignee must be a project member';
+    }
+  }
+  return null;
+};
+
+// 1. List the project's recurring task templates with their next occurrences (task.view)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req)!;
+
+    const templates = await executeWithRLS(req, `
+      SELECT ${RECURRING_TASK_COLUMNS} FROM recurring_tasks
+      WHERE project_id = $1 AND organization_id = $2
+      ORDER BY created_at ASC, id ASC
+    `, [projectId, req.organizationId]);
+
+    res.json({
+      recurringTasks: templates.map((template: any) => withUpcoming(template, PREVIEW_OCCURRENCES)),
+      count: templates.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching recurring tasks:', error);
+    res.status(500).json({
+      message: 'Failed to fetch recurring tasks'
+    });
+  }
+});
+
+// 2. Create recurring task template (task.create)
+// Body: { title, rrule: 'FREQ=WEEKLY;BYDAY=MO', startsOn: '2025-01-06', timezone?: 'Europe/Berlin', timeOfDay?: '09:00',
+//         description?, status?, priority?, assigneeId?, dueInDays? }
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createTemplateBody }) as any, requirePermission('task.create') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req)!;
+
+    const input: RecurringTaskInput = req.body;
+
+    const projectError = await validateForProject(req, projectId, input);
+    if (projectError) {
+      return res.status(400).json({
+        message: projectError
+      });
+    }
+
+    const timezone = input.timezone || 'UTC';
+    const timeOfDay = input.timeOfDay || '09:00';
+    const nextRunAt = RecurringTaskService.nextRun({
+      rrule: input.rrule!,
+      timezone,
+      starts_on: input.startsOn!,
+      time_of_day: timeOfDay
+    });
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO recurring_tasks (
+        organization_id, project_id, title, description, status, priority, assignee_id, due_in_days,
+        rrule, timezone, starts_on, time_of_day, is_active, next_run_at, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING ${RECURRING_TASK_COLUMNS}
+    `, [
+      req.organizationId, projectId, input.title, input.description ?? null, input.status ?? null,
+      input.priority ?? null, input.assigneeId ?? null, input.dueInDays ?? null,
+      input.rrule, timezone, input.startsOn, timeOfDay, input.isActive ?? true, nextRunAt, req.user!.userId
+    ]);
+
+    afterCommit(req, () => getRecurringTaskScheduler()?.trigger());
+
+    res.status(201).json({
+      recurringTask: withUpcoming(result[0], PREVIEW_OCCURRENCES),
+      message: nextRunAt ? 'Recurring task created successfully' : 'Recurring task created, but its schedule has no future occurrences'
+    });
+
+  } catch (error: any) {
+    console.error('Error creating recurring task:', error);
+    res.status(500).json({
+      message: 'Failed to create recurring task'
+    });
+  }
+});
+
+// 3. Get recurring task template with upcoming occurrences and the latest tasks it created (task.view)
+router.get('/:recurringTaskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: templateParams }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req)!;
+    const { recurringTaskId } = req.params;
+
+    const template = await getTemplate(req, projectId, recurringTaskId);
+    if (!template) {
+      return res.status(404).json({
+        message: 'Recurring task not found'
+      });
+    }
+
+    const tasks = await executeWithRLS(req, `
+      SELECT id, title, status, assignee_id, due_date, occurrence_at, created_at
+      FROM tasks
+      WHERE recurring_task_id = $1 AND organization_id = $2
+      ORDER BY occurrence_at DESC
+      LIMIT 10
+    `, [recurringTaskId, req.organizationId]);
+
+    res.json({
+      recurringTask: withUpcoming(template, 10),
+      recentTasks: tasks
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching recurring task:', error);
+    res.status(500).json({
+      message: 'Failed to fetch recurring task'
+    });
+  }
+});
+
+// 4. Update recurring task template (task.create)
+// Changing the schedule or reactivating restarts it from now; occurrences already materialized keep their tasks.
+router.put('/:recurringTaskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: templateParams, body: updateTemplateBody }) as any, requirePermission('task.create') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req)!;
+    const { recurringTaskId } = req.params;
+
+    const input: RecurringTaskInput = req.body;
+
+    const existing = await getTemplate(req, projectId, recurringTaskId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Recurring task not found'
+      });
+    }
+
+    const projectError = await validateForProject(req, projectId, input);
+    if (projectError) {
+      return res.status(400).json({
+        message: projectError
+      });
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    for (const [field, column] of Object.entries(COLUMNS) as [keyof RecurringTaskInput, string][]) {
+      if (input[field] !== undefined) {
+        updateFields.push(`${column} = $${paramCount++}`);
+        updateValues.push(input[field]);
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    const reactivated = input.isActive === true && !existing.is_active;
+    if (RecurringTaskService.changesSchedule(input) || reactivated) {
+      updateFields.push(`next_run_at = $${paramCount++}`, 'last_error = NULL');
+      updateValues.push(RecurringTaskService.nextRun({
+        rrule: input.rrule ?? existing.rrule,
+        timezone: input.timezone ?? existing.timezone,
+        starts_on: input.startsOn ?? existing.starts_on,
+        time_of_day: input.timeOfDay ?? existing.time_of_day
+      }));
+    }
+
+    updateValues.push(recurringTaskId, projectId, req.organizationId);
+
+    const result = await executeWithRLS(req, `
+      UPDATE recurring_tasks
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++} AND project_id = $${paramCount++} AND organization_id = $${paramCount++}
+      RETURNING ${RECURRING_TASK_COLUMNS}
+    `, updateValues);
+
+    afterCommit(req, () => getRecurringTaskScheduler()?.trigger());
+
+    res.json({
+      recurringTask: withUpcoming(result[0][0], PREVIEW_OCCURRENCES),
+      message: 'Recurring task updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating recurring task:', error);
+    res.status(500).json({
+      message: 'Failed to update recurring task'
+    });
+  }
+});
+
+// 5. Delete recurring task template; tasks it already created are kept (task.create)
+router.delete('/:recurringTaskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: templateParams }) as any, requirePermission('task.create') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req)!;
+    const { recurringTaskId } = req.params;
+
+    const existing = await getTemplate(req, projectId, recurringTaskId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Recurring task not found'
+      });
+    }
+
+    await executeWithRLS(req, `
+      DELETE FROM recurring_tasks WHERE id = $1 AND project_id = $2 AND organization_id = $3
+    `, [recurringTaskId, projectId, req.organizationId]);
+
+    res.json({
+      message: 'Recurring task deleted successfully',
+      recurringTaskId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting recurring task:', error);
+    res.status(500).json({
+      message: 'Failed to delete recurring task'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,233 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { TaskReminderService } from '../services/task-reminder.service';
+import { getTaskReminderScheduler } from '../services/task-reminder-scheduler.service';
+import { validate, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+// Types only below; TaskReminderService checks the ranges and the snooze window
+
+const updateSettingsBody = z.object({
+  // Days before the due date, 0 = on the due date
+  leadDays: z.array(z.number().int()).optional(),
+  escalationDays: z.number().int().optional()
+});
+
+const snoozeParams = z.object({ taskId: idParam });
+
+// One of until (ISO timestamp) or hours
+const snoozeBody = z.object({
+  until: z.string().optional(),
+  hours: z.number().int().optional()
+});
+
+const SETTINGS_COLUMNS = `reminder_lead_days as lead_days, overdue_escalation_days as escalation_days`;
+
+// 1. Get the organization's reminder settings (organization.view)
+router.get('/settings', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const settings = await executeWithRLS(req, `
+      SELECT ${SETTINGS_COLUMNS} FROM organizations WHERE id = $1
+    `, [req.organizationId]);
+
+    res.json({
+      settings: settings[0]
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching reminder settings:', error);
+    res.status(500).json({
+      message: 'Failed to fetch reminder settings'
+    });
+  }
+});
+
+// 2. Update reminder settings (organization.update)
+// Body: { leadDays?: [3, 1] (days before the due date, [] turns due-soon reminders off), escalationDays?: 3 }
+router.put('/settings', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: updateSettingsBody }) as any, requirePermission('organization.update') as any, async (req: any, res: Response) => {
+  try {
+    const validated = TaskReminderService.validateSettings(req.body);
+    if (validated.error) {
+      return res.status(400).json({
+        message: validated.error
+      });
+    }
+    const { leadDays, escalationDays } = validated.input!;
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    if (leadDays !== undefined) {
+      updateFields.push(`reminder_lead_days = $${paramCount++}::int[]`);
+      updateValues.push(leadDays);
+    }
+    if (escalationDays !== undefined) {
+      updateFields.push(`overdue_escalation_days = $${paramCount++}`);
+      updateValues.push(escalationDays);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    updateValues.push(req.organizationId);
+
+    const result = await executeWithRLS(req, `
+      UPDATE organizations
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++}
+      RETURNING ${SETTINGS_COLUMNS}
+    `, updateValues);
+
+    afterCommit(req, () => getTaskReminderScheduler()?.trigger());
+
+    res.json({
+      settings: result[0][0],
+      message: 'Reminder settings updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating reminder settings:', error);
+    res.status(500).json({
+      message: 'Failed to update reminder settings'
+    });
+  }
+});
+
+// 3. Reminders recently sent to the caller in this organization (organization.view)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const reminders = await executeWithRLS(req, `
+      SELECT
+        r.id, r.kind, r.task_id, t.title as task_title, r.project_id, p.name as project_name,
+        r.due_date::text as due_date, r.lead_days, r.sent_at
+      FROM task_reminders r
+      JOIN tasks t ON t.id = r.task_id
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.user_id = $1 AND r.organization_id = $2
+      ORDER BY r.sent_at DESC, r.id DESC
+      LIMIT 50
+    `, [req.user!.userId, req.organizationId]);
+
+    res.json({
+      reminders,
+      count: reminders.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching reminders:', error);
+    res.status(500).json({
+      message: 'Failed to fetch reminders'
+    });
+  }
+});
+
+// 4. List the caller's active snoozes in this organization (organization.view)
+router.get('/snoozes', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const snoozes = await executeWithRLS(req, `
+      SELECT s.task_id, t.title as task_title, t.project_id, t.due_date::text as due_date, s.snoozed_until, s.created_at
+      FROM task_reminder_snoozes s
+      JOIN tasks t ON t.id = s.task_id
+      WHERE s.user_id = $1 AND s.organization_id = $2 AND s.snoozed_until > now()
+      ORDER BY s.snoozed_until ASC
+    `, [req.user!.userId, req.organizationId]);
+
+    res.json({
+      snoozes,
+      count: snoozes.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching reminder snoozes:', error);
+    res.status(500).json({
+      message: 'Failed to fetch reminder snoozes'
+    });
+  }
+});
+
+// 5. Snooze reminders for a task until a given time; only affects the caller (organization.view)
+// Body: { until: '2025-01-10T09:00:00Z' } or { hours: 24 }
+router.put('/snoozes/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: snoozeParams, body: snoozeBody }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const validated = TaskReminderService.validateSnooze(req.body);
+    if (validated.error) {
+      return res.status(400).json({
+        message: validated.error
+      });
+    }
+
+    const task = await executeWithRLS(req, `
+      SELECT id FROM tasks
+      WHERE id = $1 AND organization_id = $2
+        AND project_id IN (${PermissionService.accessibleProjectIdsSql('$3', '$2')})
+    `, [taskId, req.organizationId, req.user!.userId]);
+
+    if (task.length === 0) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO task_reminder_snoozes (task_id, user_id, organization_id, snoozed_until)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (task_id, user_id) DO UPDATE SET snoozed_until = EXCLUDED.snoozed_until
+      RETURNING task_id, snoozed_until, created_at
+    `, [taskId, req.user!.userId, req.organizationId, validated.until]);
+
+    res.json({
+      snooze: result[0],
+      message: 'Reminders snoozed successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error snoozing reminders:', error);
+    res.status(500).json({
+      message: 'Failed to snooze reminders'
+    });
+  }
+});
+
+// 6. Cancel a snooze; due-soon reminders held back by it go out on the next run (organization.view)
+router.delete('/snoozes/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: snoozeParams }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { taskId } = req.params;
+
+    const result = await executeWithRLS(req, `
+      DELETE FROM task_reminder_snoozes
+      WHERE task_id = $1 AND user_id = $2 AND organization_id = $3
+      RETURNING task_id
+    `, [taskId, req.user!.userId, req.organizationId]);
+
+    if (result[0].length === 0) {
+      return res.status(404).json({
+        message: 'Snooze not found'
+      });
+    }
+
+    afterCommit(req, () => getTaskReminderScheduler()?.trigger());
+
+    res.json({
+      message: 'Snooze cancelled successfully',
+      taskId
+    });
+
+  } catch (error: any) {
+    console.error('Error cancelling snooze:', error);
+    res.status(500).json({
+      message: 'Failed to cancel snooze'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,254 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit } from '../utils/middleware/jwtMiddleWare';
+import { getWebSocketService } from '../services/websocket.service';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { ActivityService } from '../services/activity.service';
+import { RoleScope } from '../db/enums';
+import { validate, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const MAX_ROLE_NAME_LENGTH = 60;
+
+const ROLE_COLUMNS = `id, name, description, scope, permissions, created_by, created_at, updated_at`;
+
+const roleParams = z.object({ roleId: idParam });
+
+// PermissionService.validateCustomRolePermissions checks the actions against the role's scope
+const createRoleBody = z.object({
+  name: z.string().trim().min(1).max(MAX_ROLE_NAME_LENGTH),
+  description: z.string().nullable().default(null),
+  scope: z.enum(RoleScope).default(RoleScope.ORGANIZATION),
+  permissions: z.array(z.string()).default([])
+});
+
+// The scope of a role is fixed once created
+const updateRoleBody = z.object({
+  name: createRoleBody.shape.name.optional(),
+  description: z.string().nullable().optional(),
+  permissions: z.array(z.string()).optional()
+});
+
+// 1. List custom roles, with how many members hold each one
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('member.view') as any, async (req: any, res: Response) => {
+  try {
+    const roles = await executeWithRLS(req, `
+      SELECT
+        r.id, r.name, r.description, r.scope, r.permissions, r.created_by, r.created_at, r.updated_at,
+        (SELECT COUNT(*)::int FROM org_memberships om WHERE om.custom_role_id = r.id) +
+        (SELECT COUNT(*)::int FROM project_members pm WHERE pm.custom_role_id = r.id) as assigned_count
+      FROM custom_roles r
+      WHERE r.organization_id = $1
+      ORDER BY lower(r.name) ASC
+    `, [req.organizationId]);
+
+    res.json({
+      roles,
+      count: roles.length,
+      assignablePermissions: {
+        organization: PermissionService.assignableActions(RoleScope.ORGANIZATION),
+        project: PermissionService.assignableActions(RoleScope.PROJECT)
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching roles:', error);
+    res.status(500).json({
+      message: 'Failed to fetch roles'
+    });
+  }
+});
+
+// 2. Create custom role (role.manage)
+// Body: { name, description?, scope?: 'organization' | 'project', permissions: ['task.view', 'task.assign', ...] }
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createRoleBody }) as any, requirePermission('role.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { name, description, scope, permissions } = req.body;
+
+    const permissionError = PermissionService.validateCustomRolePermissions(scope, permissions);
+    if (permissionError) {
+      return res.status(400).json({
+        message: permissionError
+      });
+    }
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO custom_roles (organization_id, name, description, scope, permissions, created_by)
+      VALUES ($1, $2, $3, $4, $5::text[], $6)
+      RETURNING ${ROLE_COLUMNS}
+    `, [req.organizationId, name, description, scope, Array.from(new Set(permissions)), req.user!.userId]);
+
+    const role = result[0];
+
+    afterCommit(req, () => ActivityService.logRoleActivity(
+      req.organizationId,
+      req.user!.userId,
+      'created',
+      role.name,
+      role.id
+    ));
+
+    res.status(201).json({
+      role,
+      message: 'Role created successfully'
+    });
+
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        message: 'A role with this name already exists in this organization'
+      });
+    }
+    console.error('Error creating role:', error);
+    res.status(500).json({
+      message: 'Failed to create role'
+    });
+  }
+});
+
+// 3. Update custom role (role.manage); the scope cannot change once members hold the role
+router.put('/:roleId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: roleParams, body: updateRoleBody }) as any, requirePermission('role.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { roleId } = req.params;
+    const { name, description, permissions } = req.body;
+
+    const existing = await executeWithRLS(req, `
+      SELECT id, scope FROM custom_roles WHERE id = $1 AND organization_id = $2
+    `, [roleId, req.organizationId]);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        message: 'Role not found'
+      });
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    if (name !== undefined) {
+      updateFields.push(`name = $${paramCount++}`);
+      updateValues.push(name);
+    }
+    if (description !== undefined) {
+      updateFields.push(`description = $${paramCount++}`);
+      updateValues.push(description);
+    }
+    if (permissions !== undefined) {
+      const permissionError = PermissionService.validateCustomRolePermissions(existing[0].scope, permissions);
+      if (permissionError) {
+        return res.status(400).json({
+          message: permissionError
+        });
+      }
+      updateFields.push(`permissions = $${paramCount++}::text[]`);
+      updateValues.push(Array.from(new Set(permissions)));
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    updateValues.push(roleId, req.organizationId);
+
+    const result = await executeWithRLS(req, `
+      UPDATE custom_roles
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++} AND organization_id = $${paramCount++}
+      RETURNING ${ROLE_COLUMNS}
+    `, updateValues);
+
+    const role = result[0][0];
+
+    afterCommit(req, () => ActivityService.logRoleActivity(
+      req.organizationId,
+      req.user!.userId,
+      'updated',
+      role.name,
+      role.id
+    ));
+
+    // Holders may have lost project.view; drop sockets from project rooms they can no longer see
+    afterCommit(req, () => getWebSocketService()?.reauthorizeOrganization(req.organizationId));
+
+    res.json({
+      role,
+      message: 'Role updated successfully'
+    });
+
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        message: 'A role with this name already exists in this organization'
+      });
+    }
+    console.error('Error updating role:', error);
+    res.status(500).json({
+      message: 'Failed to update role'
+    });
+  }
+});
+
+// 4. Delete custom role (role.manage); members holding it fall back to their base role
+router.delete('/:roleId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: roleParams }) as any, requirePermission('role.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { roleId } = req.params;
+
+    const existing = await executeWithRLS(req, `
+      SELECT id, name FROM custom_roles WHERE id = $1 AND organization_id = $2
+    `, [roleId, req.organizationId]);
+
+    if (existing.length === 0) {
+      return res.status(404).json({
+        message: 'Role not found'
+      });
+    }
+
+    await executeWithRLS(req, `
+      UPDATE org_memberships SET custom_role_id = NULL, updated_at = now()
+      WHERE organization_id = $1 AND custom_role_id = $2
+    `, [req.organizationId, roleId]);
+
+    await executeWithRLS(req, `
+      UPDATE project_members SET custom_role_id = NULL, updated_at = now()
+      WHERE organization_id = $1 AND custom_role_id = $2
+    `, [req.organizationId, roleId]);
+
+    await executeWithRLS(req, `
+      DELETE FROM custom_roles WHERE id = $1 AND organization_id = $2
+    `, [roleId, req.organizationId]);
+
+    afterCommit(req, () => ActivityService.logRoleActivity(
+      req.organizationId,
+      req.user!.userId,
+      'deleted',
+      existing[0].name,
+      roleId
+    ));
+
+    afterCommit(req, () => getWebSocketService()?.reauthorizeOrganization(req.organizationId));
+
+    res.json({
+      message: 'Role deleted successfully',
+      roleId
+    });
+
+  } catch (error: any) {
+    // FK violation: the role was assigned again between clearing and deleting
+    if (error.code === '23503') {
+      return res.status(409).json({
+        message: 'Role is still assigned to members; try again'
+      });
+    }
+    console.error('Error deleting role:', error);
+    res.status(500).json({
+      message: 'Failed to delete role'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,131 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { validate, idParam, limitQuery } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const SEARCH_TYPES = ['task', 'project', 'comment'] as const;
+type SearchType = typeof SEARCH_TYPES[number];
+
+const MAX_OFFSET = 1000;
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+
+const searchQuery = z.object({
+  q: z.string().trim()
+    .min(MIN_QUERY_LENGTH, `q must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`)
+    .max(MAX_QUERY_LENGTH, `q must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`),
+  // Comma-separated, e.g. task,comment; all types when omitted
+  types: z.string()
+    .transform((types) => types.split(',').map((type) => type.trim()))
+    .pipe(z.array(z.enum(SEARCH_TYPES)).min(1))
+    .default([...SEARCH_TYPES]),
+  limit: limitQuery(20, 50),
+  offset: z.coerce.number().int().min(0).max(MAX_OFFSET).default(0),
+  projectId: idParam.optional()
+});
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "';
+
+// Titles and comment bodies are user-written; ts_headline keeps any markup in them as-is, so they are
+// HTML-escaped first and the <mark> tags are the only markup in title_highlight and snippet
+const escapeHtmlSql = (expression: string) => {
+  return `replace(replace(replace(${expression}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+};
+
+// Search tasks, projects and comments in the organization
+//   ?q=<websearch syntax: words, "phrases", OR, -exclude>
+//   ?types=task,project,comment  ?projectId=  ?limit=  ?offset=
+// Only projects the caller can access are searched; matches are wrapped in <mark></mark> in otherwise escaped text.
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: searchQuery }) as any, requirePermission('organization.view') as any, async (req: any, res: Response) => {
+  try {
+    const { q, limit, offset, projectId } = req.query;
+    const types: SearchType[] = req.query.types;
+
+    // $1 query, $2 user, $3 organization, $4 project filter, $5 limit, $6 offset
+    const branches: string[] = [];
+    if (types.includes('task')) {
+      branches.push(`
+        SELECT 'task' as type, t.id, t.project_id, p.name as project_name, t.id as task_id,
+          t.status, t.title as title, t.description as body,
+          ts_rank_cd(t.search_vector, q.query) as rank, t.updated_at
+        FROM tasks t
+        JOIN projects p ON p.id = t.project_id, q
+        WHERE t.organization_id = $3 AND t.search_vector @@ q.query
+          AND t.project_id IN (SELECT id FROM accessible)`);
+    }
+    if (types.includes('project')) {
+      branches.push(`
+        SELECT 'project' as type, p.id, p.id as project_id, p.name as project_name, NULL::bigint as task_id,
+          NULL::varchar as status, p.name as title, NULL::text as body,
+          ts_rank_cd(p.search_vector, q.query) as rank, p.updated_at
+        FROM projects p, q
+        WHERE p.organization_id = $3 AND p.search_vector @@ q.query
+          AND p.id IN (SELECT id FROM accessible)`);
+    }
+    if (types.includes('comment')) {
+      branches.push(`
+        SELECT 'comment' as type, c.id, c.project_id, p.name as project_name, c.task_id,
+          NULL::varchar as status, t.title as title, c.body as body,
+          ts_rank_cd(c.search_vector, q.query) as rank, c.updated_at
+        FROM task_comments c
+        JOIN tasks t ON t.id = c.task_id
+        JOIN projects p ON p.id = c.project_id, q
+        WHERE c.organization_id = $3 AND c.search_vector @@ q.query
+          AND c.project_id IN (SELECT id FROM accessible)`);
+    }
+
+    // Headlines are only computed for the returned page; ts_headline re-parses the text
+    const rows = await executeWithRLS(req, `
+      WITH q AS (
+        SELECT websearch_to_tsquery('english', $1) as query
+      ),
+      accessible AS (
+        ${PermissionService.accessibleProjectIdsSql('$2', '$3')}
+          AND ($4::bigint IS NULL OR p.id = $4::bigint)
+      ),
+      hits AS (
+        ${branches.join('\n        UNION ALL')}
+      ),
+      page AS (
+        SELECT hits.*, COUNT(*) OVER () as total
+        FROM hits
+        ORDER BY rank DESC, updated_at DESC, type ASC, id DESC
+        LIMIT $5 OFFSET $6
+      )
+      SELECT
+        page.type, page.id, page.project_id, page.project_name, page.task_id, page.status,
+        page.title, page.rank, page.updated_at, page.total,
+        ts_headline('english', ${escapeHtmlSql('page.title')}, q.query, '${HIGHLIGHT_OPTIONS}') as title_highlight,
+        CASE WHEN page.body IS NULL THEN NULL
+          ELSE ts_headline('english', ${escapeHtmlSql('page.body')}, q.query, '${SNIPPET_OPTIONS}') END as snippet
+      FROM page, q
+      ORDER BY page.rank DESC, page.updated_at DESC, page.type ASC, page.id DESC
+    `, [q, req.user!.userId, req.organizationId, projectId ?? null, limit, offset]);
+
+    const total = rows.length > 0 ? Number(rows[0].total) : 0;
+
+    res.json({
+      query: q,
+      results: rows.map(({ total: _total, ...row }: any) => ({ ...row, rank: Number(row.rank) })),
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + rows.length < total
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error searching:', error);
+    res.status(500).json({
+      message: 'Failed to search'
+    });
+  }
+});
+
+export default router;
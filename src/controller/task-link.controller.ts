@@ -0,0 +1,229 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, executeInTransactionWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { PermissionService } from '../services/permission.service';
+import { TaskDependencyService } from '../services/task-dependency.service';
+import { TaskLinkType } from '../db/enums';
+import { validate, id, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const linkParams = z.object({ linkId: idParam });
+
+const createLinkBody = z.object({
+  type: z.enum(TaskLinkType),
+  // Any task of the organization, in this project or another
+  targetTaskId: id
+});
+
+// How a link reads from the other side (A blocks B => B is blocked_by A)
+const INVERSE_LABELS: Record<TaskLinkType, string> = {
+  [TaskLinkType.BLOCKS]: 'blocked_by',
+  [TaskLinkType.DUPLICATES]: 'duplicated_by',
+  [TaskLinkType.RELATES_TO]: 'relates_to',
+};
+
+// Extract projectId/taskId from the original URL since they're not in req.params
+const getRouteIds = (req: any) => {
+  const urlMatch = req.originalUrl?.match(/\/projects\/([^\/]+)\/tasks\/([^\/]+)\/links/);
+  return {
+    projectId: req.params.projectId || urlMatch?.[1],
+    taskId: req.params.taskId || urlMatch?.[2]
+  };
+};
+
+const getTask = async (req: any, projectId: string, taskId: string) => {
+  const task = await executeWithRLS(req, `
+    SELECT id, title FROM tasks
+    WHERE id = $1 AND project_id = $2 AND organization_id = $3
+  `, [taskId, projectId, req.organizationId]);
+
+  return task[0];
+};
+
+// 1. List a task's links in both directions; linked tasks in projects the caller cannot access are left out
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+
+    const task = await getTask(req, projectId, taskId);
+    if (!task) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    const rows = await executeWithRLS(req, `
+      SELECT
+        l.id, l.link_type, l.created_by, l.created_at,
+        CASE WHEN l.source_task_id = $1 THEN 'outgoing' ELSE 'incoming' END as direction,
+        t.id as task_id, t.title as task_title, t.status as task_status, t.project_id as task_project_id,
+        p.name as task_project_name, ws.category as task_status_category
+      FROM task_links l
+      JOIN tasks t ON t.id = CASE WHEN l.source_task_id = $1 THEN l.target_task_id ELSE l.source_task_id END
+      JOIN projects p ON p.id = t.project_id
+      LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+      WHERE (l.source_task_id = $1 OR l.target_task_id = $1) AND l.organization_id = $2
+        AND t.project_id IN (${PermissionService.accessibleProjectIdsSql('$3', '$2')})
+      ORDER BY l.link_type ASC, l.created_at ASC, l.id ASC
+    `, [taskId, req.organizationId, req.user!.userId]);
+
+    const links = rows.map((row: any) => ({
+      id: row.id,
+      type: row.link_type,
+      direction: row.direction,
+      label: row.direction === 'outgoing' ? row.link_type : INVERSE_LABELS[row.link_type as TaskLinkType],
+      task: {
+        id: row.task_id,
+        title: row.task_title,
+        status: row.task_status,
+        statusCategory: row.task_status_category,
+        projectId: row.task_project_id,
+        projectName: row.task_project_name
+      },
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    }));
+
+    res.json({
+      links,
+      count: links.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching task links:', error);
+    res.status(500).json({
+      message: 'Failed to fetch task links'
+    });
+  }
+});
+
+// 2. Link this task to another task in the organization (task.update)
+// Body: { type: 'blocks' | 'relates_to' | 'duplicates', targetTaskId } reads "this task <type> target"
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createLinkBody }) as any, requirePermission('task.update') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+    const { type, targetTaskId } = req.body;
+
+    if (targetTaskId === String(taskId)) {
+      return res.status(400).json({
+        message: 'A task cannot be linked to itself'
+      });
+    }
+
+    const task = await getTask(req, projectId, taskId);
+    if (!task) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    // The target may live in any project of the organization the caller can access
+    const target = await executeWithRLS(req, `
+      SELECT t.id, t.title, t.project_id FROM tasks t
+      WHERE t.id = $1 AND t.organization_id = $2
+        AND t.project_id IN (${PermissionService.accessibleProjectIdsSql('$3', '$2')})
+    `, [targetTaskId, req.organizationId, req.user!.userId]);
+
+    if (target.length === 0) {
+      return res.status(404).json({
+        message: 'Target task not found'
+      });
+    }
+
+    const result = await executeInTransactionWithRLS(req, async (query) => {
+      await TaskDependencyService.lockLinks(query, req.organizationId);
+
+      // relates_to is symmetric: B relates_to A already covers A relates_to B
+      if (type === TaskLinkType.RELATES_TO) {
+        const reverse = await query(`
+          SELECT id FROM task_links
+          WHERE source_task_id = $1 AND target_task_id = $2 AND link_type = $3
+        `, [targetTaskId, taskId, type]);
+        if (reverse.length > 0) {
+          return { error: 'These tasks are already linked', status: 409, code: 'link_exists' };
+        }
+      }
+
+      if (await TaskDependencyService.wouldCreateCycle(query, type, taskId, String(targetTaskId))) {
+        return {
+          error: `Linking would create a cycle: task ${targetTaskId} already ${type === TaskLinkType.BLOCKS ? 'blocks' : 'duplicates'} this task through other links`,
+          status: 409,
+          code: 'link_cycle'
+        };
+      }
+
+      const inserted = await query(`
+        INSERT INTO task_links (organization_id, project_id, source_task_id, target_task_id, link_type, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id, source_task_id, target_task_id, link_type, created_by, created_at
+      `, [req.organizationId, projectId, taskId, targetTaskId, type, req.user!.userId]);
+      return { link: inserted[0] };
+    });
+
+    if (result.error) {
+      return res.status(result.status!).json({
+        code: result.code,
+        message: result.error
+      });
+    }
+
+    res.status(201).json({
+      link: result.link,
+      message: 'Tasks linked successfully'
+    });
+
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        code: 'link_exists',
+        message: 'These tasks are already linked'
+      });
+    }
+    console.error('Error linking tasks:', error);
+    res.status(500).json({
+      message: 'Failed to link tasks'
+    });
+  }
+});
+
+// 3. Remove a link from either end (task.update)
+router.delete('/:linkId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: linkParams }) as any, requirePermission('task.update') as any, async (req: any, res: Response) => {
+  try {
+    const { projectId, taskId } = getRouteIds(req);
+    const { linkId } = req.params;
+
+    const task = await getTask(req, projectId, taskId);
+    if (!task) {
+      return res.status(404).json({
+        message: 'Task not found'
+      });
+    }
+
+    const result = await executeWithRLS(req, `
+      DELETE FROM task_links
+      WHERE id = $1 AND organization_id = $2 AND (source_task_id = $3 OR target_task_id = $3)
+      RETURNING id
+    `, [linkId, req.organizationId, taskId]);
+
+    if (result[0].length === 0) {
+      return res.status(404).json({
+        message: 'Link not found'
+      });
+    }
+
+    res.json({
+      message: 'Link removed successfully',
+      linkId
+    });
+
+  } catch (error: any) {
+    console.error('Error removing task link:', error);
+    res.status(500).json({
+      message: 'Failed to remove task link'
+    });
+  }
+});
+
+export default router;
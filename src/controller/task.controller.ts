@@ -1,13 +1,87 @@
 import express, { Request, Response } from 'express';
-import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, hasProjectAccess } from '../utils/middleware/jwtMiddleWare';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit, requestContext } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission, sendForbidden } from '../utils/middleware/permissionMiddleware';
 import { TaskStatus, ActivityKind } from '../db/enums';
-import { ActivityService } from '../services/activity.service';
+import { TaskQueryService, DUE_WINDOWS, LABEL_MATCH_MODES, LABEL_FILTER_CONFLICT } from '../services/task-query.service';
+import { TaskService } from '../services/task.service';
+import { getOutboxDispatcher } from '../services/outbox-dispatcher.service';
+import { LabelService } from '../services/label.service';
+import { encodeCursor, decodeCursor, cursorTimestampSql } from '../utils/cursor';
+import { validate, id, idParam, date, priority, limitQuery, cursorQuery } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
 
 const router = express.Router();
 
+// 409 for projects whose blocker policy refuses completing a task with open blockers
+const sendBlocked = (res: Response, blockers: any[]) => {
+  return res.status(409).json({
+    code: 'task_blocked',
+    message: 'Task has open blockers and this project does not allow completing it',
+    blockers
+  });
+};
+
+
+const taskParams = z.object({ taskId: idParam });
+
+const createTaskBody = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().nullable().optional(),
+  assigneeId: id.nullable().optional(),
+  dueDate: date.nullable().optional(),
+  priority: priority.nullable().optional(),
+  // Key of one of the project's workflow statuses, checked against the workflow by TaskService
+  status: z.string().min(1).max(40).optional(),
+  parentId: id.nullable().optional()
+});
+
+const updateTaskBody = createTaskBody.partial().extend({
+  orderInBoard: z.never({ error: 'orderInBoard is no longer supported; use POST /tasks/:taskId/move to reorder' }).optional()
+});
+
+// Filters and sort shared by the list and the board; values are parsed by TaskQueryService.
+// Lists are comma-separated ("me,12") or repeated parameters.
+const listValue = z.union([z.string(), z.array(z.string())]);
+const taskQuery = z.object({
+  viewId: idParam.optional(),
+  sort: z.string().optional(),
+  status: listValue.optional(),
+  statusCategory: listValue.optional(),
+  assigneeId: listValue.optional(),
+  createdBy: listValue.optional(),
+  unassigned: z.string().optional(),
+  priorityMin: z.string().optional(),
+  priorityMax: z.string().optional(),
+  due: z.enum(DUE_WINDOWS).optional(),
+  dueFrom: z.string().optional(),
+  dueTo: z.string().optional(),
+  q: z.string().optional(),
+  labelId: listValue.optional(),
+  labelMatch: z.enum(LABEL_MATCH_MODES).optional(),
+  unlabeled: z.string().optional()
+}).refine((query) => !(query.labelMatch === 'all' && query.unlabeled === 'true'), {
+  message: LABEL_FILTER_CONFLICT,
+  path: ['unlabeled']
+});
+
+const historyQuery = z.object({
+  before: cursorQuery.optional(),
+  limit: limitQuery(50, 200)
+});
 
-// 1. Create task (OWNER/ADMIN/EDITOR only)
-router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+const moveTaskBody = z.object({
+  // Defaults to the task's current status
+  status: z.string().min(1).max(40).optional(),
+  afterTaskId: id.nullable().default(null),
+  beforeTaskId: id.nullable().default(null)
+});
+
+const addLabelsBody = z.object({
+  labelIds: z.array(id).min(1).max(50)
+});
+
+// 1. Create task (task.create)
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createTaskBody }) as any, requirePermission('task.create') as any, async (req: any, res: Response) => {
   try {
     // Extract projectId from the original URL since it's not in req.params
     let projectId = req.params.projectId;
@@ -18,86 +92,21 @@ router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrg
       }
     }
     
-    const { title, description, assigneeId, dueDate, priority } = req.body;
-    
-    if (!title) {
-      return res.status(400).json({ 
-        message: 'Title is required' 
-      });
-    }
-
-    // Check if user has EDITOR access or is OWNER/ADMIN
-    const userAccess = await executeWithRLS(req, `
-      SELECT 
-        pm.role as project_role,
-        om.role as org_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      LEFT JOIN org_memberships om ON p.organization_id = om.organization_id AND om.user_id = $1
-      WHERE p.id = $2 AND p.organization_id = $3
-    `, [req.user!.userId, projectId, req.organizationId]);
-
-    if (userAccess.length === 0) {
-      return res.status(404).json({ 
-        message: 'Project not found' 
-      });
-    }
-
-    const { project_role, org_role } = userAccess[0];
-    const canCreate = project_role === 'EDITOR' || ['OWNER', 'ADMIN'].includes(org_role);
+    const { title, description, assigneeId, dueDate, priority, status, parentId } = req.body;
 
-    if (!canCreate) {
-      return res.status(403).json({ 
-        message: 'Only EDITOR or OWNER/ADMIN can create tasks' 
+    // The activity and notification go out through the outbox
+    const result = await TaskService.create(requestContext(req), projectId, {
+      title, description, assigneeId, dueDate, priority, status, parentId
+    });
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
       });
     }
-
-    // Validate assignee is a project member (if assigneeId provided)
-    if (assigneeId) {
-      const assigneeCheck = await executeWithRLS(req, `
-        SELECT user_id FROM project_members 
-        WHERE project_id = $1 AND user_id = $2
-      `, [projectId, assigneeId]);
-
-      if (assigneeCheck.length === 0) {
-        return res.status(400).json({ 
-          message: 'Assignee must be a project member' 
-        });
-      }
-    }
-
-    // Create task
-    const result = await executeWithRLS(req, `
-      INSERT INTO tasks (
-        organization_id, project_id, title, description, 
-        assignee_id, due_date, priority, created_by, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'TODO')
-      RETURNING id, title, description, status, assignee_id, due_date, priority, created_at
-    `, [req.organizationId, projectId, title, description, assigneeId, dueDate, priority, req.user!.userId]);
-
-    const task = result[0];
-
-    // Get project name for activity log
-    const projectResult = await executeWithRLS(req, `
-      SELECT name FROM projects WHERE id = $1
-    `, [projectId]);
-    
-    const projectName = projectResult[0]?.name || 'Unknown Project';
-    
-    // Log activity
-    console.log('TaskController: Logging task creation activity');
-    await ActivityService.logTaskActivity(
-      req.organizationId,
-      req.user!.userId,
-      'created',
-      title,
-      task.id,
-      projectName
-    );
-    console.log('TaskController: Task creation activity logged');
+    afterCommit(req, () => getOutboxDispatcher()?.trigger());
 
     res.status(201).json({
-      task,
+      task: result.task,
       message: 'Task created successfully'
     });
 
@@ -110,7 +119,11 @@ router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrg
 });
 
 // 2. List tasks in project
-router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// Filters: ?status= ?statusCategory= ?assigneeId=me,12 ?createdBy= ?unassigned=true ?priorityMin= ?priorityMax=
+//   ?due=overdue|today|this_week|next_week|none ?dueFrom= ?dueTo= ?q= ?labelId=3,7 ?labelMatch=any|all ?unlabeled=true
+//   Sort: ?sort=-priority,due_date
+// ?viewId= applies a saved view; any filter given in the query overrides the view's value for that key.
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: taskQuery }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
   try {
     // Extract projectId from the original URL since it's not in req.params
     let projectId = req.params.projectId;
@@ -123,50 +136,22 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
       }
     }
     
-    const { status } = req.query;
-    
-    console.log('Task controller debug:', { 
-      projectId, 
-      organizationId: req.organizationId,
-      originalUrl: req.originalUrl,
-      params: req.params 
-    });
-    
-    // Check if user has access to project
-    const hasAccess = await hasProjectAccess(req, projectId);
-    if (!hasAccess) {
-      console.log('Access denied to this project in task controller');
-      return res.status(403).json({ 
-        message: 'Access denied to this project in task controller'+ hasAccess + " " + projectId +" " + req.organizationId 
+    const resolved = await TaskQueryService.resolveRequest(req, projectId);
+    if (resolved.error) {
+      return res.status(resolved.status!).json({
+        message: resolved.error
       });
     }
+    const { view, filters, sort } = resolved.query!;
+
+    const tasks = await TaskService.list(requestContext(req), projectId, filters, sort);
 
-    let query = `
-      SELECT 
-        t.id, t.title, t.description, t.status, t.assignee_id, 
-        t.due_date, t.priority, t.order_in_board, t.created_by, t.created_at, t.updated_at,
-        u.username as assignee_username,
-        cu.username as created_by_username
-      FROM tasks t
-      LEFT JOIN users u ON t.assignee_id = u.id
-      LEFT JOIN users cu ON t.created_by = cu.id
-      WHERE t.project_id = $1 AND t.organization_id = $2
-    `;
-    
-    const params = [projectId, req.organizationId];
-    
-    if (status) {
-      query += ` AND t.status = $3`;
-      params.push(status as string);
-    }
-    
-    query += ` ORDER BY t.order_in_board ASC, t.created_at DESC`;
-    
-    const tasks = await executeWithRLS(req, query, params);
-    
     res.json({
       tasks,
-      count: tasks.length
+      count: tasks.length,
+      view,
+      filters,
+      sort: TaskQueryService.formatSort(sort)
     });
 
   } catch (error: any) {
@@ -177,8 +162,9 @@ router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrga
   }
 });
 
-// 3. Update task (Assignee can change status, EDITOR/OWNER/ADMIN can change everything)
-router.put('/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 3. Update task (assignee can change status, task.assign can reassign, task.update can change everything)
+// Board position is not set here; use POST /:taskId/move
+router.put('/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams, body: updateTaskBody }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
   try {
     // Extract projectId from the original URL since it's not in req.params
     let projectId = req.params.projectId;
@@ -190,164 +176,208 @@ router.put('/:taskId', jwtMiddleware as any, setOrganizationContext as any, requ
     }
     
     const { taskId } = req.params;
-    const { title, description, status, assigneeId, dueDate, priority, orderInBoard } = req.body;
+    const { title, description, status, assigneeId, dueDate, priority, parentId } = req.body;
     
-    // Get task details
-    const task = await executeWithRLS(req, `
-      SELECT t.*, p.organization_id
-      FROM tasks t
-      JOIN projects p ON t.project_id = p.id
-      WHERE t.id = $1 AND t.project_id = $2 AND p.organization_id = $3
-    `, [taskId, projectId, req.organizationId]);
-
-    if (task.length === 0) {
+    const ctx = requestContext(req);
+    const currentTask = await TaskService.get(ctx, projectId, taskId);
+    if (!currentTask) {
       return res.status(404).json({ 
         message: 'Task not found' 
       });
     }
 
-    const currentTask = task[0];
-    const isAssignee = currentTask.assignee_id === req.user!.userId;
+    const isAssignee = currentTask.assigneeId === String(req.user!.userId);
     
-    // Check permissions
-    const userAccess = await executeWithRLS(req, `
-      SELECT 
-        pm.role as project_role,
-        om.role as org_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      LEFT JOIN org_memberships om ON p.organization_id = om.organization_id AND om.user_id = $1
-      WHERE p.id = $2 AND p.organization_id = $3
-    `, [req.user!.userId, projectId, req.organizationId]);
-
-    const { project_role, org_role } = userAccess[0];
-    const isEditor = project_role === 'EDITOR' || ['OWNER', 'ADMIN'].includes(org_role);
+    // Check permissions (roles were loaded by requirePermission)
+    const canUpdate = req.access.permissions.has('task.update');
+    const canAssign = canUpdate || req.access.permissions.has('task.assign');
     
-    // Only assignee can change status, or EDITOR/OWNER/ADMIN
-    if (status !== undefined && !isAssignee && !isEditor) {
-      return res.status(403).json({ 
-        message: 'Only assignee or EDITOR/OWNER/ADMIN can change task status' 
-      });
+    // The assignee may change the status even without task.update
+    if (status !== undefined && !isAssignee && !canUpdate) {
+      return sendForbidden(res, 'task.update');
     }
 
-    // Only EDITOR/OWNER/ADMIN can change other fields
-    if ((title !== undefined || description !== undefined || assigneeId !== undefined || 
-         dueDate !== undefined || priority !== undefined || orderInBoard !== undefined) && !isEditor) {
-      return res.status(403).json({ 
-        message: 'Only EDITOR or OWNER/ADMIN can update task details' 
-      });
+    // Reassigning needs task.assign (included in task.update)
+    if (assigneeId !== undefined && !canAssign) {
+      return sendForbidden(res, 'task.assign');
     }
 
-    // Validate assignee is a project member (if assigneeId is being changed)
-    if (assigneeId !== undefined && assigneeId !== null) {
-      const assigneeCheck = await executeWithRLS(req, `
-        SELECT user_id FROM project_members 
-        WHERE project_id = $1 AND user_id = $2
-      `, [projectId, assigneeId]);
-
-      if (assigneeCheck.length === 0) {
-        return res.status(400).json({ 
-          message: 'Assignee must be a project member' 
-        });
-      }
+    // Every other field needs task.update
+    if ((title !== undefined || description !== undefined || 
+         dueDate !== undefined || priority !== undefined || parentId !== undefined) && !canUpdate) {
+      return sendForbidden(res, 'task.update');
     }
 
-    // Build update query
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
-
-    if (title !== undefined) {
-      updateFields.push(`title = $${paramCount++}`);
-      updateValues.push(title);
+    // Workflow transitions and the blocker policy are checked by the service
+    const result = await TaskService.update(ctx, projectId, taskId, {
+      title, description, status, assigneeId, dueDate, priority, parentId
+    });
+    if (result.blockers) {
+      return sendBlocked(res, result.blockers);
     }
-    if (description !== undefined) {
-      updateFields.push(`description = $${paramCount++}`);
-      updateValues.push(description);
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
+      });
     }
-    if (status !== undefined) {
-      updateFields.push(`status = $${paramCount++}`);
-      updateValues.push(status);
+    afterCommit(req, () => getOutboxDispatcher()?.trigger());
+
+    res.json({
+      task: result.task,
+      warnings: result.warnings,
+      message: 'Task updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating task:', error);
+    res.status(500).json({ 
+      message: 'Failed to update task' 
+    });
+  }
+});
+
+// 4. Delete task (task.delete)
+router.delete('/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams }) as any, requirePermission('task.delete') as any, async (req: any, res: Response) => {
+  try {
+    // Extract projectId from the original URL since it's not in req.params
+    let projectId = req.params.projectId;
+    if (!projectId && req.originalUrl) {
+      const urlMatch = req.originalUrl.match(/\/projects\/([^\/]+)\/tasks/);
+      if (urlMatch) {
+        projectId = urlMatch[1];
+      }
     }
-    if (assigneeId !== undefined) {
-      updateFields.push(`assignee_id = $${paramCount++}`);
-      updateValues.push(assigneeId);
+    
+    const { taskId } = req.params;
+    
+    const result = await TaskService.delete(requestContext(req), projectId, taskId);
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
+      });
     }
-    if (dueDate !== undefined) {
-      updateFields.push(`due_date = $${paramCount++}`);
-      updateValues.push(dueDate);
+    afterCommit(req, () => getOutboxDispatcher()?.trigger());
+
+    res.json({
+      message: 'Task deleted successfully',
+      taskId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting task:', error);
+    res.status(500).json({ 
+      message: 'Failed to delete task' 
+    });
+  }
+});
+
+// 5. Get task board (Kanban view)
+router.get('/board', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: taskQuery }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    // Extract projectId from the original URL since it's not in req.params
+    let projectId = req.params.projectId;
+    if (!projectId && req.originalUrl) {
+      const urlMatch = req.originalUrl.match(/\/projects\/([^\/]+)\/tasks/);
+      if (urlMatch) {
+        projectId = urlMatch[1];
+      }
     }
-    if (priority !== undefined) {
-      updateFields.push(`priority = $${paramCount++}`);
-      updateValues.push(priority);
+    
+    // Board accepts the same filters, sort and ?viewId= as the list; columns keep their workflow order
+    const resolved = await TaskQueryService.resolveRequest(req, projectId);
+    if (resolved.error) {
+      return res.status(resolved.status!).json({
+        message: resolved.error
+      });
     }
-    if (orderInBoard !== undefined) {
-      updateFields.push(`order_in_board = $${paramCount++}`);
-      updateValues.push(orderInBoard);
+    const { view, filters, sort } = resolved.query!;
+
+    // One column per workflow status, in workflow order
+    const columns = await TaskService.board(requestContext(req), projectId, filters, sort);
+
+    res.json({
+      columns,
+      view,
+      filters,
+      sort: TaskQueryService.formatSort(sort)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching task board:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch task board' 
+    });
+  }
+});
+
+// 6. Get task history (field-level audit trail, newest first)
+router.get('/:taskId/history', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams, query: historyQuery }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    // Extract projectId from the original URL since it's not in req.params
+    let projectId = req.params.projectId;
+    if (!projectId && req.originalUrl) {
+      const urlMatch = req.originalUrl.match(/\/projects\/([^\/]+)\/tasks/);
+      if (urlMatch) {
+        projectId = urlMatch[1];
+      }
     }
+    
+    const { taskId } = req.params;
+    const { before, limit } = req.query;
 
-    if (updateFields.length === 0) {
+    const cursor = before ? decodeCursor(before as string) : null;
+    if (before && !cursor) {
       return res.status(400).json({ 
-        message: 'No fields to update' 
+        code: 'invalid_cursor',
+        message: 'Invalid pagination cursor' 
       });
     }
 
-    updateFields.push(`updated_by = $${paramCount++}`);
-    updateValues.push(req.user!.userId);
-    updateValues.push(taskId);
+    const params: any[] = [taskId, projectId, req.organizationId];
+    let query = `
+      SELECT 
+        e.id, e.task_id, e.event_type, e.changes, e.actor_id, e.created_at,
+        u.username as actor_username,
+        ${cursorTimestampSql('e.created_at')} as cursor_ts
+      FROM task_events e
+      LEFT JOIN users u ON u.id = e.actor_id
+      WHERE e.task_id = $1 AND e.project_id = $2 AND e.organization_id = $3
+    `;
 
-    const result = await executeWithRLS(req, `
-      UPDATE tasks 
-      SET ${updateFields.join(', ')}, updated_at = now()
-      WHERE id = $${paramCount++}
-      RETURNING id, title, description, status, assignee_id, due_date, priority, order_in_board, updated_at
-    `, updateValues);
-
-    // Get project name for activity log
-    const projectResult = await executeWithRLS(req, `
-      SELECT name FROM projects WHERE id = $1
-    `, [projectId]);
-    
-    const projectName = projectResult[0]?.name || 'Unknown Project';
-    
-    // Log activity with proper status change detection
-    if (status !== undefined && status !== currentTask.status) {
-      await ActivityService.logTaskActivity(
-        req.organizationId,
-        req.user!.userId,
-        'status_changed',
-        currentTask.title,
-        taskId,
-        projectName,
-        currentTask.status,
-        status
-      );
-    } else {
-      await ActivityService.logTaskActivity(
-        req.organizationId,
-        req.user!.userId,
-        'updated',
-        currentTask.title,
-        taskId,
-        projectName
-      );
+    if (cursor) {
+      query += ` AND (e.created_at, e.id) < ($4::timestamptz, $5::bigint)`;
+      params.push(cursor.t, cursor.id);
     }
 
+    query += ` ORDER BY e.created_at DESC, e.id DESC LIMIT ${limit + 1}`;
+
+    const rows = await executeWithRLS(req, query, params);
+
+    const hasMore = rows.length > limit;
+    const events = rows.slice(0, limit);
+    const last = events[events.length - 1];
+
     res.json({
-      task: result[0],
-      message: 'Task updated successfully'
+      events: events.map(({ cursor_ts, ...event }: any) => event),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor({ t: last.cursor_ts, id: String(last.id) }) : null
+      }
     });
 
   } catch (error: any) {
-    console.error('Error updating task:', error);
+    console.error('Error fetching task history:', error);
     res.status(500).json({ 
-      message: 'Failed to update task' 
+      message: 'Failed to fetch task history' 
     });
   }
 });
 
-// 4. Delete task (EDITOR/OWNER/ADMIN only)
-router.delete('/:taskId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 7. Move task on the board (task.update)
+// Body: { status?, afterTaskId?, beforeTaskId? } places the task in the status column (default: current)
+// directly below afterTaskId and/or above beforeTaskId; with neither it goes to the bottom.
+router.post('/:taskId/move', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams, body: moveTaskBody }) as any, requirePermission('task.update') as any, async (req: any, res: Response) => {
   try {
     // Extract projectId from the original URL since it's not in req.params
     let projectId = req.params.projectId;
@@ -357,39 +387,86 @@ router.delete('/:taskId', jwtMiddleware as any, setOrganizationContext as any, r
         projectId = urlMatch[1];
       }
     }
-    
+
     const { taskId } = req.params;
-    
-    // Check if user has EDITOR access or is OWNER/ADMIN
-    const userAccess = await executeWithRLS(req, `
-      SELECT 
-        pm.role as project_role,
-        om.role as org_role
-      FROM projects p
-      LEFT JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = $1
-      LEFT JOIN org_memberships om ON p.organization_id = om.organization_id AND om.user_id = $1
-      WHERE p.id = $2 AND p.organization_id = $3
-    `, [req.user!.userId, projectId, req.organizationId]);
-
-    if (userAccess.length === 0) {
-      return res.status(404).json({ 
-        message: 'Project not found' 
+    const { status, afterTaskId, beforeTaskId } = req.body;
+
+    // Workflow transitions, the blocker policy and neighbour checks are done by the service
+    const result = await TaskService.move(requestContext(req), projectId, taskId, { status, afterTaskId, beforeTaskId });
+    if (result.blockers) {
+      return sendBlocked(res, result.blockers);
+    }
+    if (result.error) {
+      return res.status(result.status!).json({ 
+        message: result.error 
       });
     }
+    afterCommit(req, () => getOutboxDispatcher()?.trigger());
 
-    const { project_role, org_role } = userAccess[0];
-    const canDelete = project_role === 'EDITOR' || ['OWNER', 'ADMIN'].includes(org_role);
+    res.json({
+      task: result.task,
+      move: result.move,
+      warnings: result.warnings,
+      message: 'Task moved successfully'
+    });
 
-    if (!canDelete) {
-      return res.status(403).json({ 
-        message: 'Only EDITOR or OWNER/ADMIN can delete tasks' 
+  } catch (error: any) {
+    console.error('Error moving task:', error);
+    res.status(500).json({ 
+      message: 'Failed to move task' 
+    });
+  }
+});
+
+// 8. List subtasks with progress roll-up
+router.get('/:taskId/subtasks', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    // Extract projectId from the original URL since it's not in req.params
+    let projectId = req.params.projectId;
+    if (!projectId && req.originalUrl) {
+      const urlMatch = req.originalUrl.match(/\/projects\/([^\/]+)\/tasks/);
+      if (urlMatch) {
+        projectId = urlMatch[1];
+      }
+    }
+
+    const { taskId } = req.params;
+
+    const result = await TaskService.subtasks(requestContext(req), projectId, taskId);
+    if (!result) {
+      return res.status(404).json({ 
+        message: 'Task not found' 
       });
     }
 
-    // Get task details before deletion
+    res.json(result);
+
+  } catch (error: any) {
+    console.error('Error fetching subtasks:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch subtasks' 
+    });
+  }
+});
+
+// 9. Add labels from the organization catalog to a task (task.update)
+// Body: { labelIds: [...] }; labels the task already has are left as they are
+router.post('/:taskId/labels', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: taskParams, body: addLabelsBody }) as any, requirePermission('task.update') as any, async (req: any, res: Response) => {
+  try {
+    // Extract projectId from the original URL since it's not in req.params
+    let projectId = req.params.projectId;
+    if (!projectId && req.originalUrl) {
+      const urlMatch = req.originalUrl.match(/\/projects\/([^\/]+)\/tasks/);
+      if (urlMatch) {
+        projectId = urlMatch[1];
+      }
+    }
+
+    const { taskId } = req.params;
+    const ids: string[] = Array.from(new Set(req.body.labelIds));
+
     const task = await executeWithRLS(req, `
-      SELECT title FROM tasks 
-      WHERE id = $1 AND project_id = $2 AND organization_id = $3
+      SELECT id FROM tasks WHERE id = $1 AND project_id = $2 AND organization_id = $3
     `, [taskId, projectId, req.organizationId]);
 
     if (task.length === 0) {
@@ -398,44 +475,37 @@ router.delete('/:taskId', jwtMiddleware as any, setOrganizationContext as any, r
       });
     }
 
-    // Delete task
+    const labels = await LabelService.findLabels(req, ids);
+    if (labels.length !== ids.length) {
+      const found = new Set(labels.map((label: any) => String(label.id)));
+      return res.status(400).json({ 
+        message: `Unknown label ids: ${ids.filter((id) => !found.has(id)).join(', ')}` 
+      });
+    }
+
     await executeWithRLS(req, `
-      DELETE FROM tasks 
-      WHERE id = $1 AND project_id = $2 AND organization_id = $3
-    `, [taskId, projectId, req.organizationId]);
+      INSERT INTO task_labels (task_id, label_id, organization_id, project_id, created_by)
+      SELECT $1, label_id, $2, $3, $4 FROM unnest($5::bigint[]) as label_id
+      ON CONFLICT (task_id, label_id) DO NOTHING
+    `, [taskId, req.organizationId, projectId, req.user!.userId, ids]);
 
-    // Get project name for activity log
-    const projectResult = await executeWithRLS(req, `
-      SELECT name FROM projects WHERE id = $1
-    `, [projectId]);
-    
-    const projectName = projectResult[0]?.name || 'Unknown Project';
-    
-    // Log activity
-    await ActivityService.logTaskActivity(
-      req.organizationId,
-      req.user!.userId,
-      'deleted',
-      task[0].title,
-      taskId,
-      projectName
-    );
+    const taskLabels = await LabelService.getTaskLabels(requestContext(req), [String(taskId)]);
 
     res.json({
-      message: 'Task deleted successfully',
-      taskId
+      labels: taskLabels[String(taskId)] || [],
+      message: 'Labels added successfully'
     });
 
   } catch (error: any) {
-    console.error('Error deleting task:', error);
+    console.error('Error adding task labels:', error);
     res.status(500).json({ 
-      message: 'Failed to delete task' 
+      message: 'Failed to add labels' 
     });
   }
 });
 
-// 5. Get task board (Kanban view)
-router.get('/board', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, async (req: any, res: Response) => {
+// 10. Remove a label from a task (task.update)
+router.delete('/:taskId/labels/:labelId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: z.object({ taskId: idParam, labelId: idParam }) }) as any, requirePermission('task.update') as any, async (req: any, res: Response) => {
   try {
     // Extract projectId from the original URL since it's not in req.params
     let projectId = req.params.projectId;
@@ -445,38 +515,32 @@ router.get('/board', jwtMiddleware as any, setOrganizationContext as any, requir
         projectId = urlMatch[1];
       }
     }
-    
-    // Check if user has access to project
-    const hasAccess = await hasProjectAccess(req, projectId);
-    if (!hasAccess) {
-      return res.status(403).json({ 
-        message: 'Access denied to this project' 
+
+    const { taskId, labelId } = req.params;
+
+    const result = await executeWithRLS(req, `
+      DELETE FROM task_labels
+      WHERE task_id = $1 AND label_id = $2 AND project_id = $3 AND organization_id = $4
+      RETURNING label_id
+    `, [taskId, labelId, projectId, req.organizationId]);
+
+    if (result[0].length === 0) {
+      return res.status(404).json({ 
+        message: 'Label is not on this task' 
       });
     }
 
-    const tasks = await executeWithRLS(req, `
-      SELECT 
-        t.id, t.title, t.description, t.status, t.assignee_id, 
-        t.due_date, t.priority, t.order_in_board, t.created_at,
-        u.username as assignee_username
-      FROM tasks t
-      LEFT JOIN users u ON t.assignee_id = u.id
-      WHERE t.project_id = $1 AND t.organization_id = $2
-      ORDER BY t.order_in_board ASC, t.created_at DESC
-    `, [projectId, req.organizationId]);
-
-    const board = {
-      todo: tasks.filter((task: any) => task.status === 'TODO'),
-      inProgress: tasks.filter((task: any) => task.status === 'INPROGRESS'),
-      done: tasks.filter((task: any) => task.status === 'DONE')
-    };
-
-    res.json({ board });
+    const taskLabels = await LabelService.getTaskLabels(requestContext(req), [String(taskId)]);
+
+    res.json({
+      labels: taskLabels[String(taskId)] || [],
+      message: 'Label removed successfully'
+    });
 
   } catch (error: any) {
-    console.error('Error fetching task board:', error);
+    console.error('Error removing task label:', error);
     res.status(500).json({ 
-      message: 'Failed to fetch task board' 
+      message: 'Failed to remove label' 
     });
   }
 });
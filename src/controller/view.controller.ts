@@ -0,0 +1,273 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission, sendForbidden, getRouteProjectId } from '../utils/middleware/permissionMiddleware';
+import { TaskQueryService } from '../services/task-query.service';
+import { TaskViewVisibility } from '../db/enums';
+import { validate, idParam, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const MAX_VIEW_NAME_LENGTH = 80;
+
+const viewParams = z.object({ viewId: idParam });
+
+const createViewBody = z.object({
+  name: z.string().trim().min(1).max(MAX_VIEW_NAME_LENGTH),
+  visibility: z.enum(TaskViewVisibility).default(TaskViewVisibility.PERSONAL),
+  // Same keys as the task list query (arrays or comma-separated strings); TaskQueryService.parseFilters checks them
+  filters: z.record(z.string(), z.any()).default({}),
+  // e.g. "-priority,dueDate"; null keeps the default order
+  sort: z.union([z.string(), z.array(z.string())]).nullable().default(null)
+});
+
+// Omitted keys keep their value
+const updateViewBody = z.object({
+  name: createViewBody.shape.name.optional(),
+  visibility: z.enum(TaskViewVisibility).optional(),
+  filters: z.record(z.string(), z.any()).optional(),
+  sort: z.union([z.string(), z.array(z.string())]).nullable().optional()
+});
+
+// Owners manage their own views; shared views can also be managed by anyone with view.share
+const canManageView = (req: any, view: any): boolean => {
+  return String(view.owner_id) === String(req.user!.userId)
+    || (view.visibility === TaskViewVisibility.PROJECT && req.access.permissions.has('view.share'));
+};
+
+// 1. List saved views: the caller's personal views and every view shared with the project
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req);
+
+    const views = await executeWithRLS(req, `
+      SELECT
+        v.id, v.name, v.visibility, v.filters, v.sort, v.owner_id, v.created_at, v.updated_at,
+        u.username as owner_username
+      FROM task_views v
+      JOIN users u ON u.id = v.owner_id
+      WHERE v.project_id = $1 AND v.organization_id = $2
+        AND (v.visibility = 'project' OR v.owner_id = $3)
+      ORDER BY v.visibility DESC, lower(v.name) ASC, v.id ASC
+    `, [projectId, req.organizationId, req.user!.userId]);
+
+    res.json({
+      views,
+      count: views.length
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching views:', error);
+    res.status(500).json({
+      message: 'Failed to fetch views'
+    });
+  }
+});
+
+// 2. Save a view (task.view; sharing with the project needs view.share)
+// Body: { name, visibility?: 'personal' | 'project', filters: { assigneeId: 'me', due: 'overdue', ... }, sort?: '-priority,due_date' }
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createViewBody }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req);
+    const { name, visibility, filters, sort } = req.body;
+
+    if (visibility === TaskViewVisibility.PROJECT && !req.access.permissions.has('view.share')) {
+      return sendForbidden(res, 'view.share');
+    }
+
+    const parsedFilters = TaskQueryService.parseFilters(filters);
+    if (parsedFilters.error) {
+      return res.status(400).json({
+        message: parsedFilters.error
+      });
+    }
+
+    let sortValue: string | null = null;
+    if (sort !== null) {
+      const parsedSort = TaskQueryService.parseSort(sort);
+      if (parsedSort.error) {
+        return res.status(400).json({
+          message: parsedSort.error
+        });
+      }
+      sortValue = TaskQueryService.formatSort(parsedSort.sort!);
+    }
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO task_views (organization_id, project_id, owner_id, name, visibility, filters, sort)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7)
+      RETURNING id
+    `, [
+      req.organizationId,
+      projectId,
+      req.user!.userId,
+      name,
+      visibility,
+      JSON.stringify(parsedFilters.filters),
+      sortValue
+    ]);
+
+    const view = await TaskQueryService.findView(req, projectId!, String(result[0].id));
+
+    res.status(201).json({
+      view,
+      message: 'View saved successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error saving view:', error);
+    res.status(500).json({
+      message: 'Failed to save view'
+    });
+  }
+});
+
+// 3. Get a saved view
+router.get('/:viewId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: viewParams }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req);
+
+    const view = await TaskQueryService.findView(req, projectId!, req.params.viewId);
+    if (!view) {
+      return res.status(404).json({
+        message: 'View not found'
+      });
+    }
+
+    res.json({ view });
+
+  } catch (error: any) {
+    console.error('Error fetching view:', error);
+    res.status(500).json({
+      message: 'Failed to fetch view'
+    });
+  }
+});
+
+// 4. Update a saved view (owner, or view.share for shared views)
+// Body: { name?, visibility?, filters?, sort? }; filters replace the stored set, sort: null restores the default order
+router.put('/:viewId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: viewParams, body: updateViewBody }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req);
+    const { viewId } = req.params;
+    const { name, visibility, filters, sort } = req.body;
+
+    const existing = await TaskQueryService.findView(req, projectId!, viewId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'View not found'
+      });
+    }
+
+    if (!canManageView(req, existing)) {
+      return sendForbidden(res, 'view.share');
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    if (name !== undefined) {
+      updateFields.push(`name = $${paramCount++}`);
+      updateValues.push(name);
+    }
+
+    if (visibility !== undefined) {
+      // Sharing, and taking a shared view back, both need view.share
+      if (visibility !== existing.visibility && !req.access.permissions.has('view.share')) {
+        return sendForbidden(res, 'view.share');
+      }
+      updateFields.push(`visibility = $${paramCount++}`);
+      updateValues.push(visibility);
+    }
+
+    if (filters !== undefined) {
+      const parsedFilters = TaskQueryService.parseFilters(filters);
+      if (parsedFilters.error) {
+        return res.status(400).json({
+          message: parsedFilters.error
+        });
+      }
+      updateFields.push(`filters = $${paramCount++}::jsonb`);
+      updateValues.push(JSON.stringify(parsedFilters.filters));
+    }
+
+    if (sort !== undefined) {
+      let sortValue: string | null = null;
+      if (sort !== null) {
+        const parsedSort = TaskQueryService.parseSort(sort);
+        if (parsedSort.error) {
+          return res.status(400).json({
+            message: parsedSort.error
+          });
+        }
+        sortValue = TaskQueryService.formatSort(parsedSort.sort!);
+      }
+      updateFields.push(`sort = $${paramCount++}`);
+      updateValues.push(sortValue);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    updateValues.push(viewId, req.organizationId);
+
+    await executeWithRLS(req, `
+      UPDATE task_views
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++} AND organization_id = $${paramCount++}
+    `, updateValues);
+
+    const view = await TaskQueryService.findView(req, projectId!, viewId);
+
+    res.json({
+      view,
+      message: 'View updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating view:', error);
+    res.status(500).json({
+      message: 'Failed to update view'
+    });
+  }
+});
+
+// 5. Delete a saved view (owner, or view.share for shared views)
+router.delete('/:viewId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: viewParams }) as any, requirePermission('task.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getRouteProjectId(req);
+    const { viewId } = req.params;
+
+    const existing = await TaskQueryService.findView(req, projectId!, viewId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'View not found'
+      });
+    }
+
+    if (!canManageView(req, existing)) {
+      return sendForbidden(res, 'view.share');
+    }
+
+    await executeWithRLS(req, `
+      DELETE FROM task_views WHERE id = $1 AND organization_id = $2
+    `, [viewId, req.organizationId]);
+
+    res.json({
+      message: 'View deleted successfully',
+      viewId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting view:', error);
+    res.status(500).json({
+      message: 'Failed to delete view'
+    });
+  }
+});
+
+export default router;
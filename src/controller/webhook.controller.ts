@@ -0,0 +1,399 @@
+import express, { Response } from 'express';
+import * as crypto from 'crypto';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, afterCommit } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { WebhookService, WEBHOOK_EVENT_TYPES, WEBHOOK_PING_EVENT } from '../services/webhook.service';
+import { getWebhookDispatcher } from '../services/webhook-dispatcher.service';
+import { encodeCursor, decodeCursor, cursorTimestampSql } from '../utils/cursor';
+import { WebhookDeliveryStatus } from '../db/enums';
+import { validate, idParam, limitQuery, cursorQuery, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+const webhookParams = z.object({ webhookId: idParam });
+const deliveryParams = z.object({ webhookId: idParam, deliveryId: idParam });
+
+// Types only; WebhookService checks the URL and the event types
+const createWebhookBody = z.object({
+  url: z.string(),
+  eventTypes: z.array(z.string()),
+  description: z.string().nullable().default(null)
+});
+
+const updateWebhookBody = z.object({
+  url: z.string().optional(),
+  eventTypes: z.array(z.string()).optional(),
+  description: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  // true replaces the signing secret; the new one is returned once
+  rotateSecret: z.boolean().optional()
+});
+
+const deliveryQuery = z.object({
+  status: z.enum(WebhookDeliveryStatus).optional(),
+  eventType: z.string().max(100).optional(),
+  before: cursorQuery.optional(),
+  limit: limitQuery(20, 100)
+});
+
+const ENDPOINT_COLUMNS = `id, url, description, event_types, is_active, created_by, created_at, updated_at`;
+const DELIVERY_COLUMNS = `
+  id, endpoint_id, event_id, event_type, status, attempt_count, next_attempt_at, last_attempt_at,
+  response_status, response_body, error, redelivery_of, created_at, updated_at`;
+
+const getEndpoint = async (req: any, webhookId: string) => {
+  const endpoint = await executeWithRLS(req, `
+    SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints
+    WHERE id = $1 AND organization_id = $2
+  `, [webhookId, req.organizationId]);
+
+  return endpoint[0];
+};
+
+// 1. List webhook endpoints (webhook.manage); secrets are never returned after creation
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const webhooks = await executeWithRLS(req, `
+      SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints
+      WHERE organization_id = $1
+      ORDER BY created_at DESC
+    `, [req.organizationId]);
+
+    res.json({
+      webhooks,
+      count: webhooks.length,
+      eventTypes: WEBHOOK_EVENT_TYPES
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({
+      message: 'Failed to fetch webhooks'
+    });
+  }
+});
+
+// 2. Register webhook endpoint (webhook.manage)
+// Body: { url, eventTypes: ['task.created', ...] | ['*'], description? }
+router.post('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: createWebhookBody }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { url, eventTypes, description } = req.body;
+
+    const urlError = WebhookService.validateUrl(url) ?? await WebhookService.validateDestination(url);
+    if (urlError) {
+      return res.status(400).json({
+        message: urlError
+      });
+    }
+
+    const eventTypesError = WebhookService.validateEventTypes(eventTypes);
+    if (eventTypesError) {
+      return res.status(400).json({
+        message: eventTypesError
+      });
+    }
+
+    const secret = WebhookService.generateSecret();
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO webhook_endpoints (organization_id, url, description, secret, event_types, created_by)
+      VALUES ($1, $2, $3, $4, $5::text[], $6)
+      RETURNING ${ENDPOINT_COLUMNS}
+    `, [req.organizationId, url, description, secret, Array.from(new Set(eventTypes)), req.user!.userId]);
+
+    res.status(201).json({
+      webhook: result[0],
+      secret,
+      message: 'Webhook created successfully. Store the secret now; it is not shown again.'
+    });
+
+  } catch (error: any) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      message: 'Failed to create webhook'
+    });
+  }
+});
+
+// 3. Update webhook endpoint (webhook.manage)
+// Body: { url?, eventTypes?, description?, isActive?, rotateSecret? }
+router.put('/:webhookId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: webhookParams, body: updateWebhookBody }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const { url, eventTypes, description, isActive, rotateSecret } = req.body;
+
+    const existing = await getEndpoint(req, webhookId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Webhook not found'
+      });
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    if (url !== undefined) {
+      const urlError = WebhookService.validateUrl(url) ?? await WebhookService.validateDestination(url);
+      if (urlError) {
+        return res.status(400).json({
+          message: urlError
+        });
+      }
+      updateFields.push(`url = $${paramCount++}`);
+      updateValues.push(url);
+    }
+    if (eventTypes !== undefined) {
+      const eventTypesError = WebhookService.validateEventTypes(eventTypes);
+      if (eventTypesError) {
+        return res.status(400).json({
+          message: eventTypesError
+        });
+      }
+      updateFields.push(`event_types = $${paramCount++}::text[]`);
+      updateValues.push(Array.from(new Set(eventTypes)));
+    }
+    if (description !== undefined) {
+      updateFields.push(`description = $${paramCount++}`);
+      updateValues.push(description);
+    }
+    if (isActive !== undefined) {
+      updateFields.push(`is_active = $${paramCount++}`);
+      updateValues.push(isActive);
+    }
+
+    const secret = rotateSecret === true ? WebhookService.generateSecret() : undefined;
+    if (secret) {
+      updateFields.push(`secret = $${paramCount++}`);
+      updateValues.push(secret);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        message: 'No fields to update'
+      });
+    }
+
+    updateValues.push(webhookId, req.organizationId);
+
+    const result = await executeWithRLS(req, `
+      UPDATE webhook_endpoints
+      SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount++} AND organization_id = $${paramCount++}
+      RETURNING ${ENDPOINT_COLUMNS}
+    `, updateValues);
+
+    res.json({
+      webhook: result[0][0],
+      ...(secret ? { secret } : {}),
+      message: 'Webhook updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({
+      message: 'Failed to update webhook'
+    });
+  }
+});
+
+// 4. Delete webhook endpoint and its delivery log (webhook.manage)
+router.delete('/:webhookId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: webhookParams }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+
+    const existing = await getEndpoint(req, webhookId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Webhook not found'
+      });
+    }
+
+    await executeWithRLS(req, `
+      DELETE FROM webhook_endpoints WHERE id = $1 AND organization_id = $2
+    `, [webhookId, req.organizationId]);
+
+    res.json({
+      message: 'Webhook deleted successfully',
+      webhookId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      message: 'Failed to delete webhook'
+    });
+  }
+});
+
+// 5. Delivery log, newest first (webhook.manage)
+//   ?status=pending|succeeded|failed  ?eventType=  ?before=<cursor>  ?limit=
+router.get('/:webhookId/deliveries', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: webhookParams, query: deliveryQuery }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const { status, eventType, before, limit } = req.query;
+
+    const cursor = before ? decodeCursor(before) : null;
+    if (before && !cursor) {
+      return res.status(400).json({ code: 'invalid_cursor', message: 'Invalid pagination cursor' });
+    }
+
+    const existing = await getEndpoint(req, webhookId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Webhook not found'
+      });
+    }
+
+    const conditions = ['endpoint_id = $1', 'organization_id = $2'];
+    const values: any[] = [webhookId, req.organizationId];
+
+    if (status) {
+      values.push(status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (eventType) {
+      values.push(String(eventType));
+      conditions.push(`event_type = $${values.length}`);
+    }
+    if (cursor) {
+      values.push(cursor.t, cursor.id);
+      conditions.push(`(created_at, id) < (CAST($${values.length - 1} AS timestamptz), CAST($${values.length} AS bigint))`);
+    }
+    values.push(limit + 1);
+
+    const rows = await executeWithRLS(req, `
+      SELECT ${DELIVERY_COLUMNS}, ${cursorTimestampSql('created_at')} as cursor_ts
+      FROM webhook_deliveries
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${values.length}
+    `, values);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    res.json({
+      deliveries: page.map(({ cursor_ts, ...delivery }: any) => delivery),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor({ t: last.cursor_ts, id: String(last.id) }) : null
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({
+      message: 'Failed to fetch webhook deliveries'
+    });
+  }
+});
+
+// 6. Get one delivery including the payload that was sent (webhook.manage)
+router.get('/:webhookId/deliveries/:deliveryId', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: deliveryParams }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId, deliveryId } = req.params;
+
+    const delivery = await executeWithRLS(req, `
+      SELECT ${DELIVERY_COLUMNS}, payload
+      FROM webhook_deliveries
+      WHERE id = $1 AND endpoint_id = $2 AND organization_id = $3
+    `, [deliveryId, webhookId, req.organizationId]);
+
+    if (delivery.length === 0) {
+      return res.status(404).json({
+        message: 'Delivery not found'
+      });
+    }
+
+    res.json({
+      delivery: delivery[0]
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching webhook delivery:', error);
+    res.status(500).json({
+      message: 'Failed to fetch webhook delivery'
+    });
+  }
+});
+
+// 7. Redeliver an event (webhook.manage); queues a new delivery with the same event id and payload
+router.post('/:webhookId/deliveries/:deliveryId/redeliver', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: deliveryParams }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId, deliveryId } = req.params;
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO webhook_deliveries (organization_id, endpoint_id, event_id, event_type, payload, redelivery_of)
+      SELECT organization_id, endpoint_id, event_id, event_type, payload, id
+      FROM webhook_deliveries
+      WHERE id = $1 AND endpoint_id = $2 AND organization_id = $3
+      RETURNING ${DELIVERY_COLUMNS}
+    `, [deliveryId, webhookId, req.organizationId]);
+
+    if (result.length === 0) {
+      return res.status(404).json({
+        message: 'Delivery not found'
+      });
+    }
+
+    afterCommit(req, () => getWebhookDispatcher()?.trigger());
+
+    res.status(202).json({
+      delivery: result[0],
+      message: 'Redelivery queued'
+    });
+
+  } catch (error: any) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({
+      message: 'Failed to redeliver webhook'
+    });
+  }
+});
+
+// 8. Send a test event to the endpoint (webhook.manage)
+router.post('/:webhookId/ping', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ params: webhookParams }) as any, requirePermission('webhook.manage') as any, async (req: any, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+
+    const existing = await getEndpoint(req, webhookId);
+    if (!existing) {
+      return res.status(404).json({
+        message: 'Webhook not found'
+      });
+    }
+
+    const payload = {
+      id: `ping_${crypto.randomBytes(8).toString('hex')}`,
+      type: WEBHOOK_PING_EVENT,
+      createdAt: new Date().toISOString(),
+      organizationId: String(req.organizationId),
+      data: { webhookId: String(webhookId) }
+    };
+
+    const result = await executeWithRLS(req, `
+      INSERT INTO webhook_deliveries (organization_id, endpoint_id, event_id, event_type, payload)
+      VALUES ($1, $2, $3, $4, $5::jsonb)
+      RETURNING ${DELIVERY_COLUMNS}
+    `, [req.organizationId, webhookId, payload.id, payload.type, JSON.stringify(payload)]);
+
+    afterCommit(req, () => getWebhookDispatcher()?.trigger());
+
+    res.status(202).json({
+      delivery: result[0],
+      message: 'Ping queued'
+    });
+
+  } catch (error: any) {
+    console.error('Error pinging webhook:', error);
+    res.status(500).json({
+      message: 'Failed to ping webhook'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,153 @@
+import express, { Response } from 'express';
+import { jwtMiddleware, setOrganizationContext, requireOrganization, executeWithRLS, requestContext } from '../utils/middleware/jwtMiddleWare';
+import { requirePermission } from '../utils/middleware/permissionMiddleware';
+import { WorkflowService, WorkflowStatusInput } from '../services/workflow.service';
+import { StatusCategory } from '../db/enums';
+import { validate, noInput } from '../utils/middleware/validationMiddleware';
+import { z } from 'zod';
+
+const router = express.Router();
+
+// WorkflowService.validateDefinition checks keys, counts and transition targets
+const updateWorkflowBody = z.object({
+  statuses: z.array(z.object({
+    key: z.string(),
+    name: z.string(),
+    category: z.enum(StatusCategory),
+    // null or omitted allows every transition
+    allowedTransitions: z.array(z.string()).nullable().optional()
+  })),
+  // { removedKey: newKey } for statuses that tasks still use
+  remap: z.record(z.string(), z.string()).default({})
+});
+
+// Extract projectId from the original URL since it's not in req.params
+const getProjectId = (req: any) => {
+  const urlMatch = req.originalUrl?.match(/\/projects\/([^\/]+)\/workflow/);
+  return req.params.projectId || urlMatch?.[1];
+};
+
+// 1. Get project workflow (ordered statuses)
+router.get('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ query: noInput }) as any, requirePermission('project.view') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getProjectId(req);
+
+    const statuses = await WorkflowService.getStatuses(requestContext(req), projectId);
+
+    res.json({
+      statuses,
+      initialStatus: WorkflowService.getInitialStatus(statuses)?.key || null
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching workflow:', error);
+    res.status(500).json({
+      message: 'Failed to fetch workflow'
+    });
+  }
+});
+
+// 2. Replace project workflow (workflow.update)
+// Body: { statuses: [{ key, name, category, allowedTransitions? }], remap?: { REMOVED_KEY: NEW_KEY } }
+// Statuses are ordered as given; removed statuses still used by tasks must be remapped.
+router.put('/', jwtMiddleware as any, setOrganizationContext as any, requireOrganization as any, validate({ body: updateWorkflowBody }) as any, requirePermission('workflow.update') as any, async (req: any, res: Response) => {
+  try {
+    const projectId = getProjectId(req);
+    const { statuses, remap } = req.body;
+
+    const definitionError = WorkflowService.validateDefinition(statuses);
+    if (definitionError) {
+      return res.status(400).json({
+        message: definitionError
+      });
+    }
+
+    const newKeys = new Set((statuses as WorkflowStatusInput[]).map((status) => status.key));
+    const invalidTarget = Object.values(remap as Record<string, string>).find((key) => !newKeys.has(key));
+    if (invalidTarget) {
+      return res.status(400).json({
+        message: `remap target "${invalidTarget}" is not part of the new workflow`
+      });
+    }
+
+    const current = await WorkflowService.getStatuses(requestContext(req), projectId);
+    const removedKeys = current.map((status) => status.key).filter((key) => !newKeys.has(key));
+
+    if (removedKeys.length > 0) {
+      const inUse = await executeWithRLS(req, `
+        SELECT status, COUNT(*)::int as count
+        FROM tasks
+        WHERE project_id = $1 AND organization_id = $2 AND status = ANY($3::varchar[])
+        GROUP BY status
+      `, [projectId, req.organizationId, removedKeys]);
+
+      const unmapped = inUse.filter((row: any) => !remap[row.status]);
+      if (unmapped.length > 0) {
+        return res.status(409).json({
+          message: 'Removed statuses are still used by tasks; provide a remap for them',
+          statuses: unmapped
+        });
+      }
+    }
+
+    // Upsert the submitted statuses in order
+    const rows = (statuses as WorkflowStatusInput[]).map((status, index) => ({
+      key: status.key,
+      name: status.name.trim(),
+      category: status.category,
+      position: index,
+      allowed_transitions: status.allowedTransitions ?? null
+    }));
+
+    await executeWithRLS(req, `
+      INSERT INTO workflow_statuses (organization_id, project_id, key, name, category, position, allowed_transitions)
+      SELECT $1, $2, s.key, s.name, s.category::status_category, s.position, s.allowed_transitions
+      FROM jsonb_to_recordset($3::jsonb)
+        AS s(key varchar, name varchar, category text, position int, allowed_transitions varchar[])
+      ON CONFLICT (project_id, key) DO UPDATE
+      SET name = EXCLUDED.name,
+          category = EXCLUDED.category,
+          position = EXCLUDED.position,
+          allowed_transitions = EXCLUDED.allowed_transitions
+    `, [req.organizationId, projectId, JSON.stringify(rows)]);
+
+    if (removedKeys.length > 0) {
+      // Move tasks off removed statuses, then drop them
+      for (const key of removedKeys) {
+        if (remap[key]) {
+          await executeWithRLS(req, `
+            UPDATE tasks SET status = $1, updated_by = $2, updated_at = now()
+            WHERE project_id = $3 AND organization_id = $4 AND status = $5
+          `, [remap[key], req.user!.userId, projectId, req.organizationId, key]);
+        }
+      }
+
+      await executeWithRLS(req, `
+        DELETE FROM workflow_statuses
+        WHERE project_id = $1 AND organization_id = $2 AND key = ANY($3::varchar[])
+      `, [projectId, req.organizationId, removedKeys]);
+    }
+
+    const updated = await WorkflowService.getStatuses(requestContext(req), projectId);
+
+    res.json({
+      statuses: updated,
+      initialStatus: WorkflowService.getInitialStatus(updated)?.key || null,
+      message: 'Workflow updated successfully'
+    });
+
+  } catch (error: any) {
+    // FK violation: a task moved onto a removed status concurrently
+    if (error.code === '23503') {
+      return res.status(409).json({
+        message: 'Removed statuses are still used by tasks; provide a remap for them'
+      });
+    }
+    console.error('Error updating workflow:', error);
+    res.status(500).json({
+      message: 'Failed to update workflow'
+    });
+  }
+});
+
+export default router;
@@ -8,6 +8,25 @@ import { Project } from './entity/project.entity';
 import { ProjectMember } from './entity/project-member.entity';
 import { Task } from './entity/task.entity';
 import { Activity } from './entity/activity.entity';
+import { RefreshToken } from './entity/refresh-token.entity';
+import { Invitation } from './entity/invitation.entity';
+import { TaskComment } from './entity/task-comment.entity';
+import { TaskEvent } from './entity/task-event.entity';
+import { WorkflowStatus } from './entity/workflow-status.entity';
+import { CustomRole } from './entity/custom-role.entity';
+import { WebhookEndpoint } from './entity/webhook-endpoint.entity';
+import { WebhookDelivery } from './entity/webhook-delivery.entity';
+import { TaskView } from './entity/task-view.entity';
+import { TaskLink } from './entity/task-link.entity';
+import { Label } from './entity/label.entity';
+import { TaskLabel } from './entity/task-label.entity';
+import { RecurringTask } from './entity/recurring-task.entity';
+import { TaskReminder } from './entity/task-reminder.entity';
+import { TaskReminderSnooze } from './entity/task-reminder-snooze.entity';
+import { Notification } from './entity/notification.entity';
+import { NotificationPreference } from './entity/notification-preference.entity';
+import { DigestSubscription } from './entity/digest-subscription.entity';
+import { OutboxEvent } from './entity/outbox-event.entity';
 
 config();
 
@@ -18,7 +37,7 @@ export const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'password',
   database: process.env.DB_NAME || 'multi_tenant',
-  entities: [User, Organization, OrgMembership, Project, ProjectMember, Task, Activity],
+  entities: [User, Organization, OrgMembership, Project, ProjectMember, Task, Activity, RefreshToken, Invitation, TaskComment, TaskEvent, WorkflowStatus, CustomRole, WebhookEndpoint, WebhookDelivery, TaskView, TaskLink, Label, TaskLabel, RecurringTask, TaskReminder, TaskReminderSnooze, Notification, NotificationPreference, DigestSubscription, OutboxEvent],
   migrations: ['src/migrations/*.ts'],
   synchronize: false,
   logging: process.env.NODE_ENV === 'development',
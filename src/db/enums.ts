@@ -9,12 +9,19 @@ export enum ProjectRole {
   VIEWER = 'VIEWER' 
 }
 
+// Keys of the default workflow seeded for every project; projects can define their own statuses
 export enum TaskStatus { 
   TODO = 'TODO', 
   INPROGRESS = 'INPROGRESS', 
   DONE = 'DONE' 
 }
 
+export enum StatusCategory { 
+  TODO = 'todo', 
+  ACTIVE = 'active', 
+  DONE = 'done' 
+}
+
 export enum ActivityKind { 
   WARN = 'WARN', 
   ALERT = 'ALERT', 
@@ -22,3 +29,59 @@ export enum ActivityKind {
   ANNOUNCE = 'ANNOUNCE', 
   SHOW = 'SHOW' 
 }
+
+export enum RoleScope { 
+  ORGANIZATION = 'organization', 
+  PROJECT = 'project' 
+}
+
+export enum WebhookDeliveryStatus { 
+  PENDING = 'pending', 
+  SUCCEEDED = 'succeeded', 
+  FAILED = 'failed' 
+}
+
+export enum TaskViewVisibility { 
+  PERSONAL = 'personal', 
+  PROJECT = 'project' 
+}
+
+export enum TaskLinkType { 
+  BLOCKS = 'blocks', 
+  RELATES_TO = 'relates_to', 
+  DUPLICATES = 'duplicates' 
+}
+
+// What happens when a task with open blockers is moved to a done status
+export enum BlockerPolicy { 
+  WARN = 'warn', 
+  BLOCK = 'block' 
+}
+
+export enum TaskReminderKind { 
+  DUE_SOON = 'due_soon', 
+  OVERDUE = 'overdue', 
+  ESCALATED = 'escalated' 
+}
+
+export enum NotificationType { 
+  TASK_ASSIGNED = 'task_assigned', 
+  MENTIONED = 'mentioned', 
+  TASK_STATUS_CHANGED = 'task_status_changed', 
+  ROLE_CHANGED = 'role_changed', 
+  TASK_DUE_SOON = 'task_due_soon', 
+  TASK_OVERDUE = 'task_overdue', 
+  MEMBER_ADDED = 'member_added' 
+}
+
+export enum NotificationChannel { 
+  IN_APP = 'in_app', 
+  EMAIL = 'email', 
+  NONE = 'none' 
+}
+
+export enum DigestFrequency { 
+  NONE = 'none', 
+  DAILY = 'daily', 
+  WEEKLY = 'weekly' 
+}
\ No newline at end of file
@@ -16,12 +16,13 @@ export class Activity {
   @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
   organization!: Organization;
 
-  @Column({ name: 'actor_id', type: 'bigint' })
-  actorId!: string;
+  // NULL for system actions (e.g. tasks created by the recurring task scheduler)
+  @Column({ name: 'actor_id', type: 'bigint', nullable: true })
+  actorId!: string | null;
 
   @ManyToOne(() => User, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'actor_id', referencedColumnName: 'id' })
-  actor!: User;
+  actor?: User | null;
 
   @Column({ type: 'enum', enum: ActivityKind, enumName: 'activity_kind' })
   kind!: ActivityKind;
@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+import { RoleScope } from '../db/enums';
+
+@Entity({ name: 'custom_roles' })
+@Index(['organizationId', 'id'], { unique: true })
+export class CustomRole {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 60 })
+  name!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  // organization: assigned on org memberships, project: assigned on project memberships
+  @Column({ type: 'enum', enum: RoleScope, enumName: 'role_scope', default: RoleScope.ORGANIZATION })
+  scope!: RoleScope;
+
+  // Action names from the permission policy, granted on top of the member's base role
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  permissions!: string[];
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,42 @@
+import { Entity, PrimaryColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { DigestFrequency } from '../db/enums';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+// Activity digest mail for the user in an organization (see DigestScheduler)
+@Entity({ name: 'digest_subscriptions' })
+@Index(['nextRunAt'])
+export class DigestSubscription {
+  @PrimaryColumn({ name: 'user_id', type: 'bigint' })
+  userId!: string;
+
+  @PrimaryColumn({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user!: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'enum', enum: DigestFrequency, enumName: 'digest_frequency', default: DigestFrequency.NONE })
+  frequency!: DigestFrequency;
+
+  @Column({ name: 'next_run_at', type: 'timestamptz', nullable: true })
+  nextRunAt?: Date | null;
+
+  // End of the period covered by the last digest sent
+  @Column({ name: 'last_sent_at', type: 'timestamptz', nullable: true })
+  lastSentAt?: Date | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
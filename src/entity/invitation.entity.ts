@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+import { OrgRole } from '../db/enums';
+
+@Entity({ name: 'invitations' })
+@Index(['organizationId', 'createdAt'])
+export class Invitation {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'citext' })
+  email!: string;
+
+  @Column({ type: 'enum', enum: OrgRole, enumName: 'org_role', default: OrgRole.USER })
+  role!: OrgRole;
+
+  // Custom role assigned to the membership on acceptance
+  @Column({ name: 'custom_role_id', type: 'bigint', nullable: true })
+  customRoleId?: string | null;
+
+  // sha256 of the emailed token; the raw token is never stored
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', type: 'text' })
+  tokenHash!: string;
+
+  @Column({ name: 'invited_by', type: 'bigint', nullable: true })
+  invitedBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'invited_by', referencedColumnName: 'id' })
+  invitedByUser?: User | null;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt!: Date;
+
+  @Column({ name: 'accepted_at', type: 'timestamptz', nullable: true })
+  acceptedAt?: Date | null;
+
+  @Column({ name: 'accepted_by', type: 'bigint', nullable: true })
+  acceptedBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'accepted_by', referencedColumnName: 'id' })
+  acceptedByUser?: User | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamptz', nullable: true })
+  revokedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+// Organization-wide label; names are unique per organization regardless of case (idx_labels_org_name)
+@Entity({ name: 'labels' })
+@Index(['organizationId', 'id'], { unique: true })
+export class Label {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 50 })
+  name!: string;
+
+  // Lowercase hex, e.g. #1f77b4
+  @Column({ type: 'char', length: 7 })
+  color!: string;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  description?: string | null;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { NotificationChannel, NotificationType } from '../db/enums';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+// How one notification type reaches the user in an organization; no row means in-app
+@Entity({ name: 'notification_preferences' })
+export class NotificationPreference {
+  @PrimaryColumn({ name: 'user_id', type: 'bigint' })
+  userId!: string;
+
+  @PrimaryColumn({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @PrimaryColumn({ name: 'event_type', type: 'enum', enum: NotificationType, enumName: 'notification_type' })
+  eventType!: NotificationType;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user!: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'enum', enum: NotificationChannel, enumName: 'notification_channel' })
+  channel!: NotificationChannel;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
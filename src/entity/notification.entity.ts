@@ -0,0 +1,56 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { NotificationType } from '../db/enums';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+// Per-user inbox entry (see NotificationService)
+@Entity({ name: 'notifications' })
+@Index(['userId', 'organizationId', 'createdAt'])
+export class Notification {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  // Recipient
+  @Column({ name: 'user_id', type: 'bigint' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user!: User;
+
+  // NULL for system notifications (e.g. due-date reminders)
+  @Column({ name: 'actor_id', type: 'bigint', nullable: true })
+  actorId!: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id', referencedColumnName: 'id' })
+  actor?: User | null;
+
+  @Column({ type: 'enum', enum: NotificationType, enumName: 'notification_type' })
+  type!: NotificationType;
+
+  @Column({ type: 'text' })
+  message!: string;
+
+  @Column({ name: 'object_type', type: 'varchar', length: 40, nullable: true })
+  objectType?: string | null;
+
+  @Column({ name: 'object_id', type: 'bigint', nullable: true })
+  objectId?: string | null;
+
+  @Column({ type: 'jsonb', default: () => `'{}'::jsonb` })
+  data!: Record<string, any>;
+
+  @Column({ name: 'read_at', type: 'timestamptz', nullable: true })
+  readAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -16,6 +16,10 @@ export class OrgMembership {
   @Column({ type: 'enum', enum: OrgRole, enumName: 'org_role', default: OrgRole.USER })
   role!: OrgRole;
 
+  // Optional org-scoped custom role, granted on top of the base role
+  @Column({ name: 'custom_role_id', type: 'bigint', nullable: true })
+  customRoleId?: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
@@ -18,6 +18,14 @@ export class Organization {
   @Column({ type: 'varchar', length: 120, name: 'room_key' })
   roomKey!: string;
 
+  // Days before a task's due date at which its assignee is reminded
+  @Column({ name: 'reminder_lead_days', type: 'int', array: true, default: () => `'{1}'` })
+  reminderLeadDays!: number[];
+
+  // Days overdue after which an overdue task is escalated from WARN to ALERT
+  @Column({ name: 'overdue_escalation_days', type: 'int', default: 3 })
+  overdueEscalationDays!: number;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
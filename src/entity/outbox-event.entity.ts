@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+// Side effects of a domain change, written in its transaction (see OutboxService)
+@Entity({ name: 'outbox_events' })
+@Index(['nextAttemptAt', 'id'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 60 })
+  eventType!: string;
+
+  @Column({ name: 'aggregate_type', type: 'varchar', length: 40 })
+  aggregateType!: string;
+
+  @Column({ name: 'aggregate_id', type: 'bigint' })
+  aggregateId!: string;
+
+  @Column({ name: 'actor_id', type: 'bigint', nullable: true })
+  actorId!: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id', referencedColumnName: 'id' })
+  actor?: User | null;
+
+  @Column({ type: 'jsonb', default: () => `'{}'::jsonb` })
+  payload!: Record<string, any>;
+
+  @Column({ name: 'attempt_count', type: 'int', default: 0 })
+  attemptCount!: number;
+
+  // NULL once processed, or when the last attempt failed for good
+  @Column({ name: 'next_attempt_at', type: 'timestamptz', nullable: true })
+  nextAttemptAt?: Date | null;
+
+  @Column({ name: 'processed_at', type: 'timestamptz', nullable: true })
+  processedAt?: Date | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -18,6 +18,10 @@ export class ProjectMember {
   @Column({ type: 'enum', enum: ProjectRole, enumName: 'project_role', default: ProjectRole.VIEWER })
   role!: ProjectRole;
 
+  // Optional project-scoped custom role, granted on top of the base role
+  @Column({ name: 'custom_role_id', type: 'bigint', nullable: true })
+  customRoleId?: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
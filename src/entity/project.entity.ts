@@ -2,6 +2,7 @@ import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, OneToMany, Cr
 import { Organization } from './organization.entity';
 import { ProjectMember } from './project-member.entity';
 import { Task } from './task.entity';
+import { BlockerPolicy } from '../db/enums';
 
 @Entity({ name: 'projects' })
 @Index(['organizationId', 'slug'], { unique: true })
@@ -22,12 +23,23 @@ export class Project {
   @Column({ type: 'varchar', length: 140 })
   slug!: string;
 
+  // Moving a task with open blockers to a done status: 'warn' allows it with a warning, 'block' refuses it
+  @Column({ name: 'blocker_policy', type: 'enum', enum: BlockerPolicy, enumName: 'blocker_policy', default: BlockerPolicy.WARN })
+  blockerPolicy!: BlockerPolicy;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
   @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
   updatedAt!: Date;
 
+  // Maintained by Postgres (generated column), used by GET /search
+  @Column({ name: 'search_vector', type: 'tsvector', select: false, insert: false, update: false, nullable: true })
+  searchVector?: string | null;
+
   @OneToMany(() => ProjectMember, pm => pm.project) 
   members!: ProjectMember[];
   
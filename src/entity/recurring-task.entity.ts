@@ -0,0 +1,92 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Project } from './project.entity';
+import { User } from './user.entity';
+
+// Template that materializes a task for every occurrence of an iCalendar RRULE (see RecurringTaskService)
+@Entity({ name: 'recurring_tasks' })
+@Index(['organizationId', 'projectId'])
+export class RecurringTask {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ type: 'varchar', length: 200 })
+  title!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  // Workflow status key for new tasks; null uses the project's initial status
+  @Column({ type: 'varchar', length: 40, nullable: true })
+  status?: string | null;
+
+  @Column({ type: 'smallint', nullable: true })
+  priority?: number | null;
+
+  @Column({ name: 'assignee_id', type: 'bigint', nullable: true })
+  assigneeId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignee_id', referencedColumnName: 'id' })
+  assignee?: User | null;
+
+  // Days from the occurrence date to the task's due date; null means no due date
+  @Column({ name: 'due_in_days', type: 'int', nullable: true })
+  dueInDays?: number | null;
+
+  // e.g. FREQ=WEEKLY;BYDAY=MO
+  @Column({ type: 'text' })
+  rrule!: string;
+
+  // IANA timezone the rule and time_of_day are evaluated in
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone!: string;
+
+  @Column({ name: 'starts_on', type: 'date' })
+  startsOn!: string;
+
+  @Column({ name: 'time_of_day', type: 'time', default: '09:00' })
+  timeOfDay!: string;
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive!: boolean;
+
+  // Next occurrence without a task; null once the series has ended
+  @Column({ name: 'next_run_at', type: 'timestamptz', nullable: true })
+  nextRunAt?: Date | null;
+
+  @Column({ name: 'last_run_at', type: 'timestamptz', nullable: true })
+  lastRunAt?: Date | null;
+
+  @Column({ name: 'occurrence_count', type: 'int', default: 0 })
+  occurrenceCount!: number;
+
+  // Why the scheduler deactivated the template, if it did
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, OneToMany, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+@Entity({ name: 'task_comments' })
+@Index(['taskId', 'createdAt'])
+@Index(['organizationId', 'projectId'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @Column({ name: 'task_id', type: 'bigint' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id', referencedColumnName: 'id' })
+  task!: Task;
+
+  @Column({ name: 'parent_id', type: 'bigint', nullable: true })
+  parentId?: string | null;
+
+  @ManyToOne(() => TaskComment, c => c.replies, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id', referencedColumnName: 'id' })
+  parent?: TaskComment | null;
+
+  @OneToMany(() => TaskComment, c => c.parent)
+  replies!: TaskComment[];
+
+  @Column({ name: 'author_id', type: 'bigint', nullable: true })
+  authorId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'author_id', referencedColumnName: 'id' })
+  author?: User | null;
+
+  @Column({ type: 'text' })
+  body!: string;
+
+  // User ids resolved from @username mentions against the project's members
+  @Column({ type: 'bigint', array: true, default: () => `'{}'` })
+  mentions!: string[];
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+
+  // Maintained by Postgres (generated column), used by GET /search
+  @Column({ name: 'search_vector', type: 'tsvector', select: false, insert: false, update: false, nullable: true })
+  searchVector?: string | null;
+}
@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from './user.entity';
+
+export type TaskEventType = 'created' | 'updated' | 'deleted';
+
+export type TaskFieldChanges = Record<string, { from: any; to: any }>;
+
+@Entity({ name: 'task_events' })
+@Index(['taskId', 'createdAt'])
+@Index(['organizationId', 'projectId'])
+export class TaskEvent {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  // No relation on purpose: events outlive the task they describe
+  @Column({ name: 'task_id', type: 'bigint' })
+  taskId!: string;
+
+  @Column({ name: 'actor_id', type: 'bigint', nullable: true })
+  actorId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id', referencedColumnName: 'id' })
+  actor?: User | null;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 20 })
+  eventType!: TaskEventType;
+
+  @Column({ type: 'jsonb', default: () => `'{}'::jsonb` })
+  changes!: TaskFieldChanges;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -0,0 +1,50 @@
+import { Entity, PrimaryColumn, Column, Index, ManyToOne, CreateDateColumn, JoinColumn } from 'typeorm';
+import { Label } from './label.entity';
+import { Project } from './project.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+// Label assignment; organization_id/project_id mirror the task so the tasks RLS rules apply
+@Entity({ name: 'task_labels' })
+@Index(['labelId', 'taskId'])
+export class TaskLabel {
+  @PrimaryColumn({ name: 'task_id', type: 'bigint' })
+  taskId!: string;
+
+  @PrimaryColumn({ name: 'label_id', type: 'bigint' })
+  labelId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id', referencedColumnName: 'id' })
+  task!: Task;
+
+  @ManyToOne(() => Label, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'label_id', referencedColumnName: 'id' },
+  ])
+  label!: Label;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
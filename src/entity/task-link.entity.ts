@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, JoinColumn } from 'typeorm';
+import { Project } from './project.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+import { TaskLinkType } from '../db/enums';
+
+// Directed link: source blocks / duplicates / relates to target
+@Entity({ name: 'task_links' })
+@Index(['sourceTaskId', 'targetTaskId', 'linkType'], { unique: true })
+@Index(['targetTaskId', 'linkType'])
+export class TaskLink {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  // Project of the source task
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ name: 'source_task_id', type: 'bigint' })
+  sourceTaskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'source_task_id', referencedColumnName: 'id' })
+  sourceTask!: Task;
+
+  @Column({ name: 'target_task_id', type: 'bigint' })
+  targetTaskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'target_task_id', referencedColumnName: 'id' })
+  targetTask!: Task;
+
+  @Column({ name: 'link_type', type: 'enum', enum: TaskLinkType, enumName: 'task_link_type' })
+  linkType!: TaskLinkType;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
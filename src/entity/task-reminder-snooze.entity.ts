@@ -0,0 +1,36 @@
+import { Entity, PrimaryColumn, Column, Index, ManyToOne, CreateDateColumn, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+// Reminders for the task are held back for the user until snoozedUntil
+@Entity({ name: 'task_reminder_snoozes' })
+@Index(['userId', 'organizationId'])
+export class TaskReminderSnooze {
+  @PrimaryColumn({ name: 'task_id', type: 'bigint' })
+  taskId!: string;
+
+  @PrimaryColumn({ name: 'user_id', type: 'bigint' })
+  userId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id', referencedColumnName: 'id' })
+  task!: Task;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user!: User;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ name: 'snoozed_until', type: 'timestamptz' })
+  snoozedUntil!: Date;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+}
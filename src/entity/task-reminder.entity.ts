@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { Project } from './project.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+import { TaskReminderKind } from '../db/enums';
+
+// Reminder sent by the reminder job (see TaskReminderService); keyed by the due date it was sent for
+@Entity({ name: 'task_reminders' })
+@Index(['taskId', 'kind', 'dueDate', 'leadDays'], { unique: true })
+@Index(['userId', 'sentAt'])
+export class TaskReminder {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ name: 'task_id', type: 'bigint' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id', referencedColumnName: 'id' })
+  task!: Task;
+
+  @Column({ type: 'enum', enum: TaskReminderKind, enumName: 'task_reminder_kind' })
+  kind!: TaskReminderKind;
+
+  @Column({ name: 'due_date', type: 'date' })
+  dueDate!: string;
+
+  // Lead time of a due_soon reminder; 0 for the overdue kinds
+  @Column({ name: 'lead_days', type: 'int', default: 0 })
+  leadDays!: number;
+
+  // Assignee the reminder went to; null for unassigned tasks
+  @Column({ name: 'user_id', type: 'bigint', nullable: true })
+  userId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user?: User | null;
+
+  @Column({ name: 'sent_at', type: 'timestamptz', default: () => 'now()' })
+  sentAt!: Date;
+}
@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Project } from './project.entity';
+import { User } from './user.entity';
+import { TaskViewVisibility } from '../db/enums';
+
+@Entity({ name: 'task_views' })
+@Index(['organizationId', 'projectId', 'visibility'])
+@Index(['ownerId', 'projectId'])
+export class TaskView {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ name: 'owner_id', type: 'bigint' })
+  ownerId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id', referencedColumnName: 'id' })
+  owner!: User;
+
+  @Column({ type: 'varchar', length: 80 })
+  name!: string;
+
+  @Column({ type: 'enum', enum: TaskViewVisibility, enumName: 'task_view_visibility', default: TaskViewVisibility.PERSONAL })
+  visibility!: TaskViewVisibility;
+
+  // Normalized filters as produced by TaskQueryService.parseFilters
+  @Column({ type: 'jsonb', default: () => "'{}'::jsonb" })
+  filters!: Record<string, any>;
+
+  // Sort string in query form, e.g. "-priority,due_date"; null uses the default order
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  sort?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
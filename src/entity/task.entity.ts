@@ -1,11 +1,13 @@
-import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, OneToMany, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
 import { Project } from './project.entity';
 import { User } from './user.entity';
+import { RecurringTask } from './recurring-task.entity';
 import { TaskStatus } from '../db/enums';
 
 @Entity({ name: 'tasks' })
 @Index(['organizationId', 'projectId', 'status'])
 @Index(['organizationId', 'assigneeId', 'status'])
+@Index(['projectId', 'status', 'boardRank'])
 export class Task {
   @PrimaryGeneratedColumn('increment', { type: 'bigint' })
   id!: string;
@@ -23,6 +25,17 @@ export class Task {
   ])
   project!: Project;
 
+  // Parent task for subtasks (one level deep, same project)
+  @Column({ name: 'parent_id', type: 'bigint', nullable: true })
+  parentId?: string | null;
+
+  @ManyToOne(() => Task, t => t.subtasks, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parent_id', referencedColumnName: 'id' })
+  parent?: Task | null;
+
+  @OneToMany(() => Task, t => t.parent)
+  subtasks!: Task[];
+
   @Column({ name: 'assignee_id', type: 'bigint', nullable: true })
   assigneeId!: string | null;
 
@@ -37,8 +50,9 @@ export class Task {
   @JoinColumn({ name: 'assigned_by_id', referencedColumnName: 'id' })
   assignedBy?: User | null;
 
-  @Column({ type: 'enum', enum: TaskStatus, enumName: 'task_status', default: TaskStatus.TODO })
-  status!: TaskStatus;
+  // Key of a workflow_statuses row of the same project
+  @Column({ type: 'varchar', length: 40, default: TaskStatus.TODO })
+  status!: string;
 
   @Column({ type: 'varchar', length: 200 })
   title!: string;
@@ -52,8 +66,9 @@ export class Task {
   @Column({ type: 'smallint', nullable: true })
   priority?: number | null;
 
-  @Column({ name: 'order_in_board', type: 'int', default: 0 })
-  orderInBoard!: number;
+  // Lexicographic position within the status column; see TaskRankService
+  @Column({ name: 'board_rank', type: 'varchar', length: 64, collation: 'C', nullable: true })
+  boardRank?: string | null;
 
   @Column({ name: 'created_by', type: 'bigint', nullable: true })
   createdBy?: string | null;
@@ -69,9 +84,24 @@ export class Task {
   @JoinColumn({ name: 'updated_by', referencedColumnName: 'id' })
   updatedByUser?: User | null;
 
+  // Template and occurrence this task was materialized for; unique together (idx_tasks_recurring_occurrence)
+  @Column({ name: 'recurring_task_id', type: 'bigint', nullable: true })
+  recurringTaskId?: string | null;
+
+  @ManyToOne(() => RecurringTask, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'recurring_task_id', referencedColumnName: 'id' })
+  recurringTask?: RecurringTask | null;
+
+  @Column({ name: 'occurrence_at', type: 'timestamptz', nullable: true })
+  occurrenceAt?: Date | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt!: Date;
 
   @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
   updatedAt!: Date;
+
+  // Maintained by Postgres (generated column), used by GET /search
+  @Column({ name: 'search_vector', type: 'tsvector', select: false, insert: false, update: false, nullable: true })
+  searchVector?: string | null;
 }
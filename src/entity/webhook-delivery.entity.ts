@@ -0,0 +1,60 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import { WebhookDeliveryStatus } from '../db/enums';
+
+@Entity({ name: 'webhook_deliveries' })
+@Index(['endpointId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'endpoint_id', type: 'bigint' })
+  endpointId!: string;
+
+  @ManyToOne(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'endpoint_id', referencedColumnName: 'id' })
+  endpoint!: WebhookEndpoint;
+
+  // Stable across retries and redeliveries so receivers can deduplicate
+  @Column({ name: 'event_id', type: 'varchar', length: 64 })
+  eventId!: string;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 60 })
+  eventType!: string;
+
+  @Column({ type: 'jsonb' })
+  payload!: Record<string, any>;
+
+  @Column({ type: 'enum', enum: WebhookDeliveryStatus, enumName: 'webhook_delivery_status', default: WebhookDeliveryStatus.PENDING })
+  status!: WebhookDeliveryStatus;
+
+  @Column({ name: 'attempt_count', type: 'int', default: 0 })
+  attemptCount!: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamptz', nullable: true })
+  nextAttemptAt?: Date | null;
+
+  @Column({ name: 'last_attempt_at', type: 'timestamptz', nullable: true })
+  lastAttemptAt?: Date | null;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus?: number | null;
+
+  @Column({ name: 'response_body', type: 'text', nullable: true })
+  responseBody?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  @Column({ name: 'redelivery_of', type: 'bigint', nullable: true })
+  redeliveryOf?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+
+@Entity({ name: 'webhook_endpoints' })
+@Index(['organizationId'])
+export class WebhookEndpoint {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id', referencedColumnName: 'id' })
+  organization!: Organization;
+
+  @Column({ type: 'text' })
+  url!: string;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  description?: string | null;
+
+  // HMAC signing secret; only returned to the client when the endpoint is created
+  @Column({ type: 'text', select: false })
+  secret!: string;
+
+  // Subscribed event types (e.g. 'task.created'); '*' subscribes to everything
+  @Column({ name: 'event_types', type: 'text', array: true, default: () => "'{}'" })
+  eventTypes!: string[];
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive!: boolean;
+
+  @Column({ name: 'created_by', type: 'bigint', nullable: true })
+  createdBy?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by', referencedColumnName: 'id' })
+  createdByUser?: User | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Project } from './project.entity';
+import { StatusCategory } from '../db/enums';
+
+@Entity({ name: 'workflow_statuses' })
+@Index(['projectId', 'key'], { unique: true })
+@Index(['organizationId', 'projectId', 'position'])
+export class WorkflowStatus {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'bigint' })
+  organizationId!: string;
+
+  @Column({ name: 'project_id', type: 'bigint' })
+  projectId!: string;
+
+  @ManyToOne(() => Project, { onDelete: 'CASCADE' })
+  @JoinColumn([
+    { name: 'organization_id', referencedColumnName: 'organizationId' },
+    { name: 'project_id', referencedColumnName: 'id' },
+  ])
+  project!: Project;
+
+  @Column({ type: 'varchar', length: 40 })
+  key!: string;
+
+  @Column({ type: 'varchar', length: 80 })
+  name!: string;
+
+  @Column({ type: 'enum', enum: StatusCategory, enumName: 'status_category' })
+  category!: StatusCategory;
+
+  @Column({ type: 'int', default: 0 })
+  position!: number;
+
+  // Status keys reachable from this one; null allows any transition
+  @Column({ name: 'allowed_transitions', type: 'varchar', length: 40, array: true, nullable: true })
+  allowedTransitions?: string[] | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt!: Date;
+}
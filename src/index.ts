@@ -11,8 +11,29 @@ import organizationRouter from './controller/organization.controller';
 import projectRouter from './controller/project.controller';
 import taskRouter from './controller/task.controller';
 import activityRouter from './controller/activity.controller';
+import commentRouter from './controller/comment.controller';
+import taskLinkRouter from './controller/task-link.controller';
+import workflowRouter from './controller/workflow.controller';
+import invitationRouter, { acceptInvitationRouter } from './controller/invitation.controller';
+import permissionRouter from './controller/permission.controller';
+import roleRouter from './controller/role.controller';
+import webhookRouter from './controller/webhook.controller';
+import searchRouter from './controller/search.controller';
+import viewRouter from './controller/view.controller';
+import labelRouter from './controller/label.controller';
+import recurringTaskRouter from './controller/recurring-task.controller';
+import reminderRouter from './controller/reminder.controller';
+import notificationRouter from './controller/notification.controller';
+import myWorkRouter, { userWorkRouter } from './controller/my-work.controller';
+import docsRouter from './controller/docs.controller';
 import cookieParser from 'cookie-parser';
+import { validateIdParam } from './utils/middleware/validationMiddleware';
 import { initializeWebSocket } from './services/websocket.service';
+import { initializeWebhookDispatcher } from './services/webhook-dispatcher.service';
+import { initializeRecurringTaskScheduler } from './services/recurring-task-scheduler.service';
+import { initializeTaskReminderScheduler } from './services/task-reminder-scheduler.service';
+import { initializeDigestScheduler } from './services/digest-scheduler.service';
+import { initializeOutboxDispatcher } from './services/outbox-dispatcher.service';
 
 const app = express();
 app.use(cookieParser());
@@ -56,11 +77,34 @@ app.options(/.*/, cors(corsOptions));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Ids in the mount paths below are checked before any router's guards use them
+for (const name of ['organizationId', 'projectId', 'taskId']) {
+  app.param(name, validateIdParam);
+}
+
 app.use('/api/auth', authRouter);
 app.use('/api/organizations', organizationRouter);
+app.use('/api/organizations/:organizationId/projects/:projectId/tasks/:taskId/comments', commentRouter);
+app.use('/api/organizations/:organizationId/projects/:projectId/tasks/:taskId/links', taskLinkRouter);
 app.use('/api/organizations/:organizationId/projects/:projectId/tasks', taskRouter);
+app.use('/api/organizations/:organizationId/projects/:projectId/workflow', workflowRouter);
+app.use('/api/organizations/:organizationId/projects/:projectId/views', viewRouter);
+app.use('/api/organizations/:organizationId/projects/:projectId/recurring-tasks', recurringTaskRouter);
 app.use('/api/organizations/:organizationId/projects', projectRouter);
 app.use('/api/organizations/:organizationId/activities', activityRouter);
+app.use('/api/organizations/:organizationId/invitations', invitationRouter);
+app.use('/api/invitations', acceptInvitationRouter);
+app.use('/api/organizations/:organizationId/permissions', permissionRouter);
+app.use('/api/organizations/:organizationId/roles', roleRouter);
+app.use('/api/organizations/:organizationId/webhooks', webhookRouter);
+app.use('/api/organizations/:organizationId/labels', labelRouter);
+app.use('/api/organizations/:organizationId/reminders', reminderRouter);
+app.use('/api/organizations/:organizationId/notifications', notificationRouter);
+app.use('/api/organizations/:organizationId/search', searchRouter);
+app.use('/api/organizations/:organizationId/me', myWorkRouter);
+app.use('/api/me', userWorkRouter);
+// OpenAPI document and docs page: /api/openapi.json, /api/docs
+app.use('/api', docsRouter);
 
 
 app.get('/health', (_req, res) => res.send('Health check OK'));
@@ -73,6 +117,21 @@ const httpServer = createServer(app);
 // Initialize WebSocket service
 const webSocketService = initializeWebSocket(httpServer);
 
+// Start handing outbox events to activities, notifications and broadcasts
+initializeOutboxDispatcher();
+
+// Start delivering queued webhooks (and retries)
+initializeWebhookDispatcher();
+
+// Start creating tasks for recurring task templates
+initializeRecurringTaskScheduler();
+
+// Start sending due-date reminders and overdue alerts
+initializeTaskReminderScheduler();
+
+// Start sending daily/weekly activity digests
+initializeDigestScheduler();
+
 
 httpServer.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
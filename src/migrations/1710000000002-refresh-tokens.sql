@@ -0,0 +1,19 @@
+BEGIN;
+
+-- Server-side store for refresh tokens, keyed by the JWT's jti.
+-- Every rotation revokes the presented token and issues a child in the same
+-- family; presenting a revoked token again revokes the whole family.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id           UUID PRIMARY KEY,
+  user_id      BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  family_id    UUID NOT NULL,
+  replaced_by  UUID NULL,
+  expires_at   timestamptz NOT NULL,
+  revoked_at   timestamptz NULL,
+  revoked_reason VARCHAR(40) NULL,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id);
+
+COMMIT;
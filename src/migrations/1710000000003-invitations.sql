@@ -0,0 +1,31 @@
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email           CITEXT NOT NULL,
+  role            org_role NOT NULL DEFAULT 'USER',
+  token_hash      TEXT NOT NULL UNIQUE,
+  invited_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  expires_at      timestamptz NOT NULL,
+  accepted_at     timestamptz NULL,
+  accepted_by     BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  revoked_at      timestamptz NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_invitations_org_created ON invitations (organization_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_org_email_pending ON invitations (organization_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE TRIGGER trg_invitations_touch_upd
+BEFORE UPDATE ON invitations
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY inv_admin_all ON invitations
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+COMMIT;
@@ -0,0 +1,43 @@
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id               BIGSERIAL PRIMARY KEY,
+  organization_id  BIGINT NOT NULL,
+  project_id       BIGINT NOT NULL,
+  task_id          BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  parent_id        BIGINT NULL REFERENCES task_comments(id) ON DELETE CASCADE,
+  author_id        BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  body             TEXT NOT NULL,
+  mentions         BIGINT[] NOT NULL DEFAULT '{}',
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_time ON task_comments (task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_comments_org_project ON task_comments (organization_id, project_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent ON task_comments (parent_id);
+
+CREATE TRIGGER trg_task_comments_touch_upd
+BEFORE UPDATE ON task_comments
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- Same model as tasks: readable by org members, writable by org admins and project editors
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_comments_select ON task_comments
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY task_comments_admin_write ON task_comments
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+CREATE POLICY task_comments_editor_write ON task_comments
+  FOR ALL USING (
+    app.is_project_editor(organization_id, project_id)
+  )
+  WITH CHECK (
+    app.is_project_editor(organization_id, project_id)
+  );
+
+COMMIT;
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class TaskEvents1710000000005 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000005-task-events.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS task_events CASCADE');
+  }
+}
@@ -0,0 +1,25 @@
+BEGIN;
+
+-- Field-level audit trail for tasks. task_id deliberately has no foreign key
+-- so the history of deleted tasks is kept.
+CREATE TABLE IF NOT EXISTS task_events (
+  id               BIGSERIAL PRIMARY KEY,
+  organization_id  BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id       BIGINT NOT NULL,
+  task_id          BIGINT NOT NULL,
+  actor_id         BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  event_type       VARCHAR(20) NOT NULL,
+  changes          JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_task_events_task_time ON task_events (task_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_events_org_project ON task_events (organization_id, project_id);
+
+ALTER TABLE task_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_events_select ON task_events
+  FOR SELECT USING (app.user_in_org(organization_id));
+CREATE POLICY task_events_insert ON task_events
+  FOR INSERT WITH CHECK (app.user_in_org(organization_id));
+
+COMMIT;
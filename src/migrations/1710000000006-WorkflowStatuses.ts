@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class WorkflowStatuses1710000000006 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000006-workflow-statuses.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Statuses outside the original enum are folded back by category
+    await queryRunner.query(`ALTER TABLE tasks DROP CONSTRAINT IF EXISTS fk_tasks_workflow_status`);
+    await queryRunner.query(`
+      UPDATE tasks t SET status = CASE ws.category
+        WHEN 'todo' THEN 'TODO' WHEN 'active' THEN 'INPROGRESS' ELSE 'DONE' END
+      FROM workflow_statuses ws
+      WHERE ws.project_id = t.project_id AND ws.key = t.status
+        AND t.status NOT IN ('TODO','INPROGRESS','DONE')
+    `);
+    await queryRunner.query(`CREATE TYPE task_status AS ENUM ('TODO','INPROGRESS','DONE')`);
+    await queryRunner.query('DROP INDEX IF EXISTS idx_tasks_open');
+    await queryRunner.query(`ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT`);
+    await queryRunner.query(`ALTER TABLE tasks ALTER COLUMN status TYPE task_status USING status::task_status`);
+    await queryRunner.query(`ALTER TABLE tasks ALTER COLUMN status SET DEFAULT 'TODO'`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_tasks_open ON tasks (organization_id, project_id) WHERE status <> 'DONE'`);
+    await queryRunner.query('DROP TRIGGER IF EXISTS trg_projects_seed_workflow ON projects');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.projects_seed_workflow()');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.seed_default_workflow(bigint, bigint)');
+    await queryRunner.query('DROP TABLE IF EXISTS workflow_statuses CASCADE');
+    await queryRunner.query('DROP TYPE IF EXISTS status_category');
+  }
+}
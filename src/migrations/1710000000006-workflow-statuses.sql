@@ -0,0 +1,93 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'status_category') THEN
+    CREATE TYPE status_category AS ENUM ('todo','active','done');
+  END IF;
+END $$;
+
+-- Ordered, per-project task statuses. allowed_transitions NULL means "any status".
+CREATE TABLE IF NOT EXISTS workflow_statuses (
+  id                  BIGSERIAL PRIMARY KEY,
+  organization_id     BIGINT NOT NULL,
+  project_id          BIGINT NOT NULL,
+  key                 VARCHAR(40) NOT NULL,
+  name                VARCHAR(80) NOT NULL,
+  category            status_category NOT NULL,
+  position            INT NOT NULL DEFAULT 0,
+  allowed_transitions VARCHAR(40)[] NULL,
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  updated_at          timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, key),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_workflow_statuses_org_project ON workflow_statuses (organization_id, project_id, position);
+
+CREATE TRIGGER trg_workflow_statuses_touch_upd
+BEFORE UPDATE ON workflow_statuses
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- The former fixed TaskStatus enum becomes the default workflow
+CREATE OR REPLACE FUNCTION app.seed_default_workflow(org_id bigint, proj_id bigint)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO workflow_statuses (organization_id, project_id, key, name, category, position)
+  VALUES
+    (org_id, proj_id, 'TODO', 'To Do', 'todo', 0),
+    (org_id, proj_id, 'INPROGRESS', 'In Progress', 'active', 1),
+    (org_id, proj_id, 'DONE', 'Done', 'done', 2)
+  ON CONFLICT (project_id, key) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION app.projects_seed_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM app.seed_default_workflow(NEW.organization_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_projects_seed_workflow
+AFTER INSERT ON projects
+FOR EACH ROW EXECUTE FUNCTION app.projects_seed_workflow();
+
+-- Migrate existing projects and tasks
+SELECT app.seed_default_workflow(organization_id, id) FROM projects;
+
+DROP INDEX IF EXISTS idx_tasks_open;
+ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE tasks ALTER COLUMN status TYPE VARCHAR(40) USING status::text;
+ALTER TABLE tasks ALTER COLUMN status SET DEFAULT 'TODO';
+DROP TYPE IF EXISTS task_status;
+
+ALTER TABLE tasks
+  ADD CONSTRAINT fk_tasks_workflow_status
+  FOREIGN KEY (project_id, status)
+  REFERENCES workflow_statuses(project_id, key) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_open ON tasks (organization_id, project_id)
+  WHERE status <> 'DONE';
+
+-- Same model as projects: readable by org members, writable by org admins and project editors
+ALTER TABLE workflow_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY workflow_select ON workflow_statuses
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY workflow_admin_write ON workflow_statuses
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+CREATE POLICY workflow_editor_write ON workflow_statuses
+  FOR ALL USING (
+    app.is_project_editor(organization_id, project_id)
+  )
+  WITH CHECK (
+    app.is_project_editor(organization_id, project_id)
+  );
+
+COMMIT;
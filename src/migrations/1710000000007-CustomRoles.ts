@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class CustomRoles1710000000007 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000007-custom-roles.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const policies: [string, string][] = [
+      ['orgm_role_select', 'org_memberships'],
+      ['orgm_role_insert', 'org_memberships'],
+      ['orgm_role_update', 'org_memberships'],
+      ['orgm_role_delete', 'org_memberships'],
+      ['inv_role_all', 'invitations'],
+      ['projects_role_insert', 'projects'],
+      ['projects_role_update', 'projects'],
+      ['projects_role_delete', 'projects'],
+      ['pm_role_write', 'project_members'],
+      ['pm_creator_insert', 'project_members'],
+      ['tasks_role_insert', 'tasks'],
+      ['tasks_role_update', 'tasks'],
+      ['tasks_role_delete', 'tasks'],
+      ['task_comments_role_insert', 'task_comments'],
+      ['task_comments_role_delete', 'task_comments'],
+      ['workflow_statuses_role_write', 'workflow_statuses'],
+    ];
+    for (const [policy, table] of policies) {
+      await queryRunner.query(`DROP POLICY IF EXISTS ${policy} ON ${table}`);
+    }
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.is_project_editor(bigint, bigint, text)');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.is_org_admin(bigint, text)');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.custom_role_grants(bigint, bigint, text)');
+    await queryRunner.query('ALTER TABLE projects DROP COLUMN IF EXISTS created_by');
+    await queryRunner.query('ALTER TABLE invitations DROP COLUMN IF EXISTS custom_role_id');
+    await queryRunner.query('ALTER TABLE project_members DROP COLUMN IF EXISTS custom_role_id');
+    await queryRunner.query('ALTER TABLE org_memberships DROP COLUMN IF EXISTS custom_role_id');
+    await queryRunner.query('DROP TABLE IF EXISTS custom_roles CASCADE');
+    await queryRunner.query('DROP TYPE IF EXISTS role_scope');
+  }
+}
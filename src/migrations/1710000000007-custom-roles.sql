@@ -0,0 +1,166 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'role_scope') THEN
+    CREATE TYPE role_scope AS ENUM ('organization','project');
+  END IF;
+END $$;
+
+-- Org-defined roles; permissions are action names from the permission policy (e.g. 'task.assign')
+CREATE TABLE IF NOT EXISTS custom_roles (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name            VARCHAR(60) NOT NULL,
+  description     TEXT NULL,
+  scope           role_scope NOT NULL DEFAULT 'organization',
+  permissions     TEXT[] NOT NULL DEFAULT '{}',
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_roles_org_name ON custom_roles (organization_id, lower(name));
+
+CREATE TRIGGER trg_custom_roles_touch_upd
+BEFORE UPDATE ON custom_roles
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- A custom role is granted on top of the member's base role
+ALTER TABLE org_memberships ADD COLUMN IF NOT EXISTS custom_role_id BIGINT NULL;
+ALTER TABLE org_memberships
+  ADD CONSTRAINT fk_org_memberships_custom_role
+  FOREIGN KEY (organization_id, custom_role_id) REFERENCES custom_roles(organization_id, id);
+CREATE INDEX IF NOT EXISTS idx_org_memberships_custom_role ON org_memberships (custom_role_id) WHERE custom_role_id IS NOT NULL;
+
+ALTER TABLE project_members ADD COLUMN IF NOT EXISTS custom_role_id BIGINT NULL;
+ALTER TABLE project_members
+  ADD CONSTRAINT fk_project_members_custom_role
+  FOREIGN KEY (organization_id, custom_role_id) REFERENCES custom_roles(organization_id, id);
+CREATE INDEX IF NOT EXISTS idx_project_members_custom_role ON project_members (custom_role_id) WHERE custom_role_id IS NOT NULL;
+
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS custom_role_id BIGINT NULL REFERENCES custom_roles(id) ON DELETE SET NULL;
+
+-- Who created the project; lets a creator holding only a custom role join it as EDITOR
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS created_by BIGINT NULL REFERENCES users(id) ON DELETE SET NULL;
+
+-- True when the caller's org-scoped custom role, or their project-scoped role on proj_id, grants perm.
+-- A role only counts where its scope matches how it is attached (org membership or project membership).
+-- SECURITY DEFINER so the lookup is not itself filtered by the membership policies that call it.
+CREATE OR REPLACE FUNCTION app.custom_role_grants(org_id bigint, proj_id bigint, perm text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM org_memberships m
+    JOIN custom_roles r ON r.id = m.custom_role_id
+    WHERE m.organization_id = org_id
+      AND m.user_id = current_setting('app.user_id', true)::bigint
+      AND r.scope = 'organization'
+      AND perm = ANY(r.permissions)
+  ) OR (proj_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM project_members pm
+    JOIN custom_roles r ON r.id = pm.custom_role_id
+    WHERE pm.organization_id = org_id
+      AND pm.project_id = proj_id
+      AND pm.user_id = current_setting('app.user_id', true)::bigint
+      AND r.scope = 'project'
+      AND perm = ANY(r.permissions)
+  ));
+$$;
+
+-- Permission-aware overloads of the base helpers: base role OR a custom role granting perm
+CREATE OR REPLACE FUNCTION app.is_org_admin(org_id bigint, perm text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT app.is_org_admin(org_id) OR app.custom_role_grants(org_id, NULL, perm);
+$$;
+
+CREATE OR REPLACE FUNCTION app.is_project_editor(org_id bigint, proj_id bigint, perm text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT app.is_project_editor(org_id, proj_id) OR app.custom_role_grants(org_id, proj_id, perm);
+$$;
+
+ALTER TABLE custom_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY custom_roles_select ON custom_roles
+  FOR SELECT USING (app.user_in_org(organization_id));
+CREATE POLICY custom_roles_admin_write ON custom_roles
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+-- Additional (permissive) policies so custom roles pass RLS for the actions they grant
+CREATE POLICY orgm_role_select ON org_memberships
+  FOR SELECT USING (app.is_org_admin(organization_id, 'member.view'));
+CREATE POLICY orgm_role_insert ON org_memberships
+  FOR INSERT WITH CHECK (app.is_org_admin(organization_id, 'member.invite'));
+CREATE POLICY orgm_role_update ON org_memberships
+  FOR UPDATE USING (app.is_org_admin(organization_id, 'member.update_role'))
+  WITH CHECK (app.is_org_admin(organization_id, 'member.update_role'));
+CREATE POLICY orgm_role_delete ON org_memberships
+  FOR DELETE USING (app.is_org_admin(organization_id, 'member.remove'));
+
+CREATE POLICY inv_role_all ON invitations
+  FOR ALL USING (app.is_org_admin(organization_id, 'member.invite'))
+  WITH CHECK (app.is_org_admin(organization_id, 'member.invite'));
+
+CREATE POLICY projects_role_insert ON projects
+  FOR INSERT WITH CHECK (
+    created_by = current_setting('app.user_id', true)::bigint
+    AND app.is_org_admin(organization_id, 'project.create')
+  );
+CREATE POLICY projects_role_update ON projects
+  FOR UPDATE USING (app.is_project_editor(organization_id, id, 'project.update'))
+  WITH CHECK (app.is_project_editor(organization_id, id, 'project.update'));
+CREATE POLICY projects_role_delete ON projects
+  FOR DELETE USING (app.is_org_admin(organization_id, 'project.delete'));
+
+CREATE POLICY pm_role_write ON project_members
+  FOR ALL USING (app.is_org_admin(organization_id, 'project.member.manage'))
+  WITH CHECK (app.is_org_admin(organization_id, 'project.member.manage'));
+-- Project creators are added as plain EDITOR of a project they created, and of no other
+CREATE POLICY pm_creator_insert ON project_members
+  FOR INSERT WITH CHECK (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND role = 'EDITOR'
+    AND custom_role_id IS NULL
+    AND app.is_org_admin(organization_id, 'project.create')
+    AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.organization_id = project_members.organization_id
+        AND p.id = project_members.project_id
+        AND p.created_by = current_setting('app.user_id', true)::bigint
+    )
+  );
+
+CREATE POLICY tasks_role_insert ON tasks
+  FOR INSERT WITH CHECK (app.is_project_editor(organization_id, project_id, 'task.create'));
+CREATE POLICY tasks_role_update ON tasks
+  FOR UPDATE USING (
+    app.is_project_editor(organization_id, project_id, 'task.update')
+    OR app.is_project_editor(organization_id, project_id, 'task.assign')
+  )
+  WITH CHECK (
+    app.is_project_editor(organization_id, project_id, 'task.update')
+    OR app.is_project_editor(organization_id, project_id, 'task.assign')
+  );
+CREATE POLICY tasks_role_delete ON tasks
+  FOR DELETE USING (app.is_project_editor(organization_id, project_id, 'task.delete'));
+
+CREATE POLICY task_comments_role_insert ON task_comments
+  FOR INSERT WITH CHECK (app.is_project_editor(organization_id, project_id, 'comment.create'));
+CREATE POLICY task_comments_role_delete ON task_comments
+  FOR DELETE USING (app.is_project_editor(organization_id, project_id, 'comment.delete_any'));
+
+CREATE POLICY workflow_statuses_role_write ON workflow_statuses
+  FOR ALL USING (app.is_project_editor(organization_id, project_id, 'workflow.update'))
+  WITH CHECK (app.is_project_editor(organization_id, project_id, 'workflow.update'));
+
+COMMIT;
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class Webhooks1710000000008 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000008-webhooks.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS webhook_deliveries CASCADE');
+    await queryRunner.query('DROP TABLE IF EXISTS webhook_endpoints CASCADE');
+    await queryRunner.query('DROP TYPE IF EXISTS webhook_delivery_status');
+  }
+}
@@ -0,0 +1,65 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'webhook_delivery_status') THEN
+    CREATE TYPE webhook_delivery_status AS ENUM ('pending','succeeded','failed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  url             TEXT NOT NULL,
+  description     VARCHAR(200) NULL,
+  -- Signing secret; kept in plain text because every delivery has to be signed with it
+  secret          TEXT NOT NULL,
+  event_types     TEXT[] NOT NULL DEFAULT '{}',
+  is_active       BOOLEAN NOT NULL DEFAULT true,
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_org_active ON webhook_endpoints (organization_id) WHERE is_active;
+
+CREATE TRIGGER trg_webhook_endpoints_touch_upd
+BEFORE UPDATE ON webhook_endpoints
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- One row per attempt series; redelivering creates a new row with the same event_id
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  endpoint_id     BIGINT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id        VARCHAR(64) NOT NULL,
+  event_type      VARCHAR(60) NOT NULL,
+  payload         JSONB NOT NULL,
+  status          webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempt_count   INT NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NULL DEFAULT now(),
+  last_attempt_at timestamptz NULL,
+  response_status INT NULL,
+  response_body   TEXT NULL,
+  error           TEXT NULL,
+  redelivery_of   BIGINT NULL REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_time ON webhook_deliveries (endpoint_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+
+CREATE TRIGGER trg_webhook_deliveries_touch_upd
+BEFORE UPDATE ON webhook_deliveries
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+ALTER TABLE webhook_endpoints  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY webhook_endpoints_admin_all ON webhook_endpoints
+  FOR ALL USING (app.is_org_admin(organization_id, 'webhook.manage'))
+  WITH CHECK (app.is_org_admin(organization_id, 'webhook.manage'));
+
+CREATE POLICY webhook_deliveries_admin_all ON webhook_deliveries
+  FOR ALL USING (app.is_org_admin(organization_id, 'webhook.manage'))
+  WITH CHECK (app.is_org_admin(organization_id, 'webhook.manage'));
+
+COMMIT;
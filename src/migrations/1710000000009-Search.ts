@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class Search1710000000009 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000009-search.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS idx_task_comments_search');
+    await queryRunner.query('DROP INDEX IF EXISTS idx_projects_search');
+    await queryRunner.query('DROP INDEX IF EXISTS idx_tasks_search');
+    await queryRunner.query('ALTER TABLE task_comments DROP COLUMN IF EXISTS search_vector');
+    await queryRunner.query('ALTER TABLE projects DROP COLUMN IF EXISTS search_vector');
+    await queryRunner.query('ALTER TABLE tasks DROP COLUMN IF EXISTS search_vector');
+  }
+}
@@ -0,0 +1,75 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'task_view_visibility') THEN
+    CREATE TYPE task_view_visibility AS ENUM ('personal','project');
+  END IF;
+END $$;
+
+-- Saved task filters. Personal views are only visible to their owner; project views to the whole project.
+CREATE TABLE IF NOT EXISTS task_views (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL,
+  project_id      BIGINT NOT NULL,
+  owner_id        BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name            VARCHAR(80) NOT NULL,
+  visibility      task_view_visibility NOT NULL DEFAULT 'personal',
+  filters         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort            VARCHAR(200) NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_task_views_project ON task_views (organization_id, project_id, visibility);
+CREATE INDEX IF NOT EXISTS idx_task_views_owner ON task_views (owner_id, project_id);
+
+CREATE TRIGGER trg_task_views_touch_upd
+BEFORE UPDATE ON task_views
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+ALTER TABLE task_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_views_select ON task_views
+  FOR SELECT USING (
+    app.user_in_org(organization_id)
+    AND (visibility = 'project' OR owner_id = current_setting('app.user_id', true)::bigint)
+  );
+
+-- Anyone in the org can keep personal views; sharing with the project needs view.share
+CREATE POLICY task_views_insert ON task_views
+  FOR INSERT WITH CHECK (
+    owner_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+    AND (
+      visibility = 'personal'
+      OR app.is_org_admin(organization_id)
+      OR app.is_project_editor(organization_id, project_id, 'view.share')
+    )
+  );
+
+CREATE POLICY task_views_update ON task_views
+  FOR UPDATE USING (
+    owner_id = current_setting('app.user_id', true)::bigint
+    OR (visibility = 'project' AND (
+      app.is_org_admin(organization_id)
+      OR app.is_project_editor(organization_id, project_id, 'view.share')
+    ))
+  )
+  WITH CHECK (
+    visibility = 'personal'
+    OR owner_id = current_setting('app.user_id', true)::bigint
+    OR app.is_org_admin(organization_id)
+    OR app.is_project_editor(organization_id, project_id, 'view.share')
+  );
+
+CREATE POLICY task_views_delete ON task_views
+  FOR DELETE USING (
+    owner_id = current_setting('app.user_id', true)::bigint
+    OR (visibility = 'project' AND (
+      app.is_org_admin(organization_id)
+      OR app.is_project_editor(organization_id, project_id, 'view.share')
+    ))
+  );
+
+COMMIT;
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class BoardRanks1710000000011 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000011-board-ranks.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE tasks ADD COLUMN IF NOT EXISTS order_in_board INT NOT NULL DEFAULT 0');
+    await queryRunner.query(`
+      UPDATE tasks t SET order_in_board = o.position
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id, status ORDER BY board_rank ASC NULLS LAST, id ASC) as position
+        FROM tasks
+      ) o
+      WHERE t.id = o.id
+    `);
+    await queryRunner.query('DROP INDEX IF EXISTS idx_tasks_board_rank');
+    await queryRunner.query('ALTER TABLE tasks DROP COLUMN IF EXISTS board_rank');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.rebalance_board_ranks(bigint, text)');
+    await queryRunner.query('DROP FUNCTION IF EXISTS app.base36(bigint, int)');
+  }
+}
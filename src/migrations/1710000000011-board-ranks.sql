@@ -0,0 +1,64 @@
+BEGIN;
+
+-- Lexicographic board ranks replace the integer order_in_board. Ranks are base-36 fractions
+-- ('0'-'9','a'-'z', never ending in '0') compared byte-wise, so a card can always be placed
+-- between two neighbours by writing one row.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS board_rank VARCHAR(64) COLLATE "C" NULL;
+
+CREATE OR REPLACE FUNCTION app.base36(n bigint, width int)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  digits text := '0123456789abcdefghijklmnopqrstuvwxyz';
+  result text := '';
+BEGIN
+  WHILE n > 0 LOOP
+    result := substr(digits, (n % 36)::int + 1, 1) || result;
+    n := n / 36;
+  END LOOP;
+  RETURN lpad(result, width, '0');
+END;
+$$;
+
+-- Respace one board column evenly (6-digit ranks), keeping the current order. Runs as the caller,
+-- so RLS still decides whether the tasks may be updated.
+CREATE OR REPLACE FUNCTION app.rebalance_board_ranks(proj_id bigint, status_key text)
+RETURNS int
+LANGUAGE sql
+AS $$
+  WITH ordered AS (
+    SELECT id,
+      ROW_NUMBER() OVER (ORDER BY board_rank ASC NULLS LAST, id ASC) as position,
+      COUNT(*) OVER () as total
+    FROM tasks
+    WHERE project_id = proj_id AND status = status_key
+  ),
+  updated AS (
+    UPDATE tasks t
+    SET board_rank = rtrim(app.base36(o.position * (2176782336 / (o.total + 1)), 6), '0')
+    FROM ordered o
+    WHERE t.id = o.id
+    RETURNING t.id
+  )
+  SELECT COUNT(*)::int FROM updated;
+$$;
+
+-- Backfill every column in its current order (order_in_board, newest first on ties)
+WITH ordered AS (
+  SELECT id,
+    ROW_NUMBER() OVER (PARTITION BY project_id, status ORDER BY order_in_board ASC, created_at DESC, id ASC) as position,
+    COUNT(*) OVER (PARTITION BY project_id, status) as total
+  FROM tasks
+)
+UPDATE tasks t
+SET board_rank = rtrim(app.base36(o.position * (2176782336 / (o.total + 1)), 6), '0')
+FROM ordered o
+WHERE t.id = o.id;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_board_rank ON tasks (project_id, status, board_rank);
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS order_in_board;
+
+COMMIT;
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class TaskDependencies1710000000012 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000012-task-dependencies.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS task_links CASCADE');
+    await queryRunner.query('ALTER TABLE projects DROP COLUMN IF EXISTS blocker_policy');
+    await queryRunner.query('ALTER TABLE tasks DROP COLUMN IF EXISTS parent_id');
+    await queryRunner.query('DROP TYPE IF EXISTS task_link_type');
+    await queryRunner.query('DROP TYPE IF EXISTS blocker_policy');
+  }
+}
@@ -0,0 +1,53 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'task_link_type') THEN
+    CREATE TYPE task_link_type AS ENUM ('blocks','relates_to','duplicates');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'blocker_policy') THEN
+    CREATE TYPE blocker_policy AS ENUM ('warn','block');
+  END IF;
+END $$;
+
+-- Subtasks: one level deep, parent in the same project (checked by the API).
+-- Deleting a parent keeps its subtasks as top-level tasks.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_id BIGINT NULL REFERENCES tasks(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD CONSTRAINT tasks_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks (parent_id) WHERE parent_id IS NOT NULL;
+
+-- What happens when a task with open blockers is moved to a done status
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS blocker_policy blocker_policy NOT NULL DEFAULT 'warn';
+
+-- Directed links: source "blocks" / "duplicates" / "relates_to" target. Both tasks belong to the
+-- same organization; project_id is the source task's project and drives the write policies.
+CREATE TABLE IF NOT EXISTS task_links (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL,
+  project_id      BIGINT NOT NULL,
+  source_task_id  BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  target_task_id  BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  link_type       task_link_type NOT NULL,
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source_task_id, target_task_id, link_type),
+  CHECK (source_task_id <> target_task_id),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_task_links_target ON task_links (target_task_id, link_type);
+CREATE INDEX IF NOT EXISTS idx_task_links_org ON task_links (organization_id);
+
+ALTER TABLE task_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_links_select ON task_links
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY task_links_admin_write ON task_links
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+CREATE POLICY task_links_editor_write ON task_links
+  FOR ALL USING (app.is_project_editor(organization_id, project_id, 'task.update'))
+  WITH CHECK (app.is_project_editor(organization_id, project_id, 'task.update'));
+
+COMMIT;
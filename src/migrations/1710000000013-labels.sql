@@ -0,0 +1,60 @@
+BEGIN;
+
+-- Organization-wide label catalog; names are unique per organization regardless of case
+CREATE TABLE IF NOT EXISTS labels (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name            VARCHAR(50) NOT NULL,
+  color           CHAR(7) NOT NULL CHECK (color ~ '^#[0-9a-f]{6}$'),
+  description     VARCHAR(200) NULL,
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labels_org_name ON labels (organization_id, lower(name));
+
+CREATE TRIGGER trg_labels_touch_upd
+BEFORE UPDATE ON labels
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- Labels on tasks; organization_id/project_id mirror the task so the tasks policies apply unchanged,
+-- and the composite key keeps a task from carrying another organization's label.
+CREATE TABLE IF NOT EXISTS task_labels (
+  task_id         BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  label_id        BIGINT NOT NULL,
+  organization_id BIGINT NOT NULL,
+  project_id      BIGINT NOT NULL,
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, label_id),
+  FOREIGN KEY (organization_id, label_id)
+    REFERENCES labels(organization_id, id) ON DELETE CASCADE,
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_task_labels_label ON task_labels (label_id, task_id);
+
+ALTER TABLE labels      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY labels_select ON labels
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY labels_admin_write ON labels
+  FOR ALL USING (app.is_org_admin(organization_id, 'label.manage'))
+  WITH CHECK (app.is_org_admin(organization_id, 'label.manage'));
+
+-- Same rules as tasks: members read, admins and project editors write
+CREATE POLICY task_labels_select ON task_labels
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY task_labels_admin_write ON task_labels
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+CREATE POLICY task_labels_editor_write ON task_labels
+  FOR ALL USING (app.is_project_editor(organization_id, project_id, 'task.update'))
+  WITH CHECK (app.is_project_editor(organization_id, project_id, 'task.update'));
+
+COMMIT;
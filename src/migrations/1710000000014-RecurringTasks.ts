@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class RecurringTasks1710000000014 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000014-recurring-tasks.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DELETE FROM activities WHERE actor_id IS NULL');
+    await queryRunner.query('ALTER TABLE activities ALTER COLUMN actor_id SET NOT NULL');
+    await queryRunner.query('DROP INDEX IF EXISTS idx_tasks_recurring_occurrence');
+    await queryRunner.query('ALTER TABLE tasks DROP COLUMN IF EXISTS occurrence_at');
+    await queryRunner.query('ALTER TABLE tasks DROP COLUMN IF EXISTS recurring_task_id');
+    await queryRunner.query('DROP TABLE IF EXISTS recurring_tasks CASCADE');
+  }
+}
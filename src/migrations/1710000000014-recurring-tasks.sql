@@ -0,0 +1,61 @@
+BEGIN;
+
+-- Project-level template that materializes a task for every occurrence of an iCalendar RRULE
+CREATE TABLE IF NOT EXISTS recurring_tasks (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL,
+  project_id      BIGINT NOT NULL,
+  title           VARCHAR(200) NOT NULL,
+  description     TEXT NULL,
+  -- Workflow status key for new tasks; NULL (or a key that no longer exists) uses the initial status
+  status          VARCHAR(40) NULL,
+  priority        SMALLINT NULL,
+  assignee_id     BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  -- due_date of each task = occurrence date + due_in_days; NULL leaves tasks without a due date
+  due_in_days     INT NULL CHECK (due_in_days IS NULL OR due_in_days BETWEEN 0 AND 365),
+  rrule           TEXT NOT NULL,
+  timezone        VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  starts_on       DATE NOT NULL,
+  time_of_day     TIME NOT NULL DEFAULT '09:00',
+  is_active       BOOLEAN NOT NULL DEFAULT true,
+  -- Next occurrence that has no task yet; NULL once the series has ended
+  next_run_at     timestamptz NULL,
+  last_run_at     timestamptz NULL,
+  occurrence_count INT NOT NULL DEFAULT 0,
+  last_error      TEXT NULL,
+  created_by      BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_recurring_tasks_project ON recurring_tasks (organization_id, project_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_tasks_due ON recurring_tasks (next_run_at) WHERE is_active AND next_run_at IS NOT NULL;
+
+CREATE TRIGGER trg_recurring_tasks_touch_upd
+BEFORE UPDATE ON recurring_tasks
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+-- Tasks remember the occurrence they were created for; the unique index makes materializing idempotent
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurring_task_id BIGINT NULL REFERENCES recurring_tasks(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS occurrence_at timestamptz NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurring_occurrence
+  ON tasks (recurring_task_id, occurrence_at) WHERE recurring_task_id IS NOT NULL;
+
+-- Activities logged by the scheduler have no human actor
+ALTER TABLE activities ALTER COLUMN actor_id DROP NOT NULL;
+
+ALTER TABLE recurring_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY recurring_tasks_select ON recurring_tasks
+  FOR SELECT USING (app.user_in_org(organization_id));
+
+CREATE POLICY recurring_tasks_admin_write ON recurring_tasks
+  FOR ALL USING (app.is_org_admin(organization_id))
+  WITH CHECK (app.is_org_admin(organization_id));
+
+CREATE POLICY recurring_tasks_editor_write ON recurring_tasks
+  FOR ALL USING (app.is_project_editor(organization_id, project_id, 'task.create'))
+  WITH CHECK (app.is_project_editor(organization_id, project_id, 'task.create'));
+
+COMMIT;
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class TaskReminders1710000000015 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000015-task-reminders.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS task_reminder_snoozes CASCADE');
+    await queryRunner.query('DROP TABLE IF EXISTS task_reminders CASCADE');
+    await queryRunner.query('DROP POLICY IF EXISTS orgs_update_settings ON organizations');
+    await queryRunner.query('ALTER TABLE organizations DROP COLUMN IF EXISTS overdue_escalation_days');
+    await queryRunner.query('ALTER TABLE organizations DROP COLUMN IF EXISTS reminder_lead_days');
+    await queryRunner.query('DROP TYPE IF EXISTS task_reminder_kind');
+  }
+}
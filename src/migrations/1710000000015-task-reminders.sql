@@ -0,0 +1,72 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'task_reminder_kind') THEN
+    CREATE TYPE task_reminder_kind AS ENUM ('due_soon','overdue','escalated');
+  END IF;
+END $$;
+
+-- Days before the due date at which the assignee is reminded (each lead time fires once), and
+-- how many days overdue a task has to be before its WARN is escalated to an ALERT
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS reminder_lead_days INT[] NOT NULL DEFAULT '{1}';
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS overdue_escalation_days INT NOT NULL DEFAULT 3
+  CHECK (overdue_escalation_days BETWEEN 1 AND 365);
+
+-- Custom roles granting organization.update may change the organization's settings
+CREATE POLICY orgs_update_settings ON organizations
+  FOR UPDATE USING (app.is_org_admin(id, 'organization.update'))
+  WITH CHECK (app.is_org_admin(id, 'organization.update'));
+
+-- Reminders already sent. A reminder is keyed by the due date it was sent for, so moving the due
+-- date re-arms every reminder; the unique key keeps concurrent reminder jobs from sending twice.
+-- lead_days is the lead time of a due_soon reminder and 0 for the overdue kinds.
+CREATE TABLE IF NOT EXISTS task_reminders (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL,
+  project_id      BIGINT NOT NULL,
+  task_id         BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  kind            task_reminder_kind NOT NULL,
+  due_date        DATE NOT NULL,
+  lead_days       INT NOT NULL DEFAULT 0,
+  -- Assignee the reminder went to; NULL for unassigned tasks (overdue activity only)
+  user_id         BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  sent_at         timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, kind, due_date, lead_days),
+  FOREIGN KEY (organization_id, project_id)
+    REFERENCES projects(organization_id, id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_task_reminders_user ON task_reminders (user_id, sent_at DESC);
+
+-- Per-user snoozes: reminders for the task are held back for that user until snoozed_until
+CREATE TABLE IF NOT EXISTS task_reminder_snoozes (
+  task_id         BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id         BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  snoozed_until   timestamptz NOT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_task_reminder_snoozes_user ON task_reminder_snoozes (user_id, organization_id);
+
+-- Reminders are written by the reminder job (owner connection); users only read their own
+ALTER TABLE task_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_reminders_select_own ON task_reminders
+  FOR SELECT USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+ALTER TABLE task_reminder_snoozes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_reminder_snoozes_own ON task_reminder_snoozes
+  FOR ALL USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  )
+  WITH CHECK (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+COMMIT;
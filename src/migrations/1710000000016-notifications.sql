@@ -0,0 +1,48 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+    CREATE TYPE notification_type AS ENUM (
+      'task_assigned','mentioned','task_status_changed','role_changed','task_due_soon','task_overdue'
+    );
+  END IF;
+END $$;
+
+-- Per-user inbox. Rows are written by NotificationService on the owner connection (like activities);
+-- recipients read and mark their own rows.
+CREATE TABLE IF NOT EXISTS notifications (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id         BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Who caused it; NULL for system notifications such as reminders
+  actor_id        BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  type            notification_type NOT NULL,
+  message         TEXT NOT NULL,
+  object_type     VARCHAR(40) NULL,
+  object_id       BIGINT NULL,
+  data            JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at         timestamptz NULL,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, organization_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id, organization_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notifications_select_own ON notifications
+  FOR SELECT USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+CREATE POLICY notifications_update_own ON notifications
+  FOR UPDATE USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  )
+  WITH CHECK (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+COMMIT;
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class NotificationPreferences1710000000017 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sql = fs.readFileSync(path.join(__dirname, '1710000000017-notification-preferences.sql'), 'utf8');
+    await queryRunner.query(sql);
+  }
+
+  // Postgres cannot drop an enum value; 'member_added' stays in notification_type
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS digest_subscriptions CASCADE');
+    await queryRunner.query('DROP TABLE IF EXISTS notification_preferences CASCADE');
+    await queryRunner.query('DROP TYPE IF EXISTS digest_frequency');
+    await queryRunner.query('DROP TYPE IF EXISTS notification_channel');
+  }
+}
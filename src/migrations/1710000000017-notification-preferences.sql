@@ -0,0 +1,69 @@
+BEGIN;
+
+-- Users are told when someone adds them to an organization or project
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'member_added';
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_channel') THEN
+    CREATE TYPE notification_channel AS ENUM ('in_app','email','none');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'digest_frequency') THEN
+    CREATE TYPE digest_frequency AS ENUM ('none','daily','weekly');
+  END IF;
+END $$;
+
+-- How each notification type reaches a user in an organization; no row means in_app
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id         BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event_type      notification_type NOT NULL,
+  channel         notification_channel NOT NULL,
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, organization_id, event_type)
+);
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_org ON notification_preferences (organization_id, event_type);
+
+-- Activity digest mail per user and organization; next_run_at is claimed by the digest job
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  user_id         BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  frequency       digest_frequency NOT NULL DEFAULT 'none',
+  next_run_at     timestamptz NULL,
+  -- End of the period covered by the last digest; the next one starts there
+  last_sent_at    timestamptz NULL,
+  last_error      TEXT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, organization_id)
+);
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_due ON digest_subscriptions (next_run_at) WHERE frequency <> 'none';
+
+CREATE TRIGGER trg_digest_subscriptions_touch_upd
+BEFORE UPDATE ON digest_subscriptions
+FOR EACH ROW EXECUTE FUNCTION app.touch_updated_at();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notification_preferences_own ON notification_preferences
+  FOR ALL USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  )
+  WITH CHECK (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+ALTER TABLE digest_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY digest_subscriptions_own ON digest_subscriptions
+  FOR ALL USING (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  )
+  WITH CHECK (
+    user_id = current_setting('app.user_id', true)::bigint
+    AND app.user_in_org(organization_id)
+  );
+
+COMMIT;
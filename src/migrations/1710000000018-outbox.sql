@@ -0,0 +1,33 @@
+BEGIN;
+
+-- Side effects of domain changes (activities, notifications, broadcasts), written in the same
+-- transaction as the change and handed to the sinks by the outbox dispatcher
+CREATE TABLE IF NOT EXISTS outbox_events (
+  id              BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- e.g. task.created, task.status_changed, task.moved
+  event_type      VARCHAR(60) NOT NULL,
+  aggregate_type  VARCHAR(40) NOT NULL,
+  aggregate_id    BIGINT NOT NULL,
+  actor_id        BIGINT NULL REFERENCES users(id) ON DELETE SET NULL,
+  payload         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempt_count   INT NOT NULL DEFAULT 0,
+  -- NULL once processed, or when the last attempt failed for good
+  next_attempt_at timestamptz NULL DEFAULT now(),
+  processed_at    timestamptz NULL,
+  last_error      TEXT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_outbox_events_due ON outbox_events (next_attempt_at, id) WHERE processed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_events_processed ON outbox_events (processed_at) WHERE processed_at IS NOT NULL;
+
+ALTER TABLE outbox_events ENABLE ROW LEVEL SECURITY;
+
+-- Requests may only add events for their own actions; the dispatcher reads them on the owner connection
+CREATE POLICY outbox_events_insert ON outbox_events
+  FOR INSERT WITH CHECK (
+    app.user_in_org(organization_id)
+    AND actor_id = current_setting('app.user_id', true)::bigint
+  );
+
+COMMIT;
@@ -0,0 +1,54 @@
+BEGIN;
+
+-- Accepting an invitation, for the invitee named by app.user_id. The invitee is not a member yet, so the
+-- invitation and membership policies (admins only) hide the invitation and refuse the insert; this runs
+-- as the function owner instead and only ever touches the invitation whose token hash the caller holds.
+-- Returns { outcome } with outcome 'accepted', 'not_found', 'already_accepted', 'revoked', 'expired' or
+-- 'already_member', plus the invitation's organization_id, role, custom_role_id and invited_by when accepted.
+CREATE OR REPLACE FUNCTION app.accept_invitation(p_token_hash text)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller bigint := nullif(current_setting('app.user_id', true), '')::bigint;
+  inv invitations%ROWTYPE;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'app.user_id is not set';
+  END IF;
+
+  SELECT * INTO inv FROM invitations WHERE token_hash = p_token_hash FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('outcome', 'not_found');
+  ELSIF inv.accepted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('outcome', 'already_accepted');
+  ELSIF inv.revoked_at IS NOT NULL THEN
+    RETURN jsonb_build_object('outcome', 'revoked');
+  ELSIF inv.expires_at <= now() THEN
+    RETURN jsonb_build_object('outcome', 'expired');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM org_memberships m WHERE m.organization_id = inv.organization_id AND m.user_id = caller) THEN
+    RETURN jsonb_build_object('outcome', 'already_member');
+  END IF;
+
+  INSERT INTO org_memberships (organization_id, user_id, role, custom_role_id)
+  VALUES (inv.organization_id, caller, inv.role, inv.custom_role_id);
+
+  UPDATE invitations SET accepted_at = now(), accepted_by = caller WHERE id = inv.id;
+
+  -- Ids as text, as the API hands out bigints
+  RETURN jsonb_build_object(
+    'outcome', 'accepted',
+    'organization_id', inv.organization_id::text,
+    'role', inv.role,
+    'custom_role_id', inv.custom_role_id::text,
+    'invited_by', inv.invited_by::text
+  );
+END;
+$$;
+
+COMMIT;
@@ -2,11 +2,29 @@ import { getInitializedDataSource } from '../config/database';
 import { Activity } from '../entity/activity.entity';
 import { ActivityKind } from '../db/enums';
 import { getWebSocketService } from './websocket.service';
+import { WebhookService } from './webhook.service';
+import { getWebhookDispatcher } from './webhook-dispatcher.service';
+
+// Actor reported for system actions (actorId null)
+export const SYSTEM_ACTOR = { id: null, username: 'system' };
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+// An activity to be recorded later, e.g. as part of an outbox event
+export interface ActivityInput {
+  kind: ActivityKind;
+  message: string;
+  objectType?: string;
+  objectId?: string;
+  meta?: Record<string, any>;
+}
+
+export type TaskActivityAction = 'created' | 'updated' | 'deleted' | 'status_changed';
 
 export class ActivityService {
   static async logActivity(
     organizationId: string,
-    actorId: string,
+    actorId: string | null,
     kind: ActivityKind,
     message: string,
     objectType?: string,
@@ -18,7 +36,9 @@ export class ActivityService {
     // Get organization's roomKey (subdomain) and actor details
     const [organization, actor] = await Promise.all([
       AppDataSource.query(`SELECT room_key FROM organizations WHERE id = $1`, [organizationId]),
-      AppDataSource.query(`SELECT id, username FROM users WHERE id = $1`, [actorId])
+      actorId === null
+        ? Promise.resolve([SYSTEM_ACTOR])
+        : AppDataSource.query(`SELECT id, username FROM users WHERE id = $1`, [actorId])
     ]);
     
     if (organization.length === 0 || actor.length === 0) {
@@ -53,6 +73,16 @@ export class ActivityService {
     } else {
       console.log('ActivityService: WebSocket service not available');
     }
+
+    // Queue webhook deliveries; a failure here must not fail the mutation that logged the activity
+    try {
+      const queued = await WebhookService.enqueueForActivity(savedActivity, actorData);
+      if (queued > 0) {
+        getWebhookDispatcher()?.trigger();
+      }
+    } catch (error) {
+      console.error('ActivityService: Failed to queue webhook deliveries:', error);
+    }
     
     return savedActivity;
   }
@@ -81,16 +111,14 @@ export class ActivityService {
     );
   }
   
-  static async logTaskActivity(
-    organizationId: string,
-    actorId: string,
-    action: 'created' | 'updated' | 'deleted' | 'status_changed',
+  static describeTaskActivity(
+    action: TaskActivityAction,
     taskTitle: string,
     taskId: string,
     projectName?: string,
     oldStatus?: string,
     newStatus?: string
-  ): Promise<Activity> {
+  ): ActivityInput {
     let message: string;
     let meta: Record<string, any> = { taskTitle, action };
     
@@ -112,15 +140,131 @@ export class ActivityService {
       message += ` in project "${projectName}"`;
       meta.projectName = projectName;
     }
-    
+
+    return { kind: ActivityKind.NOTIFY, message, objectType: 'task', objectId: taskId, meta };
+  }
+
+  static async logTaskActivity(
+    organizationId: string,
+    actorId: string | null,
+    action: TaskActivityAction,
+    taskTitle: string,
+    taskId: string,
+    projectName?: string,
+    oldStatus?: string,
+    newStatus?: string
+  ): Promise<Activity> {
+    const activity = this.describeTaskActivity(action, taskTitle, taskId, projectName, oldStatus, newStatus);
     return this.logActivity(
       organizationId,
       actorId,
-      ActivityKind.NOTIFY,
+      activity.kind,
+      activity.message,
+      activity.objectType,
+      activity.objectId,
+      activity.meta
+    );
+  }
+
+  // Insert an activity and queue its webhook deliveries through `query`, so both commit or roll back
+  // with the caller's transaction (the outbox dispatcher). Broadcasting is left to publishActivity()
+  // once that transaction has committed.
+  static async recordActivity(
+    query: Query,
+    organizationId: string,
+    actorId: string | null,
+    input: ActivityInput
+  ): Promise<{ activity: Activity; roomKey: string; webhooksQueued: number }> {
+    const [organization, actor] = await Promise.all([
+      query(`SELECT room_key FROM organizations WHERE id = $1`, [organizationId]),
+      actorId === null
+        ? Promise.resolve([SYSTEM_ACTOR])
+        : query(`SELECT id, username FROM users WHERE id = $1`, [actorId])
+    ]);
+
+    if (organization.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    const inserted = await query(`
+      INSERT INTO activities (organization_id, actor_id, kind, message, object_type, object_id, meta)
+      VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+      RETURNING
+        id, organization_id as "organizationId", actor_id as "actorId", kind, message,
+        object_type as "objectType", object_id as "objectId", meta, created_at as "createdAt"
+    `, [
+      organizationId, actorId, input.kind, input.message,
+      input.objectType ?? null, input.objectId ?? null, JSON.stringify(input.meta ?? {})
+    ]);
+    const activity = inserted[0] as Activity;
+
+    // An actor deleted since the event was written is reported like a system action
+    const webhooksQueued = await WebhookService.enqueueForActivity(activity, actor[0] ?? SYSTEM_ACTOR, query);
+
+    return { activity, roomKey: organization[0].room_key, webhooksQueued };
+  }
+
+  static publishActivity(roomKey: string, activity: Activity, webhooksQueued: number) {
+    getWebSocketService()?.broadcastActivity(roomKey, activity);
+    if (webhooksQueued > 0) {
+      getWebhookDispatcher()?.trigger();
+    }
+  }
+  
+  // Recorded for the reminder job: WARN when a task becomes overdue, ALERT once it is escalated
+  static describeOverdueActivity(
+    action: 'overdue' | 'escalated',
+    taskTitle: string,
+    taskId: string,
+    dueDate: string,
+    daysOverdue: number,
+    assigneeId: string | null,
+    projectName?: string
+  ): ActivityInput {
+    const days = daysOverdue === 1 ? '1 day' : `${daysOverdue} days`;
+    let message = action === 'escalated'
+      ? `task "${taskTitle}" is ${days} overdue (due ${dueDate})`
+      : `task "${taskTitle}" is overdue (due ${dueDate})`;
+    const meta: Record<string, any> = { taskTitle, action, dueDate, daysOverdue, assigneeId };
+
+    if (projectName) {
+      message += ` in project "${projectName}"`;
+      meta.projectName = projectName;
+    }
+
+    return {
+      kind: action === 'escalated' ? ActivityKind.ALERT : ActivityKind.WARN,
       message,
-      'task',
-      taskId,
+      objectType: 'task',
+      objectId: taskId,
       meta
+    };
+  }
+
+  static async logCommentActivity(
+    organizationId: string,
+    actorId: string,
+    action: 'created' | 'replied' | 'updated' | 'deleted',
+    taskTitle: string,
+    commentId: string,
+    taskId: string,
+    mentionedUserIds: string[] = []
+  ): Promise<Activity> {
+    const messages = {
+      created: `commented on task "${taskTitle}"`,
+      replied: `replied to a comment on task "${taskTitle}"`,
+      updated: `edited a comment on task "${taskTitle}"`,
+      deleted: `deleted a comment on task "${taskTitle}"`
+    };
+    
+    return this.logActivity(
+      organizationId,
+      actorId,
+      ActivityKind.NOTIFY,
+      messages[action],
+      'comment',
+      commentId,
+      { taskTitle, taskId, action, mentionedUserIds }
     );
   }
   
@@ -160,6 +304,30 @@ export class ActivityService {
     );
   }
   
+  static async logRoleActivity(
+    organizationId: string,
+    actorId: string,
+    action: 'created' | 'updated' | 'deleted',
+    roleName: string,
+    roleId: string
+  ): Promise<Activity> {
+    const messages = {
+      created: `created role "${roleName}"`,
+      updated: `updated role "${roleName}"`,
+      deleted: `deleted role "${roleName}"`
+    };
+
+    return this.logActivity(
+      organizationId,
+      actorId,
+      ActivityKind.ANNOUNCE,
+      messages[action],
+      'role',
+      roleId,
+      { roleName, action }
+    );
+  }
+
   static async logOrganizationActivity(
     organizationId: string,
     actorId: string,
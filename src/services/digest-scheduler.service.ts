@@ -0,0 +1,158 @@
+import { getInitializedDataSource } from '../config/database';
+import { DigestService, DigestRecipient } from './digest.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { getMailTransport } from './mail.service';
+
+export interface DigestSchedulerOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  // How long a claimed subscription is held before another run may retry it
+  leaseMs: number;
+}
+
+// Sends daily/weekly activity digests through the mail transport. Due digest_subscriptions rows are
+// claimed with FOR UPDATE SKIP LOCKED and a lease on next_run_at, so several app instances can run
+// the scheduler; a digest that fails is retried once the lease runs out.
+export class DigestScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private pending = false;
+
+  constructor(private readonly options: DigestSchedulerOptions) {}
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.trigger(), this.options.pollIntervalMs);
+    this.timer.unref();
+    console.log(`Digest scheduler started (poll every ${this.options.pollIntervalMs}ms)`);
+    this.trigger();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run now instead of waiting for the next poll
+  trigger() {
+    if (this.processing) {
+      this.pending = true;
+      return;
+    }
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('Digest scheduler error:', error));
+    });
+  }
+
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      this.pending = true;
+      return 0;
+    }
+    this.processing = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.pending = false;
+        const recipients = await this.claimDue();
+        for (const recipient of recipients) {
+          await this.send(recipient);
+        }
+        processed += recipients.length;
+        // A full batch means more may be waiting
+        if (recipients.length === this.options.batchSize) {
+          this.pending = true;
+        }
+      } while (this.pending);
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  private async claimDue(): Promise<(DigestRecipient & { run_at: Date })[]> {
+    const AppDataSource = await getInitializedDataSource();
+
+    // Users who left the organization keep their row but are never claimed
+    return AppDataSource.query(`
+      WITH claimed AS (
+        UPDATE digest_subscriptions s
+        SET next_run_at = now() + $2::int * interval '1 millisecond'
+        WHERE (s.user_id, s.organization_id) IN (
+          SELECT ds.user_id, ds.organization_id FROM digest_subscriptions ds
+          WHERE ds.frequency <> 'none' AND ds.next_run_at <= now()
+            AND EXISTS (
+              SELECT 1 FROM org_memberships om
+              WHERE om.organization_id = ds.organization_id AND om.user_id = ds.user_id
+            )
+          ORDER BY ds.next_run_at ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING s.user_id, s.organization_id, s.frequency, s.last_sent_at
+      )
+      SELECT c.*, u.email, u.username, o.name as organization_name, now() as run_at
+      FROM claimed c
+      JOIN users u ON u.id = c.user_id
+      JOIN organizations o ON o.id = c.organization_id
+    `, [this.options.batchSize, this.options.leaseMs]);
+  }
+
+  private async send(recipient: DigestRecipient & { run_at: Date }) {
+    const AppDataSource = await getInitializedDataSource();
+    const until = new Date(recipient.run_at);
+
+    try {
+      const message = await DigestService.build(
+        (sql: string, params: any[] = []) => AppDataSource.query(sql, params),
+        recipient,
+        DigestService.periodStart(recipient, until),
+        until
+      );
+      if (message) {
+        await getMailTransport().send(message);
+      }
+
+      // Only the claimed frequency is advanced; a change made meanwhile already set its own next_run_at
+      await AppDataSource.query(`
+        UPDATE digest_subscriptions
+        SET last_sent_at = $3, next_run_at = $4, last_error = NULL
+        WHERE user_id = $1 AND organization_id = $2 AND frequency = $5
+      `, [
+        recipient.user_id, recipient.organization_id, until,
+        NotificationPreferenceService.nextDigestAt(recipient.frequency, until), recipient.frequency
+      ]);
+    } catch (error: any) {
+      console.error(`Digest for user ${recipient.user_id} in organization ${recipient.organization_id} failed:`, error);
+      await AppDataSource.query(`
+        UPDATE digest_subscriptions SET last_error = $3
+        WHERE user_id = $1 AND organization_id = $2
+      `, [recipient.user_id, recipient.organization_id, String(error?.message ?? error)]);
+    }
+  }
+}
+
+// Singleton instance
+let digestScheduler: DigestScheduler | null = null;
+
+export const initializeDigestScheduler = (): DigestScheduler => {
+  if (!digestScheduler) {
+    digestScheduler = new DigestScheduler({
+      pollIntervalMs: parseInt(process.env.DIGEST_POLL_INTERVAL_MS || '300000', 10),
+      batchSize: 50,
+      leaseMs: 15 * 60 * 1000
+    });
+    digestScheduler.start();
+  }
+  return digestScheduler;
+};
+
+export const getDigestScheduler = (): DigestScheduler | null => {
+  return digestScheduler;
+};
@@ -0,0 +1,89 @@
+import { DigestFrequency } from '../db/enums';
+import { MailMessage } from './mail.service';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+
+// Activities listed in one digest; the counts per kind still cover the whole period
+const MAX_DIGEST_LINES = 50;
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  [DigestFrequency.NONE]: 0,
+  [DigestFrequency.DAILY]: 24 * 60 * 60 * 1000,
+  [DigestFrequency.WEEKLY]: 7 * 24 * 60 * 60 * 1000,
+};
+
+// A claimed digest subscription with what is needed to address the mail
+export interface DigestRecipient {
+  user_id: string;
+  organization_id: string;
+  frequency: DigestFrequency;
+  last_sent_at: Date | null;
+  email: string;
+  username: string;
+  organization_name: string;
+}
+
+export class DigestService {
+  // Start of the period a digest covers: the end of the previous digest, or one period back for the first one
+  static periodStart(recipient: DigestRecipient, until: Date): Date {
+    return recipient.last_sent_at
+      ? new Date(recipient.last_sent_at)
+      : new Date(until.getTime() - PERIOD_MS[recipient.frequency]);
+  }
+
+  // Summarise the organization's activities in (since, until], leaving out the recipient's own.
+  // Returns null when nothing happened, so no empty digest is sent.
+  static async build(query: Query, recipient: DigestRecipient, since: Date, until: Date): Promise<MailMessage | null> {
+    const [counts, activities] = await Promise.all([
+      query(`
+        SELECT kind, COUNT(*)::int as count
+        FROM activities
+        WHERE organization_id = $1 AND created_at > $2 AND created_at <= $3
+          AND actor_id IS DISTINCT FROM $4
+        GROUP BY kind
+        ORDER BY kind
+      `, [recipient.organization_id, since, until, recipient.user_id]),
+      query(`
+        SELECT a.kind, a.message, a.created_at, u.username as actor_username
+        FROM activities a
+        LEFT JOIN users u ON u.id = a.actor_id
+        WHERE a.organization_id = $1 AND a.created_at > $2 AND a.created_at <= $3
+          AND a.actor_id IS DISTINCT FROM $4
+        ORDER BY a.created_at DESC, a.id DESC
+        LIMIT $5
+      `, [recipient.organization_id, since, until, recipient.user_id, MAX_DIGEST_LINES])
+    ]);
+
+    const total = counts.reduce((sum: number, row: any) => sum + row.count, 0);
+    if (total === 0) {
+      return null;
+    }
+
+    const period = recipient.frequency === DigestFrequency.WEEKLY ? 'Weekly' : 'Daily';
+    const lines = activities.map((activity: any) => {
+      const time = new Date(activity.created_at).toISOString().slice(0, 16).replace('T', ' ');
+      return `- ${time} [${activity.kind}] ${activity.actor_username ?? 'system'} ${activity.message}`;
+    });
+
+    return {
+      to: recipient.email,
+      subject: `${period} digest for ${recipient.organization_name}: ${total} ${total === 1 ? 'activity' : 'activities'}`,
+      text: [
+        `Hi ${recipient.username},`,
+        '',
+        `Here is what happened in "${recipient.organization_name}" between ${since.toISOString()} and ${until.toISOString()}:`,
+        '',
+        ...counts.map((row: any) => `${row.kind}: ${row.count}`),
+        '',
+        ...lines,
+        ...(total > lines.length ? [`... and ${total - lines.length} more`] : []),
+        '',
+        `Activity feed: ${APP_BASE_URL}/organizations/${recipient.organization_id}/activities`,
+        '',
+        'Change or turn off this digest in your notification preferences.',
+      ].join('\n'),
+    };
+  }
+}
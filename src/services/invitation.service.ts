@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from 'crypto';
+import { getMailTransport } from './mail.service';
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7;
+export const MAX_INVITE_EXPIRY_DAYS = 30;
+
+export const INVITATION_STATUSES = ['pending', 'accepted', 'revoked', 'expired'] as const;
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export interface AcceptedInvitation {
+  organization_id: string;
+  role: string;
+  custom_role_id: string | null;
+  invited_by: string | null;
+}
+
+// status and message are set when the invitation could not be accepted
+export interface AcceptInvitationResult {
+  invitation?: AcceptedInvitation;
+  status?: number;
+  message?: string;
+}
+
+const ACCEPT_REFUSALS: Record<string, { status: number; message: string }> = {
+  not_found: { status: 404, message: 'Invitation not found' },
+  already_accepted: { status: 410, message: 'Invitation is accepted' },
+  revoked: { status: 410, message: 'Invitation is revoked' },
+  expired: { status: 410, message: 'Invitation is expired' },
+  already_member: { status: 409, message: 'User is already a member of this organization' },
+};
+
+export class InvitationService {
+  static generateToken(): { token: string; tokenHash: string } {
+    const token = randomBytes(32).toString('base64url');
+    return { token, tokenHash: this.hashToken(token) };
+  }
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  static statusOf(invitation: { accepted_at?: Date | null; revoked_at?: Date | null; expires_at: Date }): InvitationStatus {
+    if (invitation.accepted_at) return 'accepted';
+    if (invitation.revoked_at) return 'revoked';
+    if (new Date(invitation.expires_at).getTime() <= Date.now()) return 'expired';
+    return 'pending';
+  }
+
+  // Adds the caller (app.user_id) to the invitation's organization. The invitee is not a member yet and
+  // RLS hides the invitation from them, so the lookup, membership insert and update run in
+  // app.accept_invitation(), a SECURITY DEFINER function scoped to the token hash.
+  static async accept(query: Query, token: string): Promise<AcceptInvitationResult> {
+    const rows = await query(`SELECT app.accept_invitation($1) as result`, [this.hashToken(token)]);
+    const { outcome, ...invitation } = rows[0].result;
+    if (outcome !== 'accepted') {
+      return ACCEPT_REFUSALS[outcome] ?? { status: 400, message: 'Invitation cannot be accepted' };
+    }
+    return { invitation };
+  }
+
+  static async sendInvitationEmail(
+    email: string,
+    token: string,
+    organizationName: string,
+    inviterUsername: string,
+    role: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const acceptUrl = `${APP_BASE_URL}/invitations/accept?token=${encodeURIComponent(token)}`;
+
+    await getMailTransport().send({
+      to: email,
+      subject: `You've been invited to join ${organizationName}`,
+      text: [
+        `${inviterUsername} invited you to join "${organizationName}" as ${role}.`,
+        '',
+        `Accept the invitation: ${acceptUrl}`,
+        '',
+        `This invitation expires on ${expiresAt.toISOString()}.`,
+      ].join('\n'),
+    });
+  }
+}
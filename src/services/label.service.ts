@@ -0,0 +1,97 @@
+import { executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { ServiceContext, contextQuery, requireOrganizationId } from './service-context';
+
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 200;
+const COLOR_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const LABEL_COLUMNS = `id, name, color, description, created_by, created_at, updated_at`;
+
+export interface LabelInput {
+  name?: string;
+  color?: string;
+  description?: string | null;
+}
+
+export interface TaskLabelRef {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export class LabelService {
+  // "#ABC" / "#aabbcc" => "#aabbcc"; null when the value is not a hex colour
+  static normalizeColor(value: any): string | null {
+    if (typeof value !== 'string' || !COLOR_REGEX.test(value.trim())) {
+      return null;
+    }
+    const hex = value.trim().slice(1).toLowerCase();
+    return `#${hex.length === 3 ? hex.split('').map((digit) => digit + digit).join('') : hex}`;
+  }
+
+  // Validate a create (all of name and color required) or update body; only given keys are returned
+  static validate(body: any, partial: boolean): { input?: LabelInput; error?: string } {
+    const input: LabelInput = {};
+
+    if (body.name !== undefined || !partial) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        return { error: `name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+      }
+      input.name = name;
+    }
+
+    if (body.color !== undefined || !partial) {
+      const color = this.normalizeColor(body.color);
+      if (!color) {
+        return { error: 'color must be a hex colour such as #1f77b4' };
+      }
+      input.color = color;
+    }
+
+    if (body.description !== undefined) {
+      if (body.description !== null && typeof body.description !== 'string') {
+        return { error: 'description must be a string or null' };
+      }
+      const description = body.description?.trim() || null;
+      if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+        return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+      }
+      input.description = description;
+    }
+
+    return { input };
+  }
+
+  // Labels of the organization among labelIds; callers compare lengths to detect unknown ids
+  static async findLabels(req: any, labelIds: string[]): Promise<any[]> {
+    return executeWithRLS(req, `
+      SELECT ${LABEL_COLUMNS} FROM labels
+      WHERE id = ANY($1::bigint[]) AND organization_id = $2
+    `, [labelIds, req.organizationId]);
+  }
+
+  // Labels per task for a set of tasks: { [taskId]: [{ id, name, color }] }, ordered by name
+  static async getTaskLabels(ctx: ServiceContext, taskIds: string[]): Promise<Record<string, TaskLabelRef[]>> {
+    if (taskIds.length === 0) {
+      return {};
+    }
+    const rows = await contextQuery(ctx)(`
+      SELECT tl.task_id, l.id, l.name, l.color
+      FROM task_labels tl
+      JOIN labels l ON l.id = tl.label_id
+      WHERE tl.task_id = ANY($1::bigint[]) AND l.organization_id = $2
+      ORDER BY lower(l.name) ASC, l.id ASC
+    `, [taskIds, requireOrganizationId(ctx)]);
+
+    const labels: Record<string, TaskLabelRef[]> = {};
+    for (const row of rows) {
+      const key = String(row.task_id);
+      if (!labels[key]) {
+        labels[key] = [];
+      }
+      labels[key].push({ id: row.id, name: row.name, color: row.color });
+    }
+    return labels;
+  }
+}
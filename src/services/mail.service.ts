@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@multi-tenant.local';
+
+// Logs outgoing mail instead of sending it (local development default)
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`[mail] from=${MAIL_FROM} to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+// Writes each outgoing mail as a JSON file so it can be inspected or picked up by tests
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    const payload = { from: MAIL_FROM, ...message, sentAt: new Date().toISOString() };
+    await fs.promises.writeFile(path.join(this.directory, fileName), JSON.stringify(payload, null, 2), 'utf8');
+    logger.info(`[mail] to=${message.to} written to ${fileName}`);
+  }
+}
+
+const createMailTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_DIR || path.join(process.cwd(), '.mail'));
+    case 'console':
+    default:
+      return new ConsoleMailTransport();
+  }
+};
+
+// Singleton instance; replace with setMailTransport() to plug in a real provider
+let mailTransport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+};
+
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
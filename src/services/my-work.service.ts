@@ -0,0 +1,139 @@
+import { executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { StatusCategory } from '../db/enums';
+import { PermissionService } from './permission.service';
+
+// Due buckets in display order; 'done' is only returned when completed tasks are included
+export const DUE_BUCKETS = ['overdue', 'today', 'this_week', 'later', 'no_due_date', 'done'] as const;
+export type DueBucket = typeof DUE_BUCKETS[number];
+
+export interface MyWorkOptions {
+  // null spans every organization the caller belongs to
+  organizationId: string | null;
+  includeDone: boolean;
+  // Tasks returned per bucket; counts always cover every task
+  limit: number;
+}
+
+export interface StatusCount {
+  status: string;
+  name: string | null;
+  category: StatusCategory | null;
+  count: number;
+}
+
+export interface MyWorkBucket {
+  key: DueBucket;
+  count: number;
+  hasMore: boolean;
+  statuses: StatusCount[];
+  tasks: any[];
+}
+
+// Weeks run Monday to Sunday, like the task list's due=this_week filter
+const BUCKET_SQL = `
+  CASE
+    WHEN ws.category = '${StatusCategory.DONE}' THEN 'done'
+    WHEN t.due_date IS NULL THEN 'no_due_date'
+    WHEN t.due_date < CURRENT_DATE THEN 'overdue'
+    WHEN t.due_date = CURRENT_DATE THEN 'today'
+    WHEN t.due_date < (date_trunc('week', CURRENT_DATE) + interval '1 week')::date THEN 'this_week'
+    ELSE 'later'
+  END`;
+
+export class MyWorkService {
+  // Tasks assigned to the caller in projects they can access, grouped by due bucket and status.
+  // Runs through executeWithRLS, so tasks_select still limits rows to the caller's organizations.
+  static async getAssignedTasks(req: any, options: MyWorkOptions) {
+    const params: any[] = [req.user!.userId];
+    let orgCondition = `t.organization_id IN (SELECT organization_id FROM org_memberships WHERE user_id = $1)`;
+    if (options.organizationId) {
+      params.push(options.organizationId);
+      orgCondition = `t.organization_id = $2`;
+    }
+
+    // assignee + org lead, so idx_tasks_org_assignee_status serves the scan
+    const assigned = `
+      SELECT
+        t.id, t.organization_id, t.project_id, t.title, t.status, t.due_date, t.priority,
+        t.created_at, t.updated_at,
+        ws.name as status_name, ws.category as status_category, ws.position as status_position,
+        ${BUCKET_SQL} as bucket
+      FROM tasks t
+      LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+      WHERE t.assignee_id = $1 AND ${orgCondition}
+        AND t.project_id IN (${PermissionService.accessibleProjectIdsSql('$1', options.organizationId ? '$2' : null)})
+        ${options.includeDone ? '' : `AND ws.category IS DISTINCT FROM '${StatusCategory.DONE}'`}
+    `;
+
+    const counts = await executeWithRLS(req, `
+      SELECT a.bucket, a.status, a.status_name, a.status_category, COUNT(*)::int as count
+      FROM (${assigned}) a
+      GROUP BY a.bucket, a.status, a.status_name, a.status_category
+      ORDER BY a.bucket, MIN(a.status_position) ASC NULLS LAST, a.status ASC
+    `, params);
+
+    params.push(options.limit);
+    const tasks = await executeWithRLS(req, `
+      SELECT * FROM (
+        SELECT
+          a.id, a.organization_id, o.name as organization_name, a.project_id, p.name as project_name,
+          a.title, a.status, a.status_name, a.status_category, a.due_date, a.priority,
+          a.created_at, a.updated_at, a.bucket,
+          ROW_NUMBER() OVER (
+            PARTITION BY a.bucket
+            ORDER BY a.due_date ASC NULLS LAST, a.priority DESC NULLS LAST, a.updated_at DESC, a.id ASC
+          ) as rn
+        FROM (${assigned}) a
+        JOIN projects p ON p.id = a.project_id
+        JOIN organizations o ON o.id = a.organization_id
+      ) ranked
+      WHERE ranked.rn <= $${params.length}
+      ORDER BY ranked.bucket, ranked.rn
+    `, params);
+
+    const buckets: MyWorkBucket[] = DUE_BUCKETS
+      .filter((key) => key !== 'done' || options.includeDone)
+      .map((key) => {
+        const statuses: StatusCount[] = counts
+          .filter((row: any) => row.bucket === key)
+          .map((row: any) => ({
+            status: row.status,
+            name: row.status_name,
+            category: row.status_category,
+            count: row.count
+          }));
+        const count = statuses.reduce((sum, status) => sum + status.count, 0);
+        return {
+          key,
+          count,
+          hasMore: count > options.limit,
+          statuses,
+          tasks: tasks
+            .filter((task: any) => task.bucket === key)
+            .map(({ rn: _rn, bucket: _bucket, ...task }: any) => task)
+        };
+      });
+
+    // Status totals across buckets; statuses with the same key in different projects are counted together
+    const statusTotals = new Map<string, StatusCount>();
+    for (const row of counts) {
+      const existing = statusTotals.get(row.status);
+      if (existing) {
+        existing.count += row.count;
+      } else {
+        statusTotals.set(row.status, {
+          status: row.status,
+          name: row.status_name,
+          category: row.status_category,
+          count: row.count
+        });
+      }
+    }
+
+    return {
+      total: buckets.reduce((sum, bucket) => sum + bucket.count, 0),
+      buckets,
+      statuses: Array.from(statusTotals.values())
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { DigestFrequency, NotificationChannel, NotificationType } from '../db/enums';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export const DEFAULT_CHANNEL = NotificationChannel.IN_APP;
+
+// Hour of day (UTC) at which digests go out; weekly digests go out on Mondays
+const DIGEST_HOUR_UTC = parseInt(process.env.DIGEST_HOUR_UTC || '8', 10);
+
+const NOTIFICATION_TYPES = Object.values(NotificationType) as string[];
+
+export class NotificationPreferenceService {
+  // The caller's channel for every notification type, defaults filled in
+  static resolve(rows: { event_type: NotificationType; channel: NotificationChannel }[]): Record<NotificationType, NotificationChannel> {
+    const channels = {} as Record<NotificationType, NotificationChannel>;
+    for (const type of NOTIFICATION_TYPES as NotificationType[]) {
+      channels[type] = DEFAULT_CHANNEL;
+    }
+    for (const row of rows) {
+      channels[row.event_type] = row.channel;
+    }
+    return channels;
+  }
+
+  // Channel of each user for one notification type; users without a preference are left out
+  static async channelsFor(query: Query, organizationId: string, userIds: string[], type: NotificationType): Promise<Map<string, NotificationChannel>> {
+    const rows = await query(`
+      SELECT user_id, channel FROM notification_preferences
+      WHERE organization_id = $1 AND user_id = ANY($2::bigint[]) AND event_type = $3
+    `, [organizationId, userIds, type]);
+
+    return new Map(rows.map((row: any) => [String(row.user_id), row.channel as NotificationChannel]));
+  }
+
+  // When the next digest after `from` is due; null when digests are off
+  static nextDigestAt(frequency: DigestFrequency, from: Date = new Date()): Date | null {
+    if (frequency === DigestFrequency.NONE) {
+      return null;
+    }
+
+    const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), DIGEST_HOUR_UTC));
+    if (frequency === DigestFrequency.WEEKLY) {
+      // Days until Monday (getUTCDay: 0 = Sunday)
+      next.setUTCDate(next.getUTCDate() + (8 - next.getUTCDay()) % 7);
+      if (next.getTime() <= from.getTime()) {
+        next.setUTCDate(next.getUTCDate() + 7);
+      }
+    } else if (next.getTime() <= from.getTime()) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+    return next;
+  }
+}
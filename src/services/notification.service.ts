@@ -0,0 +1,305 @@
+import { getInitializedDataSource } from '../config/database';
+import { NotificationChannel, NotificationType } from '../db/enums';
+import { getWebSocketService } from './websocket.service';
+import { SYSTEM_ACTOR } from './activity.service';
+import { getMailTransport } from './mail.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export const NOTIFICATION_COLUMNS = `
+  id, organization_id, user_id, actor_id, type, message, object_type, object_id, data, read_at, created_at`;
+
+export interface NotificationInput {
+  type: NotificationType;
+  // null for system notifications
+  actorId: string | null;
+  message: string;
+  objectType?: string;
+  objectId?: string;
+  data?: Record<string, any>;
+}
+
+// A notification to send: who gets it and what it says (built ahead of time for outbox events)
+export interface NotificationRequest {
+  userIds: (string | null | undefined)[];
+  input: NotificationInput;
+}
+
+export interface StoredNotifications {
+  notifications: any[];
+  actorUsername: string | null;
+  // Recipients whose preference for the type is email
+  emailUserIds: string[];
+}
+
+export interface TaskRef {
+  id: string;
+  title: string;
+  projectId: string;
+  projectName?: string;
+}
+
+const taskData = (task: TaskRef) => ({
+  taskId: String(task.id),
+  taskTitle: task.title,
+  projectId: String(task.projectId),
+  projectName: task.projectName
+});
+
+const inProject = (task: TaskRef) => task.projectName ? ` in project "${task.projectName}"` : '';
+
+export class NotificationService {
+  // Store one notification per recipient and push it to their sockets. The actor is never notified
+  // about their own action, and users who are not members of the organization are skipped.
+  // Recipients' preferences for the type decide the channel: 'none' drops them, 'email' also mails
+  // the notification. Like webhook queuing, a failure is logged and never fails the mutation that caused it.
+  static async notify(organizationId: string, userIds: (string | null | undefined)[], input: NotificationInput): Promise<any[]> {
+    try {
+      const AppDataSource = await getInitializedDataSource();
+      const stored = await this.store((sql: string, params: any[] = []) => AppDataSource.query(sql, params), organizationId, userIds, input);
+      await this.deliver(organizationId, input, stored);
+      return stored.notifications;
+    } catch (error) {
+      console.error(`NotificationService: Failed to store ${input.type} notification:`, error);
+      return [];
+    }
+  }
+
+  // The writing half of notify(): runs through `query` on the owner connection, so the outbox
+  // dispatcher can store notifications in the same transaction that marks its event processed
+  static async store(query: Query, organizationId: string, userIds: (string | null | undefined)[], input: NotificationInput): Promise<StoredNotifications> {
+    let recipients = Array.from(new Set(
+      userIds.filter((id): id is string => !!id).map(String)
+    )).filter((id) => id !== String(input.actorId));
+    if (recipients.length === 0) {
+      return { notifications: [], actorUsername: null, emailUserIds: [] };
+    }
+
+    const channels = await NotificationPreferenceService.channelsFor(query, organizationId, recipients, input.type);
+    recipients = recipients.filter((id) => channels.get(id) !== NotificationChannel.NONE);
+    if (recipients.length === 0) {
+      return { notifications: [], actorUsername: null, emailUserIds: [] };
+    }
+
+    const [notifications, actor] = await Promise.all([
+      query(`
+        INSERT INTO notifications (organization_id, user_id, actor_id, type, message, object_type, object_id, data)
+        SELECT $1::bigint, om.user_id, $3::bigint, $4::notification_type, $5::text, $6::varchar, $7::bigint, $8::jsonb
+        FROM org_memberships om
+        WHERE om.organization_id = $1 AND om.user_id = ANY($2::bigint[])
+        RETURNING ${NOTIFICATION_COLUMNS}
+      `, [
+        organizationId, recipients, input.actorId, input.type, input.message,
+        input.objectType ?? null, input.objectId ?? null, input.data ?? {}
+      ]),
+      input.actorId === null
+        ? Promise.resolve([SYSTEM_ACTOR])
+        : query(`SELECT id, username FROM users WHERE id = $1`, [input.actorId])
+    ]);
+
+    return {
+      notifications,
+      actorUsername: actor[0]?.username ?? null,
+      emailUserIds: notifications
+        .map((notification: any) => String(notification.user_id))
+        .filter((id: string) => channels.get(id) === NotificationChannel.EMAIL)
+    };
+  }
+
+  // The sending half of notify(): push stored notifications to sockets and mail the email channel
+  static async deliver(organizationId: string, input: NotificationInput, stored: StoredNotifications) {
+    const webSocketService = getWebSocketService();
+    for (const notification of stored.notifications) {
+      webSocketService?.sendNotification(notification.user_id, {
+        ...notification,
+        actor_username: stored.actorUsername
+      });
+    }
+
+    if (stored.emailUserIds.length > 0) {
+      const AppDataSource = await getInitializedDataSource();
+      await this.sendEmails(
+        (sql: string, params: any[] = []) => AppDataSource.query(sql, params),
+        organizationId,
+        stored.emailUserIds,
+        input,
+        input.actorId === null ? null : stored.actorUsername
+      );
+    }
+  }
+
+  // Mail a notification to users who chose the email channel; one failed mail does not stop the rest
+  private static async sendEmails(
+    query: Query,
+    organizationId: string,
+    userIds: string[],
+    input: NotificationInput,
+    actorUsername: string | null
+  ) {
+    const [users, organization] = await Promise.all([
+      query(`SELECT id, email FROM users WHERE id = ANY($1::bigint[])`, [userIds]),
+      query(`SELECT name FROM organizations WHERE id = $1`, [organizationId])
+    ]);
+    const organizationName = organization[0]?.name ?? 'your organization';
+    const summary = actorUsername
+      ? `${actorUsername} ${input.message}`
+      : input.message.charAt(0).toUpperCase() + input.message.slice(1);
+
+    for (const user of users) {
+      try {
+        await getMailTransport().send({
+          to: user.email,
+          subject: `[${organizationName}] ${summary}`,
+          text: [
+            `${summary}.`,
+            '',
+            `View your notifications: ${APP_BASE_URL}/organizations/${organizationId}/notifications`,
+            '',
+            'You receive this email because of your notification preferences in this organization.',
+          ].join('\n'),
+        });
+      } catch (error) {
+        console.error(`NotificationService: Failed to email ${input.type} notification to user ${user.id}:`, error);
+      }
+    }
+  }
+
+  static taskAssigned(actorId: string | null, assigneeId: string | null, task: TaskRef): NotificationRequest {
+    return {
+      userIds: [assigneeId],
+      input: {
+        type: NotificationType.TASK_ASSIGNED,
+        actorId,
+        message: `assigned you to task "${task.title}"${inProject(task)}`,
+        objectType: 'task',
+        objectId: task.id,
+        data: taskData(task)
+      }
+    };
+  }
+
+  static async notifyTaskAssigned(organizationId: string, actorId: string | null, assigneeId: string | null, task: TaskRef) {
+    const { userIds, input } = this.taskAssigned(actorId, assigneeId, task);
+    return this.notify(organizationId, userIds, input);
+  }
+
+  static statusChanged(
+    actorId: string | null,
+    assigneeId: string | null,
+    task: TaskRef,
+    oldStatus: string,
+    newStatus: string
+  ): NotificationRequest {
+    return {
+      userIds: [assigneeId],
+      input: {
+        type: NotificationType.TASK_STATUS_CHANGED,
+        actorId,
+        message: `moved your task "${task.title}" from ${oldStatus} to ${newStatus}`,
+        objectType: 'task',
+        objectId: task.id,
+        data: { ...taskData(task), oldStatus, newStatus }
+      }
+    };
+  }
+
+  static async notifyStatusChanged(
+    organizationId: string,
+    actorId: string,
+    assigneeId: string | null,
+    task: TaskRef,
+    oldStatus: string,
+    newStatus: string
+  ) {
+    const { userIds, input } = this.statusChanged(actorId, assigneeId, task, oldStatus, newStatus);
+    return this.notify(organizationId, userIds, input);
+  }
+
+  static async notifyMentioned(
+    organizationId: string,
+    actorId: string,
+    mentionedUserIds: string[],
+    task: TaskRef,
+    commentId: string
+  ) {
+    return this.notify(organizationId, mentionedUserIds, {
+      type: NotificationType.MENTIONED,
+      actorId,
+      message: `mentioned you in a comment on task "${task.title}"`,
+      objectType: 'comment',
+      objectId: commentId,
+      data: { ...taskData(task), commentId: String(commentId) }
+    });
+  }
+
+  // Due-date reminder from the reminder job; daysLeft is negative once the task is overdue
+  static taskReminder(userId: string, task: TaskRef, dueDate: string, daysLeft: number): NotificationRequest {
+    let when: string;
+    if (daysLeft < 0) {
+      when = `is overdue (due ${dueDate})`;
+    } else if (daysLeft === 0) {
+      when = 'is due today';
+    } else {
+      when = daysLeft === 1 ? 'is due tomorrow' : `is due in ${daysLeft} days`;
+    }
+    return {
+      userIds: [userId],
+      input: {
+        type: daysLeft < 0 ? NotificationType.TASK_OVERDUE : NotificationType.TASK_DUE_SOON,
+        actorId: null,
+        message: `task "${task.title}" ${when}${inProject(task)}`,
+        objectType: 'task',
+        objectId: task.id,
+        data: { ...taskData(task), dueDate, daysLeft }
+      }
+    };
+  }
+
+  // scope: the organization or the project the user was added to
+  static async notifyMemberAdded(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+    scope: { type: 'organization' | 'project'; id: string; name?: string },
+    role: string
+  ) {
+    const where = scope.type === 'project'
+      ? `project "${scope.name ?? scope.id}"`
+      : 'the organization';
+    return this.notify(organizationId, [userId], {
+      type: NotificationType.MEMBER_ADDED,
+      actorId,
+      message: `added you to ${where} as ${role}`,
+      objectType: scope.type,
+      objectId: scope.id,
+      data: { scope: scope.type, scopeId: String(scope.id), scopeName: scope.name, role }
+    });
+  }
+
+  // scope: the organization or the project whose role changed
+  static async notifyRoleChanged(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+    scope: { type: 'organization' | 'project'; id: string; name?: string },
+    role: string,
+    oldRole?: string
+  ) {
+    const where = scope.type === 'project'
+      ? `in project "${scope.name ?? scope.id}"`
+      : 'in the organization';
+    return this.notify(organizationId, [userId], {
+      type: NotificationType.ROLE_CHANGED,
+      actorId,
+      message: oldRole
+        ? `changed your role ${where} from ${oldRole} to ${role}`
+        : `changed your role ${where} to ${role}`,
+      objectType: scope.type,
+      objectId: scope.id,
+      data: { scope: scope.type, scopeId: String(scope.id), scopeName: scope.name, role, oldRole }
+    });
+  }
+}
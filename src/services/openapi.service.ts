@@ -0,0 +1,285 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { jwtMiddleware } from '../utils/middleware/jwtMiddleWare';
+import { RequestSchemas } from '../utils/middleware/validationMiddleware';
+
+type JsonSchema = Record<string, any>;
+
+// A router and the path it is mounted at in src/index.ts
+export interface DocumentedRouter {
+  prefix: string;
+  router: Router;
+  tag: string;
+  description?: string;
+}
+
+// What the route definition itself cannot say. Keyed by "METHOD /openapi/{path}".
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  // Success status, 200 by default
+  status?: number;
+  // Error codes the handler answers with besides the ones implied by its guards
+  errors?: string[];
+  // Other refusals, answered as { message }
+  responses?: Record<number, string>;
+  // 'refresh' authenticates with the refresh cookie instead of an access token
+  auth?: 'refresh';
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description: string;
+  routers: DocumentedRouter[];
+  operations: Record<string, OperationDoc>;
+}
+
+interface ErrorCodeDoc {
+  status: number;
+  description: string;
+  schema: 'Error' | 'ValidationError' | 'ForbiddenError';
+}
+
+// Every machine-readable `code` the API answers with
+export const ERROR_CODES: Record<string, ErrorCodeDoc> = {
+  validation_failed: { status: 400, schema: 'ValidationError', description: 'The params, query or body do not match the route\'s schema; `errors` lists every issue' },
+  invalid_cursor: { status: 400, schema: 'Error', description: 'The pagination cursor was not issued by this API' },
+  missing_auth: { status: 401, schema: 'Error', description: 'No `Authorization: Bearer <access token>` header' },
+  token_expired: { status: 401, schema: 'Error', description: 'The access token expired; get a new one from `POST /api/auth/refresh` and retry' },
+  invalid_token: { status: 401, schema: 'Error', description: 'The access token is malformed or its signature does not verify' },
+  invalid_claims: { status: 401, schema: 'Error', description: 'The access token carries no user id' },
+  missing_refresh: { status: 401, schema: 'Error', description: 'No `refreshToken` cookie' },
+  invalid_refresh: { status: 401, schema: 'Error', description: 'The refresh token is malformed, unknown or revoked; log in again' },
+  invalid_token_type: { status: 401, schema: 'Error', description: 'An access token was sent as the refresh cookie' },
+  refresh_expired: { status: 401, schema: 'Error', description: 'The refresh token expired; log in again' },
+  refresh_reused: { status: 401, schema: 'Error', description: 'The refresh token was already rotated, so its whole family is revoked; log in again' },
+  user_not_found: { status: 401, schema: 'Error', description: 'The refresh token belongs to a user that no longer exists' },
+  forbidden: { status: 403, schema: 'ForbiddenError', description: 'The caller\'s role lacks the permission named in `permission`' },
+  task_blocked: { status: 409, schema: 'Error', description: 'The project\'s blocker policy refuses completing a task with open blockers; `blockers` lists them' },
+  internal_error: { status: 500, schema: 'Error', description: 'Unexpected failure' },
+  db_connect_failed: { status: 500, schema: 'Error', description: 'No database connection for the request transaction' },
+  commit_failed: { status: 500, schema: 'Error', description: 'The request transaction failed to commit; nothing was saved' },
+  permission_check_failed: { status: 500, schema: 'Error', description: 'Loading the caller\'s roles failed' }
+};
+
+const ACCESS_TOKEN_ERRORS = ['missing_auth', 'token_expired', 'invalid_token', 'invalid_claims', 'db_connect_failed', 'commit_failed'];
+
+const NUMERIC_ID: JsonSchema = { type: 'string', pattern: '^\\d+$' };
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// zod schemas as JSON Schema 2020-12 (what OpenAPI 3.1 uses), describing what clients send
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+  return jsonSchema;
+};
+
+// Express "/:projectId/members" => OpenAPI "/{projectId}/members"
+const toOpenApiPath = (prefix: string, routePath: string): string => {
+  const path = `${prefix}${routePath === '/' ? '' : routePath}`;
+  return path.replace(/:(\w+)/g, '{$1}');
+};
+
+// "GET /api/organizations/{organizationId}/projects" => "getOrganizationsByOrganizationIdProjects"
+const toOperationId = (method: string, path: string): string => {
+  const words = path.split('/')
+    .filter((segment) => segment && segment !== 'api')
+    .map((segment) => segment.startsWith('{') ? `By-${segment.slice(1, -1)}` : segment)
+    .join('-')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return method + words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+};
+
+// Error responses grouped by status; each lists its codes
+const errorResponses = (codes: string[]): Record<string, any> => {
+  const responses: Record<string, any> = {};
+  const byStatus = new Map<number, string[]>();
+  for (const code of codes) {
+    const doc = ERROR_CODES[code];
+    if (!doc) {
+      throw new Error(`Undocumented error code: ${code}`);
+    }
+    byStatus.set(doc.status, [...(byStatus.get(doc.status) ?? []), code]);
+  }
+
+  for (const [status, statusCodes] of byStatus) {
+    const schemas = Array.from(new Set(statusCodes.map((code) => ERROR_CODES[code].schema)));
+    responses[status] = {
+      description: statusCodes.map((code) => `\`${code}\`: ${ERROR_CODES[code].description}`).join('\n\n'),
+      content: {
+        'application/json': { schema: schemas.length === 1 ? ref(schemas[0]) : { oneOf: schemas.map(ref) } }
+      }
+    };
+  }
+  return responses;
+};
+
+export class OpenApiService {
+  // Walks the routers' route stacks: validate() guards give the params, query and body,
+  // jwtMiddleware marks bearer auth and requirePermission() the permission needed
+  static buildDocument(options: OpenApiOptions): Record<string, any> {
+    const paths: Record<string, Record<string, any>> = {};
+
+    for (const { prefix, router, tag } of options.routers) {
+      // router.use(jwtMiddleware) protects every route declared after it
+      let routerAuthenticated = false;
+
+      for (const layer of (router as any).stack) {
+        if (!layer.route) {
+          routerAuthenticated = routerAuthenticated || layer.handle === jwtMiddleware;
+          continue;
+        }
+
+        const handlers: any[] = layer.route.stack.map((routeLayer: any) => routeLayer.handle);
+        const schemas: RequestSchemas = handlers.find((handler) => handler.schemas)?.schemas ?? {};
+        const permission: string | undefined = handlers.find((handler) => handler.action)?.action;
+        const authenticated = routerAuthenticated || handlers.includes(jwtMiddleware);
+        const path = toOpenApiPath(prefix, layer.route.path);
+
+        for (const method of Object.keys(layer.route.methods).filter((name) => name !== '_all')) {
+          const key = `${method.toUpperCase()} ${path}`;
+          const doc = options.operations[key] ?? { summary: key };
+          paths[path] = paths[path] ?? {};
+          paths[path][method] = this.buildOperation(method, path, tag, doc, schemas, permission, authenticated);
+        }
+      }
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: options.title,
+        version: options.version,
+        description: options.description
+      },
+      tags: options.routers.map(({ tag, description }) => ({ name: tag, ...(description ? { description } : {}) })),
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+            description: 'Access token from login, register or refresh; valid for 15 minutes'
+          },
+          refreshCookie: {
+            type: 'apiKey',
+            in: 'cookie',
+            name: 'refreshToken',
+            description: 'HTTP-only refresh token cookie set by login and register, rotated on every refresh'
+          }
+        },
+        schemas: {
+          Error: {
+            type: 'object',
+            properties: {
+              code: { type: 'string', enum: Object.keys(ERROR_CODES), description: 'Set for the errors clients can act on' },
+              message: { type: 'string' }
+            },
+            required: ['message']
+          },
+          ValidationError: {
+            type: 'object',
+            properties: {
+              code: { const: 'validation_failed' },
+              message: { const: 'Validation failed' },
+              errors: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    in: { type: 'string', enum: ['params', 'query', 'body'] },
+                    field: { type: 'string', description: 'Dotted path inside the part, e.g. statuses.0.key; empty for the part itself' },
+                    message: { type: 'string' }
+                  },
+                  required: ['in', 'field', 'message']
+                }
+              }
+            },
+            required: ['code', 'message', 'errors']
+          },
+          ForbiddenError: {
+            type: 'object',
+            properties: {
+              code: { const: 'forbidden' },
+              message: { type: 'string' },
+              permission: { type: 'string', description: 'The action the caller is missing, e.g. task.create' }
+            },
+            required: ['code', 'message', 'permission']
+          }
+        }
+      }
+    };
+  }
+
+  private static buildOperation(
+    method: string,
+    path: string,
+    tag: string,
+    doc: OperationDoc,
+    schemas: RequestSchemas,
+    permission: string | undefined,
+    authenticated: boolean
+  ): Record<string, any> {
+    const parameters: any[] = [];
+
+    // Mount params (e.g. organizationId) are not part of the router's own schemas
+    const paramsSchema = schemas.params ? toJsonSchema(schemas.params) : { properties: {} };
+    for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+      parameters.push({ name, in: 'path', required: true, schema: paramsSchema.properties?.[name] ?? NUMERIC_ID });
+    }
+
+    if (schemas.query) {
+      const querySchema = toJsonSchema(schemas.query);
+      for (const [name, schema] of Object.entries<JsonSchema>(querySchema.properties ?? {})) {
+        parameters.push({ name, in: 'query', required: (querySchema.required ?? []).includes(name), schema });
+      }
+    }
+
+    const codes: string[] = [];
+    if (schemas.params || schemas.query || schemas.body) codes.push('validation_failed');
+    if (authenticated && doc.auth !== 'refresh') codes.push(...ACCESS_TOKEN_ERRORS);
+    if (permission) codes.push('forbidden', 'permission_check_failed');
+    codes.push(...(doc.errors ?? []));
+
+    const responses: Record<string, any> = {
+      [doc.status ?? 200]: {
+        description: doc.status === 201 ? 'Created' : 'OK',
+        content: { 'application/json': { schema: { type: 'object' } } }
+      },
+      ...errorResponses(codes)
+    };
+    for (const [status, description] of Object.entries(doc.responses ?? {})) {
+      responses[status] = responses[status]
+        ? { ...responses[status], description: `${description}\n\n${responses[status].description}` }
+        : { description, content: { 'application/json': { schema: ref('Error') } } };
+    }
+
+    const description = [doc.description, permission ? `Requires the \`${permission}\` permission.` : undefined]
+      .filter(Boolean)
+      .join('\n\n');
+
+    let security: Record<string, string[]>[] = [];
+    if (doc.auth === 'refresh') security = [{ refreshCookie: [] }];
+    else if (authenticated) security = [{ bearerAuth: [] }];
+
+    return {
+      tags: [tag],
+      summary: doc.summary,
+      ...(description ? { description } : {}),
+      operationId: toOperationId(method, path),
+      ...(permission ? { 'x-permission': permission } : {}),
+      security,
+      parameters,
+      ...(schemas.body ? {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(schemas.body) } }
+        }
+      } : {}),
+      responses
+    };
+  }
+}
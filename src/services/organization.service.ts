@@ -0,0 +1,109 @@
+import { Organization } from '../entity/organization.entity';
+import { OrgMembership } from '../entity/org-membership.entity';
+import { OrgRole } from '../db/enums';
+import { ServiceContext, inTransaction, requireOrganizationId } from './service-context';
+
+export interface OrganizationDto {
+  id: string;
+  name: string;
+  subdomain: string;
+  // Socket.IO room of the organization
+  roomKey: string;
+  reminderLeadDays: number[];
+  overdueEscalationDays: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An organization together with the context user's role in it
+export interface MemberOrganizationDto extends OrganizationDto {
+  role: OrgRole;
+}
+
+export interface CreateOrganizationInput {
+  name: string;
+  subdomain: string;
+}
+
+// error and status (the HTTP status to answer with) are set when the change was refused
+export interface OrganizationResult {
+  organization?: OrganizationDto;
+  error?: string;
+  status?: number;
+}
+
+export const toOrganizationDto = (organization: Organization): OrganizationDto => ({
+  id: String(organization.id),
+  name: organization.name,
+  subdomain: organization.subdomain,
+  roomKey: organization.roomKey,
+  reminderLeadDays: organization.reminderLeadDays,
+  overdueEscalationDays: organization.overdueEscalationDays,
+  createdAt: organization.createdAt,
+  updatedAt: organization.updatedAt
+});
+
+const toMemberOrganizationDto = (membership: OrgMembership): MemberOrganizationDto => ({
+  ...toOrganizationDto(membership.organization),
+  role: membership.role
+});
+
+// Organizations of the context's user. Permission checks stay with the caller.
+export class OrganizationService {
+  // Sorted by name
+  static async listForUser(ctx: ServiceContext): Promise<MemberOrganizationDto[]> {
+    if (!ctx.userId) {
+      return [];
+    }
+    const memberships = await ctx.manager.getRepository(OrgMembership).find({
+      where: { userId: ctx.userId },
+      relations: { organization: true },
+      order: { organization: { name: 'ASC' } }
+    });
+    return memberships.map(toMemberOrganizationDto);
+  }
+
+  // The context's organization, or null when the context user is not a member
+  static async getCurrent(ctx: ServiceContext): Promise<MemberOrganizationDto | null> {
+    if (!ctx.userId) {
+      return null;
+    }
+    const membership = await ctx.manager.getRepository(OrgMembership).findOne({
+      where: { organizationId: requireOrganizationId(ctx), userId: ctx.userId },
+      relations: { organization: true }
+    });
+    return membership ? toMemberOrganizationDto(membership) : null;
+  }
+
+  // The context user becomes the OWNER; the subdomain doubles as the socket room key
+  static async create(ctx: ServiceContext, input: CreateOrganizationInput): Promise<OrganizationResult> {
+    if (!ctx.userId) {
+      throw new Error('Creating an organization requires a user');
+    }
+    if (!input.name || !input.subdomain) {
+      return { error: 'Name and subdomain are required', status: 400 };
+    }
+
+    if (await ctx.manager.getRepository(Organization).existsBy({ subdomain: input.subdomain })) {
+      return { error: 'Subdomain already exists', status: 409 };
+    }
+
+    const organization = await inTransaction(ctx, async (tx) => {
+      const inserted = await tx.manager.getRepository(Organization).insert({
+        name: input.name,
+        subdomain: input.subdomain,
+        roomKey: input.subdomain
+      });
+      const organizationId = String(inserted.identifiers[0].id);
+
+      await tx.manager.getRepository(OrgMembership).insert({
+        organizationId,
+        userId: ctx.userId!,
+        role: OrgRole.OWNER
+      });
+      return tx.manager.getRepository(Organization).findOneByOrFail({ id: organizationId });
+    });
+
+    return { organization: toOrganizationDto(organization) };
+  }
+}
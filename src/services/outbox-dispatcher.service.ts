@@ -0,0 +1,256 @@
+import { getInitializedDataSource } from '../config/database';
+import { OutboxEventRow } from './outbox.service';
+import { ActivityService } from './activity.service';
+import { NotificationService } from './notification.service';
+import { getWebSocketService } from './websocket.service';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+// Work to do once the dispatcher's transaction has committed, e.g. a socket broadcast
+export type AfterCommit = () => void | Promise<void>;
+
+export interface OutboxSink {
+  name: string;
+  // Writes made through `query` commit together with the event being marked processed, or not at all
+  handle(query: Query, event: OutboxEventRow): Promise<AfterCommit | void>;
+}
+
+export interface OutboxDispatcherOptions {
+  pollIntervalMs: number;
+  maxAttempts: number;
+  batchSize: number;
+  // Processed events are deleted after this many days
+  retentionDays: number;
+}
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const activitySink: OutboxSink = {
+  name: 'activity',
+  async handle(query, event) {
+    if (!event.payload.activity) {
+      return;
+    }
+    const { activity, roomKey, webhooksQueued } = await ActivityService.recordActivity(
+      query, event.organization_id, event.actor_id, event.payload.activity
+    );
+    return () => ActivityService.publishActivity(roomKey, activity, webhooksQueued);
+  }
+};
+
+const notificationSink: OutboxSink = {
+  name: 'notification',
+  async handle(query, event) {
+    const deliveries: AfterCommit[] = [];
+    for (const { userIds, input } of event.payload.notifications ?? []) {
+      const stored = await NotificationService.store(query, event.organization_id, userIds, input);
+      deliveries.push(() => NotificationService.deliver(event.organization_id, input, stored));
+    }
+    return async () => {
+      for (const deliver of deliveries) {
+        await deliver();
+      }
+    };
+  }
+};
+
+const broadcastSink: OutboxSink = {
+  name: 'broadcast',
+  async handle(query, event) {
+    const broadcast = event.payload.broadcast;
+    if (!broadcast) {
+      return;
+    }
+    return () => getWebSocketService()?.broadcastTaskMoved(broadcast.data.projectId, broadcast.data);
+  }
+};
+
+// Hands outbox_events rows to the sinks, oldest first. Each event is claimed with FOR UPDATE SKIP LOCKED
+// and handled in its own transaction, which also marks it processed, so database effects (activities,
+// webhook deliveries, notifications) happen exactly once per event even with several app instances.
+// Socket pushes and mail run after the commit: a crash in between loses them, it never repeats them.
+export class OutboxDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private pending = false;
+  private lastPurgeAt = 0;
+  private readonly sinks: OutboxSink[] = [activitySink, notificationSink, broadcastSink];
+
+  constructor(private readonly options: OutboxDispatcherOptions) {}
+
+  // Exponential backoff: 5s, 10s, 20s, ... capped at 1h
+  static backoffMs(attempt: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_MS);
+  }
+
+  // Add a sink (e.g. a message queue publisher); it sees every event from then on
+  registerSink(sink: OutboxSink) {
+    this.sinks.push(sink);
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.trigger(), this.options.pollIntervalMs);
+    this.timer.unref();
+    console.log(`Outbox dispatcher started (poll every ${this.options.pollIntervalMs}ms)`);
+    this.trigger();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run now instead of waiting for the next poll (e.g. right after a request wrote an event)
+  trigger() {
+    if (this.processing) {
+      this.pending = true;
+      return;
+    }
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('Outbox dispatcher error:', error));
+    });
+  }
+
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      this.pending = true;
+      return 0;
+    }
+    this.processing = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.pending = false;
+        let handled = 0;
+        while (handled < this.options.batchSize && await this.processNext()) {
+          handled++;
+        }
+        processed += handled;
+        // A full batch means more may be waiting
+        if (handled === this.options.batchSize) {
+          this.pending = true;
+        }
+      } while (this.pending);
+
+      await this.purgeProcessed();
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  // Handle the oldest due event; false when none is due
+  private async processNext(): Promise<boolean> {
+    const AppDataSource = await getInitializedDataSource();
+    let event = null as OutboxEventRow | null;
+    const afterCommit: { sink: string; run: AfterCommit }[] = [];
+
+    try {
+      await AppDataSource.transaction(async (manager) => {
+        const query = (sql: string, params: any[] = []) => manager.query(sql, params);
+
+        const claimed = await query(`
+          SELECT id, organization_id, event_type, aggregate_type, aggregate_id, actor_id, payload, attempt_count, created_at
+          FROM outbox_events
+          WHERE processed_at IS NULL AND next_attempt_at <= now()
+          ORDER BY next_attempt_at ASC, id ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        `);
+        event = claimed[0] || null;
+        if (!event) {
+          return;
+        }
+
+        for (const sink of this.sinks) {
+          const run = await sink.handle(query, event);
+          if (run) {
+            afterCommit.push({ sink: sink.name, run });
+          }
+        }
+
+        await query(`
+          UPDATE outbox_events
+          SET processed_at = now(), next_attempt_at = NULL, attempt_count = attempt_count + 1, last_error = NULL
+          WHERE id = $1
+        `, [event.id]);
+      });
+    } catch (error: any) {
+      if (!event) {
+        throw error;
+      }
+      await this.recordFailure(event, error);
+      return true;
+    }
+
+    if (!event) {
+      return false;
+    }
+
+    for (const { sink, run } of afterCommit) {
+      try {
+        await run();
+      } catch (error) {
+        console.error(`Outbox event ${event.id}: ${sink} sink failed after commit:`, error);
+      }
+    }
+    return true;
+  }
+
+  // Nothing the sinks wrote survived the rollback; retry the whole event later or give up on it
+  private async recordFailure(event: OutboxEventRow, error: any) {
+    const AppDataSource = await getInitializedDataSource();
+    const attemptCount = event.attempt_count + 1;
+    const retry = attemptCount < this.options.maxAttempts;
+    console.error(`Outbox event ${event.id} (${event.event_type}) failed on attempt ${attemptCount}:`, error);
+
+    await AppDataSource.query(`
+      UPDATE outbox_events
+      SET attempt_count = $2, last_error = $3,
+          next_attempt_at = CASE WHEN $4::boolean THEN now() + $5::int * interval '1 millisecond' ELSE NULL END
+      WHERE id = $1 AND processed_at IS NULL
+    `, [event.id, attemptCount, String(error?.message ?? error), retry, OutboxDispatcher.backoffMs(attemptCount)]);
+  }
+
+  private async purgeProcessed() {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = Date.now();
+
+    const AppDataSource = await getInitializedDataSource();
+    await AppDataSource.query(`
+      DELETE FROM outbox_events
+      WHERE processed_at IS NOT NULL AND processed_at < now() - $1::int * interval '1 day'
+    `, [this.options.retentionDays]);
+  }
+}
+
+// Singleton instance
+let outboxDispatcher: OutboxDispatcher | null = null;
+
+export const initializeOutboxDispatcher = (): OutboxDispatcher => {
+  if (!outboxDispatcher) {
+    outboxDispatcher = new OutboxDispatcher({
+      pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '5000', 10),
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+      batchSize: 100,
+      retentionDays: parseInt(process.env.OUTBOX_RETENTION_DAYS || '7', 10)
+    });
+    outboxDispatcher.start();
+  }
+  return outboxDispatcher;
+};
+
+export const getOutboxDispatcher = (): OutboxDispatcher | null => {
+  return outboxDispatcher;
+};
@@ -0,0 +1,50 @@
+import { ActivityInput } from './activity.service';
+import { NotificationRequest } from './notification.service';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+// What the sinks do for an event; every part is optional
+export interface OutboxPayload {
+  activity?: ActivityInput;
+  notifications?: NotificationRequest[];
+  // Sent to the project room (data.projectId) as-is, e.g. { event: 'task-moved', data: move }
+  broadcast?: { event: 'task-moved'; data: Record<string, any> };
+}
+
+export interface OutboxEventInput {
+  organizationId: string;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  // null for events written by system jobs
+  actorId: string | null;
+  payload: OutboxPayload;
+}
+
+// A claimed outbox_events row
+export interface OutboxEventRow {
+  id: string;
+  organization_id: string;
+  event_type: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  actor_id: string | null;
+  payload: OutboxPayload;
+  attempt_count: number;
+  created_at: Date;
+}
+
+export class OutboxService {
+  // Write an event with the same `query` as the domain change (executeInTransactionWithRLS), so the
+  // event exists exactly when the change committed. Nothing is returned: RLS lets requests insert
+  // events but not read them back.
+  static async enqueue(query: Query, event: OutboxEventInput): Promise<void> {
+    await query(`
+      INSERT INTO outbox_events (organization_id, event_type, aggregate_type, aggregate_id, actor_id, payload)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+    `, [
+      event.organizationId, event.eventType, event.aggregateType, event.aggregateId,
+      event.actorId, JSON.stringify(event.payload)
+    ]);
+  }
+}
@@ -0,0 +1,231 @@
+import { executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { OrgRole, ProjectRole, RoleScope } from '../db/enums';
+
+// Named actions checked by routes and exposed to the frontend via GET /permissions
+export const ORG_ACTIONS = [
+  'organization.view',
+  'organization.update',
+  'ownership.transfer',
+  'member.view',
+  'member.invite',
+  'member.update_role',
+  'member.remove',
+  'role.manage',
+  'webhook.manage',
+  'label.manage',
+  'project.create',
+] as const;
+
+export const PROJECT_ACTIONS = [
+  'project.view',
+  'project.update',
+  'project.delete',
+  'project.member.manage',
+  'workflow.update',
+  'task.view',
+  'task.create',
+  'task.update',
+  'task.assign',
+  'task.delete',
+  'comment.create',
+  'comment.delete_any',
+  'view.share',
+] as const;
+
+export type OrgAction = typeof ORG_ACTIONS[number];
+export type ProjectAction = typeof PROJECT_ACTIONS[number];
+export type Action = OrgAction | ProjectAction;
+
+const ALL_ACTIONS: Action[] = [...ORG_ACTIONS, ...PROJECT_ACTIONS];
+
+// Org roles apply to the organization and to every project in it
+const ORG_ROLE_PERMISSIONS: Record<OrgRole, Action[]> = {
+  [OrgRole.OWNER]: ALL_ACTIONS,
+  [OrgRole.ADMIN]: ALL_ACTIONS.filter((action) => action !== 'ownership.transfer'),
+  [OrgRole.USER]: ['organization.view'],
+};
+
+// Project roles only apply within the project they were granted on
+const PROJECT_ROLE_PERMISSIONS: Record<ProjectRole, ProjectAction[]> = {
+  [ProjectRole.EDITOR]: [
+    'project.view',
+    'project.update',
+    'workflow.update',
+    'task.view',
+    'task.create',
+    'task.update',
+    'task.assign',
+    'task.delete',
+    'comment.create',
+    'view.share',
+  ],
+  [ProjectRole.VIEWER]: ['project.view', 'task.view'],
+};
+
+// Custom roles can never grant these; they stay with the base OWNER/ADMIN roles
+const CUSTOM_ROLE_EXCLUDED: Action[] = ['ownership.transfer', 'role.manage'];
+
+// Project-scoped custom roles apply to a single project, so only per-project actions make sense
+const PROJECT_SCOPE_EXCLUDED: Action[] = ['project.delete', 'project.member.manage'];
+
+export interface CustomRoleRef {
+  id: string;
+  name: string;
+}
+
+export interface AccessContext {
+  orgRole: OrgRole | null;
+  projectRole: ProjectRole | null;
+  orgCustomRole: CustomRoleRef | null;
+  projectCustomRole: CustomRoleRef | null;
+  projectId: string | null;
+  permissions: Set<Action>;
+}
+
+export class PermissionService {
+  static isProjectAction(action: Action): action is ProjectAction {
+    return (PROJECT_ACTIONS as readonly string[]).includes(action);
+  }
+
+  static isAction(value: unknown): value is Action {
+    return typeof value === 'string' && (ALL_ACTIONS as string[]).includes(value);
+  }
+
+  // Actions a custom role of the given scope may grant
+  static assignableActions(scope: RoleScope): Action[] {
+    const excluded = scope === RoleScope.PROJECT
+      ? [...CUSTOM_ROLE_EXCLUDED, ...PROJECT_SCOPE_EXCLUDED, ...ORG_ACTIONS]
+      : CUSTOM_ROLE_EXCLUDED;
+    return ALL_ACTIONS.filter((action) => !excluded.includes(action));
+  }
+
+  // Returns an error message, or null when every permission may be granted by a role of this scope
+  static validateCustomRolePermissions(scope: RoleScope, permissions: any): string | null {
+    if (!Array.isArray(permissions)) {
+      return 'permissions must be an array of action names';
+    }
+    const unknown = permissions.find((permission) => !this.isAction(permission));
+    if (unknown !== undefined) {
+      return `Unknown permission "${unknown}"`;
+    }
+    const assignable = this.assignableActions(scope);
+    const forbidden = permissions.find((permission: Action) => !assignable.includes(permission));
+    if (forbidden) {
+      return `A ${scope} role cannot grant "${forbidden}"`;
+    }
+    return null;
+  }
+
+  static permissionsFor(
+    orgRole: OrgRole | null,
+    projectRole: ProjectRole | null,
+    orgCustomPermissions: string[] = [],
+    projectCustomPermissions: string[] = []
+  ): Set<Action> {
+    const permissions = new Set<Action>(orgRole ? ORG_ROLE_PERMISSIONS[orgRole] : []);
+    if (projectRole) {
+      PROJECT_ROLE_PERMISSIONS[projectRole].forEach((action) => permissions.add(action));
+    }
+    // Stored permissions are re-checked against their scope's exclusions, so a role saved before an
+    // action was excluded, or a hand-edited row, cannot grant it
+    for (const [scope, customPermissions] of [
+      [RoleScope.ORGANIZATION, orgCustomPermissions],
+      [RoleScope.PROJECT, projectCustomPermissions],
+    ] as const) {
+      const assignable = this.assignableActions(scope);
+      customPermissions
+        .filter((permission): permission is Action => this.isAction(permission) && assignable.includes(permission))
+        .forEach((permission) => permissions.add(permission));
+    }
+    return permissions;
+  }
+
+  // Load the caller's roles (base and custom) for the current organization, and project if given.
+  // Returns null when the project does not exist in this organization.
+  static async resolve(req: any, projectId?: string | null): Promise<AccessContext | null> {
+    const rows = await executeWithRLS(req, `
+      SELECT
+        om.role as org_role,
+        ocr.id as org_custom_role_id,
+        ocr.name as org_custom_role_name,
+        ocr.permissions as org_custom_permissions,
+        p.id as project_id,
+        pm.role as project_role,
+        pcr.id as project_custom_role_id,
+        pcr.name as project_custom_role_name,
+        pcr.permissions as project_custom_permissions
+      FROM org_memberships om
+      LEFT JOIN custom_roles ocr ON ocr.id = om.custom_role_id AND ocr.scope = 'organization'
+      LEFT JOIN projects p ON p.id = $3 AND p.organization_id = om.organization_id
+      LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = om.user_id
+      LEFT JOIN custom_roles pcr ON pcr.id = pm.custom_role_id AND pcr.scope = 'project'
+      WHERE om.organization_id = $1 AND om.user_id = $2
+    `, [req.organizationId, req.user!.userId, projectId || null]);
+
+    const row = rows[0];
+    if (projectId && !row?.project_id) {
+      return null;
+    }
+
+    const orgRole: OrgRole | null = row?.org_role || null;
+    const projectRole: ProjectRole | null = row?.project_role || null;
+
+    return {
+      orgRole,
+      projectRole,
+      orgCustomRole: row?.org_custom_role_id ? { id: row.org_custom_role_id, name: row.org_custom_role_name } : null,
+      projectCustomRole: row?.project_custom_role_id ? { id: row.project_custom_role_id, name: row.project_custom_role_name } : null,
+      projectId: projectId || null,
+      permissions: this.permissionsFor(orgRole, projectRole, row?.org_custom_permissions || [], row?.project_custom_permissions || []),
+    };
+  }
+
+  // OWNER may grant any base role, ADMIN anything but OWNER, and members acting through a custom role only USER
+  static canAssignOrgRole(actorRole: OrgRole | null, role: OrgRole): boolean {
+    if (actorRole === OrgRole.OWNER) {
+      return true;
+    }
+    if (actorRole === OrgRole.ADMIN) {
+      return role !== OrgRole.OWNER;
+    }
+    return role === OrgRole.USER;
+  }
+
+  // Same ladder for acting on an existing member: nobody manages someone ranked above what they could grant
+  static canManageOrgMember(actorRole: OrgRole | null, targetRole: OrgRole): boolean {
+    return this.canAssignOrgRole(actorRole, targetRole);
+  }
+
+  // SQL subquery of the project ids the user can read in an organization: project members, OWNER/ADMIN,
+  // and org-scoped custom roles granting project.view (same rule as hasProjectAccess plus custom roles).
+  // userParam/orgParam are placeholders such as '$1'; without orgParam it spans every org the user belongs to.
+  static accessibleProjectIdsSql(userParam: string, orgParam: string | null): string {
+    return `
+      SELECT p.id FROM projects p
+      JOIN org_memberships om ON om.organization_id = p.organization_id AND om.user_id = ${userParam}
+      LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = ${userParam}
+      LEFT JOIN custom_roles cr ON cr.id = om.custom_role_id AND cr.scope = 'organization'
+      WHERE ${orgParam ? `p.organization_id = ${orgParam}` : 'true'}
+        AND (pm.user_id IS NOT NULL OR om.role IN ('OWNER', 'ADMIN') OR 'project.view' = ANY(cr.permissions))
+    `;
+  }
+
+  // Look up a custom role for assignment; returns an error message when it cannot be used here
+  static async findAssignableRole(req: any, roleId: any, scope: RoleScope): Promise<{ role?: any; error?: string }> {
+    if (!/^\d+$/.test(String(roleId))) {
+      return { error: 'customRoleId must be a role id or null' };
+    }
+
+    const rows = await executeWithRLS(req, `
+      SELECT id, name, scope FROM custom_roles WHERE id = $1 AND organization_id = $2
+    `, [roleId, req.organizationId]);
+
+    if (rows.length === 0) {
+      return { error: 'Custom role not found' };
+    }
+    if (rows[0].scope !== scope) {
+      return { error: `Custom role "${rows[0].name}" is a ${rows[0].scope} role and cannot be assigned here` };
+    }
+    return { role: rows[0] };
+  }
+}
@@ -0,0 +1,178 @@
+import { Not } from 'typeorm';
+import { Project } from '../entity/project.entity';
+import { ProjectMember } from '../entity/project-member.entity';
+import { BlockerPolicy, ProjectRole } from '../db/enums';
+import { ServiceContext, inTransaction, requireOrganizationId } from './service-context';
+
+export interface ProjectDto {
+  id: string;
+  organizationId: string;
+  name: string;
+  slug: string;
+  blockerPolicy: BlockerPolicy;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A project as seen by the context's user: userRole is null when they are not a project member
+// and see it through their organization role
+export interface ProjectSummaryDto extends ProjectDto {
+  userRole: ProjectRole | null;
+}
+
+export interface CreateProjectInput {
+  name: string;
+  slug: string;
+}
+
+// Empty or omitted name and slug keep their value
+export interface UpdateProjectInput {
+  name?: string;
+  slug?: string;
+  blockerPolicy?: BlockerPolicy;
+}
+
+// error and status (the HTTP status to answer with) are set when the change was refused
+export interface ProjectResult {
+  project?: ProjectDto;
+  error?: string;
+  status?: number;
+}
+
+export const toProjectDto = (project: Project): ProjectDto => ({
+  id: String(project.id),
+  organizationId: String(project.organizationId),
+  name: project.name,
+  slug: project.slug,
+  blockerPolicy: project.blockerPolicy,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+const SLUG_TAKEN = 'Project slug already exists in this organization';
+
+// Projects of the context's organization. Permission checks stay with the caller.
+export class ProjectService {
+  // Newest first
+  static async list(ctx: ServiceContext): Promise<ProjectSummaryDto[]> {
+    const organizationId = requireOrganizationId(ctx);
+    const [projects, roles] = await Promise.all([
+      ctx.manager.getRepository(Project).find({
+        where: { organizationId },
+        order: { createdAt: 'DESC' }
+      }),
+      this.rolesOf(ctx)
+    ]);
+    return projects.map((project) => ({ ...toProjectDto(project), userRole: roles.get(String(project.id)) ?? null }));
+  }
+
+  static async get(ctx: ServiceContext, projectId: string): Promise<ProjectSummaryDto | null> {
+    const project = await ctx.manager.getRepository(Project).findOneBy({
+      id: projectId,
+      organizationId: requireOrganizationId(ctx)
+    });
+    if (!project) {
+      return null;
+    }
+    const roles = await this.rolesOf(ctx, projectId);
+    return { ...toProjectDto(project), userRole: roles.get(String(project.id)) ?? null };
+  }
+
+  // The creator becomes an EDITOR of the project
+  static async create(ctx: ServiceContext, input: CreateProjectInput): Promise<ProjectResult> {
+    const organizationId = requireOrganizationId(ctx);
+    if (!input.name || !input.slug) {
+      return { error: 'Name and slug are required', status: 400 };
+    }
+
+    if (await ctx.manager.getRepository(Project).existsBy({ organizationId, slug: input.slug })) {
+      return { error: SLUG_TAKEN, status: 409 };
+    }
+
+    const project = await inTransaction(ctx, async (tx) => {
+      const inserted = await tx.manager.getRepository(Project).insert({
+        organizationId,
+        name: input.name,
+        slug: input.slug,
+        createdBy: ctx.userId ?? null
+      });
+      const projectId = String(inserted.identifiers[0].id);
+
+      if (ctx.userId) {
+        await tx.manager.getRepository(ProjectMember).insert({
+          organizationId,
+          projectId,
+          userId: ctx.userId,
+          role: ProjectRole.EDITOR
+        });
+      }
+      return tx.manager.getRepository(Project).findOneByOrFail({ id: projectId, organizationId });
+    });
+
+    return { project: toProjectDto(project) };
+  }
+
+  static async update(ctx: ServiceContext, projectId: string, input: UpdateProjectInput): Promise<ProjectResult> {
+    const organizationId = requireOrganizationId(ctx);
+    const repository = ctx.manager.getRepository(Project);
+
+    if (input.blockerPolicy !== undefined && !Object.values(BlockerPolicy).includes(input.blockerPolicy)) {
+      return { error: `blockerPolicy must be one of: ${Object.values(BlockerPolicy).join(', ')}`, status: 400 };
+    }
+
+    const changes: Partial<Project> = {};
+    if (input.name) changes.name = input.name;
+    if (input.slug) changes.slug = input.slug;
+    if (input.blockerPolicy !== undefined) changes.blockerPolicy = input.blockerPolicy;
+
+    if (Object.keys(changes).length === 0) {
+      return { error: 'No fields to update', status: 400 };
+    }
+
+    if (changes.slug && await repository.existsBy({ organizationId, slug: changes.slug, id: Not(projectId) })) {
+      return { error: SLUG_TAKEN, status: 409 };
+    }
+
+    const result = await repository.update({ id: projectId, organizationId }, changes);
+    if (!result.affected) {
+      return { error: 'Project not found', status: 404 };
+    }
+
+    return { project: toProjectDto(await repository.findOneByOrFail({ id: projectId, organizationId })) };
+  }
+
+  // Returns the deleted project; members, tasks and the rest of the project cascade
+  static async delete(ctx: ServiceContext, projectId: string): Promise<ProjectResult> {
+    const organizationId = requireOrganizationId(ctx);
+    const repository = ctx.manager.getRepository(Project);
+
+    const project = await repository.findOneBy({ id: projectId, organizationId });
+    if (!project) {
+      return { error: 'Project not found', status: 404 };
+    }
+
+    await repository.delete({ id: projectId, organizationId });
+    return { project: toProjectDto(project) };
+  }
+
+  static async isMember(ctx: ServiceContext, projectId: string, userId: string): Promise<boolean> {
+    return ctx.manager.getRepository(ProjectMember).existsBy({
+      organizationId: requireOrganizationId(ctx),
+      projectId,
+      userId
+    });
+  }
+
+  // The context user's project roles by project id, optionally for one project only
+  private static async rolesOf(ctx: ServiceContext, projectId?: string): Promise<Map<string, ProjectRole>> {
+    if (!ctx.userId) {
+      return new Map();
+    }
+    const memberships = await ctx.manager.getRepository(ProjectMember).findBy({
+      organizationId: requireOrganizationId(ctx),
+      userId: ctx.userId,
+      ...(projectId ? { projectId } : {})
+    });
+    return new Map(memberships.map((membership) => [String(membership.projectId), membership.role]));
+  }
+}
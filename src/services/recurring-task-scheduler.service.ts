@@ -0,0 +1,181 @@
+import { getInitializedDataSource } from '../config/database';
+import { RecurringTaskService, MaterializeResult } from './recurring-task.service';
+import { ActivityService } from './activity.service';
+import { NotificationService } from './notification.service';
+import { OutboxService } from './outbox.service';
+import { getOutboxDispatcher } from './outbox-dispatcher.service';
+
+export interface RecurringTaskSchedulerOptions {
+  pollIntervalMs: number;
+  // How far ahead of an occurrence its task is created
+  lookaheadMs: number;
+  batchSize: number;
+}
+
+// Materializes tasks for recurring task templates ahead of time. Each template is claimed with
+// FOR UPDATE SKIP LOCKED and handled in its own transaction, so several app instances can run a
+// scheduler and a crash part-way through leaves the template to be picked up again. The activity and
+// assignment notification for each created task are written to the outbox in the same transaction.
+export class RecurringTaskScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private pending = false;
+
+  constructor(private readonly options: RecurringTaskSchedulerOptions) {}
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.trigger(), this.options.pollIntervalMs);
+    this.timer.unref();
+    console.log(`Recurring task scheduler started (poll every ${this.options.pollIntervalMs}ms)`);
+    this.trigger();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run now instead of waiting for the next poll (e.g. after a template was created)
+  trigger() {
+    if (this.processing) {
+      this.pending = true;
+      return;
+    }
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('Recurring task scheduler error:', error));
+    });
+  }
+
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      this.pending = true;
+      return 0;
+    }
+    this.processing = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.pending = false;
+        let handled = 0;
+        while (handled < this.options.batchSize && await this.processNext()) {
+          handled++;
+        }
+        processed += handled;
+        // A full batch means more may be waiting
+        if (handled === this.options.batchSize) {
+          this.pending = true;
+        }
+      } while (this.pending);
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  // Materialize one due template; false when none is due
+  private async processNext(): Promise<boolean> {
+    const AppDataSource = await getInitializedDataSource();
+    const horizon = new Date(Date.now() + this.options.lookaheadMs);
+    let template: any = null;
+    let result: MaterializeResult;
+
+    try {
+      result = await AppDataSource.transaction(async (manager) => {
+        const query = (sql: string, params: any[] = []) => manager.query(sql, params);
+
+        const claimed = await query(`
+          SELECT
+            id, organization_id, project_id, title, description, status, priority, assignee_id, due_in_days,
+            rrule, timezone, starts_on::text as starts_on, to_char(time_of_day, 'HH24:MI') as time_of_day, next_run_at
+          FROM recurring_tasks
+          WHERE is_active AND next_run_at IS NOT NULL AND next_run_at <= $1
+          ORDER BY next_run_at ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        `, [horizon]);
+        template = claimed[0] || null;
+        if (!template) {
+          return { created: [], nextRunAt: null };
+        }
+
+        const materialized = await RecurringTaskService.materialize(query, template, horizon);
+        await query(`
+          UPDATE recurring_tasks
+          SET next_run_at = $2, last_run_at = CASE WHEN $3::int > 0 THEN now() ELSE last_run_at END,
+              occurrence_count = occurrence_count + $3::int, last_error = NULL
+          WHERE id = $1
+        `, [template.id, materialized.nextRunAt, materialized.created.length]);
+
+        if (materialized.created.length > 0) {
+          const project = await query(`SELECT name FROM projects WHERE id = $1`, [template.project_id]);
+          const projectName = project[0]?.name;
+          for (const task of materialized.created) {
+            await OutboxService.enqueue(query, {
+              organizationId: template.organization_id,
+              eventType: 'task.created',
+              aggregateType: 'task',
+              aggregateId: task.id,
+              actorId: null,
+              payload: {
+                activity: ActivityService.describeTaskActivity('created', task.title, task.id, projectName),
+                notifications: [NotificationService.taskAssigned(
+                  null,
+                  task.assigneeId,
+                  { id: task.id, title: task.title, projectId: template.project_id, projectName }
+                )]
+              }
+            });
+          }
+        }
+        return materialized;
+      });
+    } catch (error: any) {
+      if (!template) {
+        throw error;
+      }
+      // A template that cannot be materialized (e.g. its project lost every status) is switched off
+      // rather than retried on every poll; saving it again reactivates it
+      console.error(`Recurring task ${template.id} failed and was deactivated:`, error);
+      await AppDataSource.query(`
+        UPDATE recurring_tasks SET is_active = false, last_error = $2 WHERE id = $1
+      `, [template.id, error?.message || 'Failed to create task']);
+      return true;
+    }
+
+    if (!template) {
+      return false;
+    }
+
+    if (result.created.length > 0) {
+      getOutboxDispatcher()?.trigger();
+      console.log(`Recurring task ${template.id}: created ${result.created.length} task(s)`);
+    }
+    return true;
+  }
+}
+
+// Singleton instance
+let recurringTaskScheduler: RecurringTaskScheduler | null = null;
+
+export const initializeRecurringTaskScheduler = (): RecurringTaskScheduler => {
+  if (!recurringTaskScheduler) {
+    recurringTaskScheduler = new RecurringTaskScheduler({
+      pollIntervalMs: parseInt(process.env.RECURRING_POLL_INTERVAL_MS || '60000', 10),
+      lookaheadMs: parseInt(process.env.RECURRING_LOOKAHEAD_HOURS || '24', 10) * 60 * 60 * 1000,
+      batchSize: 20
+    });
+    recurringTaskScheduler.start();
+  }
+  return recurringTaskScheduler;
+};
+
+export const getRecurringTaskScheduler = (): RecurringTaskScheduler | null => {
+  return recurringTaskScheduler;
+};
@@ -0,0 +1,137 @@
+import { StatusCategory } from '../db/enums';
+import {
+  RecurrenceRule, Occurrence, parseRRule, parseTimeOfDay, expandOccurrences, nextOccurrence
+} from '../utils/rrule';
+import { TaskRankService } from './task-rank.service';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+// Columns of a template as the API returns them; DATE and TIME are read as text so they never pass
+// through a timezone-shifted JS Date
+export const RECURRING_TASK_COLUMNS = `
+  id, project_id, title, description, status, priority, assignee_id, due_in_days,
+  rrule, timezone, starts_on::text as starts_on, to_char(time_of_day, 'HH24:MI') as time_of_day,
+  is_active, next_run_at, last_run_at, occurrence_count, last_error, created_by, created_at, updated_at`;
+
+export interface RecurringTaskInput {
+  title?: string;
+  description?: string | null;
+  status?: string | null;
+  priority?: number | null;
+  assigneeId?: string | null;
+  dueInDays?: number | null;
+  rrule?: string;
+  timezone?: string;
+  startsOn?: string;
+  timeOfDay?: string;
+  isActive?: boolean;
+}
+
+// Schedule fields of a stored template (as selected with RECURRING_TASK_COLUMNS)
+export interface RecurringSchedule {
+  rrule: string;
+  timezone: string;
+  starts_on: string;
+  time_of_day: string;
+}
+
+export interface MaterializeResult {
+  created: { id: string; title: string; occurrenceAt: Date; assigneeId: string | null }[];
+  nextRunAt: Date | null;
+}
+
+// Occurrences materialized per template and run; the rest follow on the next run
+const MAX_OCCURRENCES_PER_RUN = 50;
+const SCHEDULE_FIELDS = ['rrule', 'timezone', 'startsOn', 'timeOfDay'] as const;
+
+export class RecurringTaskService {
+  static changesSchedule(input: RecurringTaskInput): boolean {
+    return SCHEDULE_FIELDS.some((field) => input[field] !== undefined);
+  }
+
+  private static ruleOf(schedule: RecurringSchedule): { rule: RecurrenceRule; options: { startsOn: string; timeOfDay: number; timezone: string } } {
+    return {
+      rule: parseRRule(schedule.rrule),
+      options: {
+        startsOn: schedule.starts_on,
+        timeOfDay: parseTimeOfDay(schedule.time_of_day.slice(0, 5))!,
+        timezone: schedule.timezone
+      }
+    };
+  }
+
+  // First occurrence at or after `from`; occurrences in the past are never materialized
+  static nextRun(schedule: RecurringSchedule, from: Date = new Date()): Date | null {
+    const { rule, options } = this.ruleOf(schedule);
+    return nextOccurrence(rule, { ...options, from })?.at || null;
+  }
+
+  // Upcoming occurrences starting at `from`, for previews
+  static upcoming(schedule: RecurringSchedule, from: Date, limit: number): Occurrence[] {
+    const { rule, options } = this.ruleOf(schedule);
+    const to = new Date(from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000);
+    return expandOccurrences(rule, { ...options, from, to, limit });
+  }
+
+  // Create the tasks for occurrences from the template's next_run_at up to `horizon` and return the
+  // occurrence to continue from. Run inside one transaction; the unique (recurring_task_id, occurrence_at)
+  // index skips occurrences that already have a task, so a repeated run cannot duplicate them.
+  static async materialize(query: Query, template: any, horizon: Date): Promise<MaterializeResult> {
+    const { rule, options } = this.ruleOf(template);
+    const occurrences = expandOccurrences(rule, {
+      ...options,
+      from: new Date(template.next_run_at),
+      to: horizon,
+      limit: MAX_OCCURRENCES_PER_RUN
+    });
+
+    // The template's status may have been removed from the workflow since it was saved
+    const statuses = await query(`
+      SELECT key, category FROM workflow_statuses
+      WHERE project_id = $1 AND organization_id = $2
+      ORDER BY position ASC, id ASC
+    `, [template.project_id, template.organization_id]);
+    const status = statuses.find((row: any) => row.key === template.status)?.key
+      || statuses.find((row: any) => row.category === StatusCategory.TODO)?.key
+      || statuses[0]?.key;
+    if (!status) {
+      throw new Error('Project has no workflow statuses');
+    }
+
+    // Assignees who left the project get unassigned tasks
+    let assigneeId: string | null = null;
+    if (template.assignee_id) {
+      const member = await query(`
+        SELECT user_id FROM project_members WHERE project_id = $1 AND user_id = $2
+      `, [template.project_id, template.assignee_id]);
+      assigneeId = member.length > 0 ? template.assignee_id : null;
+    }
+
+    const created: MaterializeResult['created'] = [];
+    for (const occurrence of occurrences) {
+      const boardRank = await TaskRankService.appendRank(query, template.project_id, status);
+      const inserted = await query(`
+        INSERT INTO tasks (
+          organization_id, project_id, title, description, assignee_id, due_date, priority,
+          status, board_rank, recurring_task_id, occurrence_at
+        ) VALUES ($1, $2, $3, $4, $5, $6::date + $7::int, $8, $9, $10, $11, $12)
+        ON CONFLICT (recurring_task_id, occurrence_at) WHERE recurring_task_id IS NOT NULL DO NOTHING
+        RETURNING id, title
+      `, [
+        template.organization_id, template.project_id, template.title, template.description, assigneeId,
+        occurrence.date, template.due_in_days, template.priority, status, boardRank, template.id, occurrence.at
+      ]);
+      if (inserted.length > 0) {
+        created.push({ id: inserted[0].id, title: inserted[0].title, occurrenceAt: occurrence.at, assigneeId });
+      }
+    }
+
+    // Continue after the last occurrence handled, or after the horizon when all of them fit
+    const continueFrom = occurrences.length === MAX_OCCURRENCES_PER_RUN
+      ? new Date(occurrences[occurrences.length - 1].at.getTime() + 1)
+      : new Date(horizon.getTime() + 1);
+    const next = nextOccurrence(rule, { ...options, from: continueFrom });
+
+    return { created, nextRunAt: next?.at || null };
+  }
+}
@@ -0,0 +1,150 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IsNull } from 'typeorm';
+import { getInitializedDataSource } from '../config/database';
+import { RefreshToken } from '../entity/refresh-token.entity';
+import logger from '../utils/logger';
+
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-for-demo';
+const REFRESH_EXPIRES_IN_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface RefreshPayload {
+  userId: string;
+  username?: string;
+  token_use?: string;
+  jti?: string;
+  fam?: string;
+}
+
+export class RefreshTokenError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export class RefreshTokenService {
+  static readonly maxAgeMs = REFRESH_EXPIRES_IN_MS;
+
+  // Sign a refresh JWT and persist its jti. Omitting familyId starts a new family (login/register).
+  static async issue(userId: string, username: string, familyId: string = randomUUID()): Promise<string> {
+    const AppDataSource = await getInitializedDataSource();
+    const jti = randomUUID();
+
+    await AppDataSource.getRepository(RefreshToken).insert({
+      id: jti,
+      userId,
+      familyId,
+      expiresAt: new Date(Date.now() + REFRESH_EXPIRES_IN_MS),
+    });
+
+    return jwt.sign(
+      { userId, username, token_use: 'refresh', jti, fam: familyId },
+      JWT_REFRESH_SECRET,
+      { expiresIn: Math.floor(REFRESH_EXPIRES_IN_MS / 1000) }
+    );
+  }
+
+  static verify(token: string): RefreshPayload {
+    let payload: RefreshPayload;
+    try {
+      payload = jwt.verify(token, JWT_REFRESH_SECRET) as RefreshPayload;
+    } catch (err: any) {
+      if (err.name === 'TokenExpiredError') {
+        throw new RefreshTokenError('refresh_expired', 'Refresh token expired');
+      }
+      throw new RefreshTokenError('invalid_refresh', 'Invalid refresh token');
+    }
+
+    if (payload.token_use !== 'refresh') {
+      throw new RefreshTokenError('invalid_token_type', 'Invalid token type');
+    }
+    if (!payload.jti) {
+      throw new RefreshTokenError('invalid_refresh', 'Invalid refresh token');
+    }
+    return payload;
+  }
+
+  // Exchange a refresh token for a new one in the same family.
+  // A token that was already rotated or revoked is treated as stolen: the whole family is revoked.
+  static async rotate(token: string, username: string): Promise<{ userId: string; refreshToken: string }> {
+    const payload = this.verify(token);
+    const AppDataSource = await getInitializedDataSource();
+
+    const stored = await AppDataSource.getRepository(RefreshToken).findOne({ where: { id: payload.jti! } });
+    if (!stored || stored.userId !== String(payload.userId)) {
+      throw new RefreshTokenError('invalid_refresh', 'Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      await this.revokeFamily(stored.familyId, 'reuse_detected');
+      logger.warn(`Refresh token reuse detected for user ${stored.userId}, family ${stored.familyId} revoked`);
+      throw new RefreshTokenError('refresh_reused', 'Refresh token has already been used');
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new RefreshTokenError('refresh_expired', 'Refresh token expired');
+    }
+
+    const nextJti = randomUUID();
+    const rotated = await AppDataSource.transaction(async (manager) => {
+      // Conditional update so two concurrent refreshes with the same token cannot both succeed
+      const result = await manager.query(`
+        UPDATE refresh_tokens
+        SET revoked_at = now(), revoked_reason = 'rotated', replaced_by = $2
+        WHERE id = $1 AND revoked_at IS NULL
+        RETURNING id
+      `, [stored.id, nextJti]);
+
+      if (result[0].length === 0) {
+        return false;
+      }
+
+      await manager.getRepository(RefreshToken).insert({
+        id: nextJti,
+        userId: stored.userId,
+        familyId: stored.familyId,
+        expiresAt: new Date(Date.now() + REFRESH_EXPIRES_IN_MS),
+      });
+      return true;
+    });
+
+    if (!rotated) {
+      await this.revokeFamily(stored.familyId, 'reuse_detected');
+      logger.warn(`Concurrent refresh token reuse for user ${stored.userId}, family ${stored.familyId} revoked`);
+      throw new RefreshTokenError('refresh_reused', 'Refresh token has already been used');
+    }
+
+    const refreshToken = jwt.sign(
+      { userId: stored.userId, username, token_use: 'refresh', jti: nextJti, fam: stored.familyId },
+      JWT_REFRESH_SECRET,
+      { expiresIn: Math.floor(REFRESH_EXPIRES_IN_MS / 1000) }
+    );
+
+    return { userId: stored.userId, refreshToken };
+  }
+
+  static async revokeFamily(familyId: string, reason: string): Promise<void> {
+    const AppDataSource = await getInitializedDataSource();
+    await AppDataSource.getRepository(RefreshToken).update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  // Revoke the family the given token belongs to. Invalid or unknown tokens are ignored.
+  static async revoke(token: string, reason: string = 'logout'): Promise<void> {
+    let payload: RefreshPayload;
+    try {
+      payload = this.verify(token);
+    } catch {
+      return;
+    }
+
+    const AppDataSource = await getInitializedDataSource();
+    const stored = await AppDataSource.getRepository(RefreshToken).findOne({ where: { id: payload.jti! } });
+    if (stored) {
+      await this.revokeFamily(stored.familyId, reason);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { EntityManager } from 'typeorm';
+import { getInitializedDataSource } from '../config/database';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+// Who a service call runs as and where its queries go. HTTP routes get one from requestContext(req),
+// bound to the request transaction under RLS; background jobs and scripts use ownerContext(), which
+// bypasses RLS, so every service method also filters by organization itself.
+export interface ServiceContext {
+  manager: EntityManager;
+  // null before an organization is chosen (listing or creating organizations)
+  organizationId: string | null;
+  // The acting user; null for system jobs
+  userId: string | null;
+}
+
+export const ownerContext = async (organizationId: string | null, userId: string | null = null): Promise<ServiceContext> => {
+  const AppDataSource = await getInitializedDataSource();
+  return { manager: AppDataSource.manager, organizationId, userId };
+};
+
+// Raw SQL on the context's connection, for the Query-based helpers (ranks, outbox, history)
+export const contextQuery = (ctx: ServiceContext): Query => {
+  return (query, params = []) => ctx.manager.query(query, params);
+};
+
+// Run fn in a transaction on the context's connection; a savepoint inside the request transaction
+export const inTransaction = <T>(ctx: ServiceContext, fn: (tx: ServiceContext) => Promise<T>): Promise<T> => {
+  return ctx.manager.transaction((manager) => fn({ ...ctx, manager }));
+};
+
+export const requireOrganizationId = (ctx: ServiceContext): string => {
+  if (!ctx.organizationId) {
+    throw new Error('Organization context required');
+  }
+  return ctx.organizationId;
+};
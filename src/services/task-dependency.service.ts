@@ -0,0 +1,147 @@
+import { BlockerPolicy, StatusCategory, TaskLinkType } from '../db/enums';
+import { WorkflowStatusRow } from './workflow.service';
+import { ServiceContext, contextQuery, requireOrganizationId } from './service-context';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export interface SubtaskProgress {
+  total: number;
+  done: number;
+  percent: number;
+}
+
+export interface CompletionCheck {
+  policy: BlockerPolicy;
+  blockers: any[];
+}
+
+// Directed link types whose chains must stay acyclic; relates_to is symmetric instead
+const ACYCLIC_LINK_TYPES: TaskLinkType[] = [TaskLinkType.BLOCKS, TaskLinkType.DUPLICATES];
+
+export class TaskDependencyService {
+  // Returns an error message, or null when parentId can be the parent of taskId (taskId null when creating)
+  static async validateParent(ctx: ServiceContext, projectId: string, taskId: string | null, parentId: any): Promise<string | null> {
+    if (!/^\d+$/.test(String(parentId))) {
+      return 'parentId must be a task id or null';
+    }
+    if (taskId !== null && String(parentId) === String(taskId)) {
+      return 'A task cannot be its own parent';
+    }
+
+    const parent = await contextQuery(ctx)(`
+      SELECT id, parent_id FROM tasks
+      WHERE id = $1 AND project_id = $2 AND organization_id = $3
+    `, [parentId, projectId, requireOrganizationId(ctx)]);
+
+    if (parent.length === 0) {
+      return 'Parent task must be in the same project';
+    }
+    // Subtasks are one level deep
+    if (parent[0].parent_id !== null) {
+      return 'Subtasks cannot have subtasks of their own';
+    }
+    if (taskId !== null) {
+      const children = await contextQuery(ctx)(`
+        SELECT 1 FROM tasks WHERE parent_id = $1 LIMIT 1
+      `, [taskId]);
+      if (children.length > 0) {
+        return 'A task with subtasks cannot become a subtask';
+      }
+    }
+    return null;
+  }
+
+  // Serialize link changes per organization so two concurrent inserts cannot close a cycle together
+  static async lockLinks(query: Query, organizationId: string) {
+    await query(`SELECT pg_advisory_xact_lock(hashtext('task_links'), hashtext($1::text))`, [String(organizationId)]);
+  }
+
+  // True when adding source -> target would close a loop of the same link type
+  static async wouldCreateCycle(query: Query, linkType: TaskLinkType, sourceTaskId: string, targetTaskId: string): Promise<boolean> {
+    if (!ACYCLIC_LINK_TYPES.includes(linkType)) {
+      return false;
+    }
+    // Walk forward from the target; reaching the source means target already leads back to it
+    const result = await query(`
+      WITH RECURSIVE reachable(id) AS (
+        SELECT $2::bigint
+        UNION
+        SELECT l.target_task_id
+        FROM task_links l
+        JOIN reachable r ON l.source_task_id = r.id
+        WHERE l.link_type = $3
+      )
+      SELECT EXISTS (SELECT 1 FROM reachable WHERE id = $1::bigint) as cycle
+    `, [sourceTaskId, targetTaskId, linkType]);
+    return result[0]?.cycle === true;
+  }
+
+  // Tasks blocking taskId that are not in a done status yet
+  static async getOpenBlockers(ctx: ServiceContext, taskId: string): Promise<any[]> {
+    return contextQuery(ctx)(`
+      SELECT t.id, t.title, t.status, t.project_id, p.name as project_name
+      FROM task_links l
+      JOIN tasks t ON t.id = l.source_task_id
+      JOIN projects p ON p.id = t.project_id
+      LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+      WHERE l.target_task_id = $1 AND l.link_type = '${TaskLinkType.BLOCKS}'
+        AND ws.category IS DISTINCT FROM '${StatusCategory.DONE}'
+      ORDER BY t.id ASC
+    `, [taskId]);
+  }
+
+  // Open blockers and the project's policy when a task moves into a done status; null otherwise
+  static async checkCompletion(
+    ctx: ServiceContext,
+    projectId: string,
+    taskId: string,
+    statuses: WorkflowStatusRow[],
+    toStatus: string
+  ): Promise<CompletionCheck | null> {
+    const target = statuses.find((status) => status.key === toStatus);
+    if (target?.category !== StatusCategory.DONE) {
+      return null;
+    }
+
+    const blockers = await this.getOpenBlockers(ctx, taskId);
+    if (blockers.length === 0) {
+      return null;
+    }
+
+    const project = await contextQuery(ctx)(`
+      SELECT blocker_policy FROM projects WHERE id = $1 AND organization_id = $2
+    `, [projectId, requireOrganizationId(ctx)]);
+
+    return {
+      policy: project[0]?.blocker_policy || BlockerPolicy.WARN,
+      blockers
+    };
+  }
+
+  // Subtask counts for a set of parents: { [parentId]: { total, done, percent } }
+  static async getProgress(ctx: ServiceContext, parentIds: string[]): Promise<Record<string, SubtaskProgress>> {
+    if (parentIds.length === 0) {
+      return {};
+    }
+    const rows = await contextQuery(ctx)(`
+      SELECT
+        t.parent_id,
+        COUNT(*)::int as total,
+        COUNT(*) FILTER (WHERE ws.category = '${StatusCategory.DONE}')::int as done
+      FROM tasks t
+      LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+      WHERE t.parent_id = ANY($1::bigint[]) AND t.organization_id = $2
+      GROUP BY t.parent_id
+    `, [parentIds, requireOrganizationId(ctx)]);
+
+    const progress: Record<string, SubtaskProgress> = {};
+    for (const row of rows) {
+      progress[String(row.parent_id)] = {
+        total: row.total,
+        done: row.done,
+        percent: Math.round((row.done / row.total) * 100)
+      };
+    }
+    return progress;
+  }
+}
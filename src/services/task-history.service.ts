@@ -0,0 +1,67 @@
+import { ServiceContext, contextQuery, requireOrganizationId } from './service-context';
+import { TaskEventType, TaskFieldChanges } from '../entity/task-event.entity';
+
+// Task columns tracked in task_events, keyed by the name used in the diff
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'assignee_id',
+  'due_date',
+  'priority',
+  'board_rank',
+  'parent_id'
+] as const;
+
+export type TaskSnapshot = Record<typeof TRACKED_TASK_FIELDS[number], any> & {
+  id: string;
+  organization_id: string;
+  project_id: string;
+};
+
+export class TaskHistoryService {
+  // due_date is read as text so a DATE never round-trips through a timezone-shifted JS Date
+  static async snapshot(ctx: ServiceContext, taskId: string): Promise<TaskSnapshot | null> {
+    const rows = await contextQuery(ctx)(`
+      SELECT
+        id, organization_id, project_id, title, description, status,
+        assignee_id, due_date::text as due_date, priority, board_rank, parent_id
+      FROM tasks
+      WHERE id = $1 AND organization_id = $2
+    `, [taskId, requireOrganizationId(ctx)]);
+
+    return rows[0] || null;
+  }
+
+  static diff(before: Partial<TaskSnapshot> | null, after: Partial<TaskSnapshot> | null): TaskFieldChanges {
+    const changes: TaskFieldChanges = {};
+    for (const field of TRACKED_TASK_FIELDS) {
+      const from = before?.[field] ?? null;
+      const to = after?.[field] ?? null;
+      if (String(from) !== String(to)) {
+        changes[field] = { from, to };
+      }
+    }
+    return changes;
+  }
+
+  // Record a created/updated/deleted event by the context's user; updates without effective changes are skipped
+  static async record(
+    ctx: ServiceContext,
+    eventType: TaskEventType,
+    before: TaskSnapshot | null,
+    after: TaskSnapshot | null
+  ): Promise<void> {
+    const task = (after || before)!;
+    const changes = this.diff(before, after);
+
+    if (eventType === 'updated' && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    await contextQuery(ctx)(`
+      INSERT INTO task_events (organization_id, project_id, task_id, actor_id, event_type, changes)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+    `, [task.organization_id, task.project_id, task.id, ctx.userId, eventType, JSON.stringify(changes)]);
+  }
+}
@@ -0,0 +1,405 @@
+import { executeWithRLS } from '../utils/middleware/jwtMiddleWare';
+import { StatusCategory } from '../db/enums';
+
+export const DUE_WINDOWS = ['overdue', 'today', 'this_week', 'next_week', 'none'] as const;
+export type DueWindow = typeof DUE_WINDOWS[number];
+
+export const LABEL_MATCH_MODES = ['any', 'all'] as const;
+export type LabelMatchMode = typeof LABEL_MATCH_MODES[number];
+
+// A task cannot carry all of the labels and none at all
+export const LABEL_FILTER_CONFLICT = 'labelMatch=all cannot be combined with unlabeled=true';
+const hasLabelConflict = (filters: TaskFilters) => filters.labelMatch === 'all' && filters.unlabeled === true;
+
+// Sortable fields and the SQL each one orders by
+const SORT_COLUMNS = {
+  priority: 't.priority',
+  due_date: 't.due_date',
+  created_at: 't.created_at',
+  updated_at: 't.updated_at',
+  title: 'lower(t.title)',
+  status: 'ws.position',
+  rank: 't.board_rank',
+} as const;
+
+export type TaskSortField = keyof typeof SORT_COLUMNS;
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Normalized filter set; saved views store exactly this shape.
+// 'me' in assigneeIds/createdByIds is resolved per caller, so shared views work for everyone.
+export interface TaskFilters {
+  status?: string[];
+  statusCategory?: StatusCategory[];
+  assigneeIds?: string[];
+  createdByIds?: string[];
+  unassigned?: boolean;
+  priorityMin?: number;
+  priorityMax?: number;
+  due?: DueWindow;
+  dueFrom?: string;
+  dueTo?: string;
+  q?: string;
+  labelIds?: string[];
+  // How labelIds combine; 'any' when omitted
+  labelMatch?: LabelMatchMode;
+  unlabeled?: boolean;
+}
+
+export const DEFAULT_TASK_SORT: TaskSort[] = [
+  { field: 'rank', direction: 'asc' }
+];
+
+export interface ResolvedTaskQuery {
+  view: { id: string; name: string; visibility: string } | null;
+  filters: TaskFilters;
+  sort: TaskSort[];
+}
+
+const MAX_SORT_FIELDS = 4;
+const MAX_LIST_VALUES = 50;
+const MAX_QUERY_LENGTH = 200;
+// tasks.priority is a smallint
+const MIN_PRIORITY = -32768;
+const MAX_PRIORITY = 32767;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const ID_REGEX = /^\d+$/;
+
+// Accepts "a,b" (query string), ["a", "b"] (JSON body) or repeated query params
+const toList = (value: any): string[] => {
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map((item) => String(item).trim()).filter((item) => item.length > 0);
+};
+
+const toInteger = (value: any): number | null => {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isInteger(number) ? number : null;
+};
+
+const toBoolean = (value: any): boolean | null => {
+  if (value === true || value === 'true' || value === '1') return true;
+  if (value === false || value === 'false' || value === '0') return false;
+  return null;
+};
+
+const isValidDate = (value: string): boolean => {
+  return DATE_REGEX.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+};
+
+export class TaskQueryService {
+  // Parse filters from req.query or a saved view's JSON. Only keys present in the source are returned,
+  // so the result can be laid over a view's filters.
+  static parseFilters(source: Record<string, any>): { filters?: TaskFilters; error?: string } {
+    const filters: TaskFilters = {};
+    const has = (key: string) => source[key] !== undefined && source[key] !== null && source[key] !== '';
+
+    // Query strings use the singular names (?assigneeId=me,12&createdBy=me); stored views use the plural ones
+    const assignees = has('assigneeIds') ? source.assigneeIds : source.assigneeId;
+    const creators = has('createdByIds') ? source.createdByIds : source.createdBy;
+    const labels = has('labelIds') ? source.labelIds : source.labelId;
+
+    if (has('status')) {
+      filters.status = toList(source.status);
+    }
+
+    if (has('statusCategory')) {
+      const categories = toList(source.statusCategory);
+      const invalid = categories.find((category) => !Object.values(StatusCategory).includes(category as StatusCategory));
+      if (invalid !== undefined) {
+        return { error: `statusCategory must be a comma-separated subset of ${Object.values(StatusCategory).join(', ')}` };
+      }
+      filters.statusCategory = categories as StatusCategory[];
+    }
+
+    for (const [key, value] of [['assigneeIds', assignees], ['createdByIds', creators]] as const) {
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      const ids = toList(value);
+      if (ids.some((id) => id !== 'me' && !ID_REGEX.test(id))) {
+        return { error: `${key === 'assigneeIds' ? 'assigneeId' : 'createdBy'} must be a comma-separated list of user ids or "me"` };
+      }
+      filters[key] = Array.from(new Set(ids));
+    }
+
+    for (const key of ['unassigned', 'unlabeled'] as const) {
+      if (!has(key)) {
+        continue;
+      }
+      const flag = toBoolean(source[key]);
+      if (flag === null) {
+        return { error: `${key} must be true or false` };
+      }
+      filters[key] = flag;
+    }
+
+    if (labels !== undefined && labels !== null && labels !== '') {
+      const ids = toList(labels);
+      if (ids.some((id) => !ID_REGEX.test(id))) {
+        return { error: 'labelId must be a comma-separated list of label ids' };
+      }
+      filters.labelIds = Array.from(new Set(ids));
+    }
+
+    if (has('labelMatch')) {
+      if (!LABEL_MATCH_MODES.includes(source.labelMatch)) {
+        return { error: `labelMatch must be one of ${LABEL_MATCH_MODES.join(', ')}` };
+      }
+      filters.labelMatch = source.labelMatch;
+    }
+
+    for (const key of ['priorityMin', 'priorityMax'] as const) {
+      if (!has(key)) {
+        continue;
+      }
+      const priority = toInteger(source[key]);
+      if (priority === null) {
+        return { error: `${key} must be an integer` };
+      }
+      if (priority < MIN_PRIORITY || priority > MAX_PRIORITY) {
+        return { error: `${key} must be between ${MIN_PRIORITY} and ${MAX_PRIORITY}` };
+      }
+      filters[key] = priority;
+    }
+    if (filters.priorityMin !== undefined && filters.priorityMax !== undefined && filters.priorityMin > filters.priorityMax) {
+      return { error: 'priorityMin cannot be greater than priorityMax' };
+    }
+
+    if (has('due')) {
+      if (!DUE_WINDOWS.includes(source.due)) {
+        return { error: `due must be one of ${DUE_WINDOWS.join(', ')}` };
+      }
+      filters.due = source.due;
+    }
+
+    for (const key of ['dueFrom', 'dueTo'] as const) {
+      if (!has(key)) {
+        continue;
+      }
+      const date = String(source[key]);
+      if (!isValidDate(date)) {
+        return { error: `${key} must be a date (YYYY-MM-DD)` };
+      }
+      filters[key] = date;
+    }
+
+    if (has('q')) {
+      const q = String(source.q).trim();
+      if (q.length > MAX_QUERY_LENGTH) {
+        return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+      }
+      if (q) {
+        filters.q = q;
+      }
+    }
+
+    const oversized = (['status', 'statusCategory', 'assigneeIds', 'createdByIds', 'labelIds'] as const)
+      .find((key) => (filters[key]?.length || 0) > MAX_LIST_VALUES);
+    if (oversized) {
+      return { error: `${oversized} accepts at most ${MAX_LIST_VALUES} values` };
+    }
+
+    if (hasLabelConflict(filters)) {
+      return { error: LABEL_FILTER_CONFLICT };
+    }
+
+    return { filters };
+  }
+
+  // "-priority,due_date" => priority DESC, due_date ASC
+  static parseSort(value: any): { sort?: TaskSort[]; error?: string } {
+    const fields = toList(value);
+    if (fields.length === 0 || fields.length > MAX_SORT_FIELDS) {
+      return { error: `sort must list between 1 and ${MAX_SORT_FIELDS} fields` };
+    }
+
+    const sort: TaskSort[] = [];
+    for (const item of fields) {
+      const direction = item.startsWith('-') ? 'desc' : 'asc';
+      const field = item.replace(/^[-+]/, '');
+      // Own keys only: "constructor" or "toString" must not reach ORDER BY
+      if (!Object.prototype.hasOwnProperty.call(SORT_COLUMNS, field)) {
+        return { error: `Unknown sort field "${field}". Allowed: ${Object.keys(SORT_COLUMNS).join(', ')}` };
+      }
+      if (sort.some((existing) => existing.field === field)) {
+        return { error: `Sort field "${field}" is listed twice` };
+      }
+      sort.push({ field: field as TaskSortField, direction });
+    }
+
+    return { sort };
+  }
+
+  static formatSort(sort: TaskSort[]): string {
+    return sort.map(({ field, direction }) => `${direction === 'desc' ? '-' : ''}${field}`).join(',');
+  }
+
+  // Request filters override the saved view key by key
+  static merge(base: TaskFilters, overrides: TaskFilters): TaskFilters {
+    return { ...base, ...overrides };
+  }
+
+  // Saved view visible to the caller (their own, or shared with the project); RLS applies the same rule
+  static async findView(req: any, projectId: string, viewId: string): Promise<any | null> {
+    if (!ID_REGEX.test(String(viewId))) {
+      return null;
+    }
+    const rows = await executeWithRLS(req, `
+      SELECT
+        v.id, v.name, v.visibility, v.filters, v.sort, v.owner_id, v.created_at, v.updated_at,
+        u.username as owner_username
+      FROM task_views v
+      JOIN users u ON u.id = v.owner_id
+      WHERE v.id = $1 AND v.project_id = $2 AND v.organization_id = $3
+        AND (v.visibility = 'project' OR v.owner_id = $4)
+    `, [viewId, projectId, req.organizationId, req.user!.userId]);
+    return rows[0] || null;
+  }
+
+  // Filters and sort for a list/board request: ?viewId= loads a saved view, other query params override it
+  static async resolveRequest(req: any, projectId: string): Promise<{ query?: ResolvedTaskQuery; error?: string; status?: number }> {
+    let view: any = null;
+    if (req.query.viewId !== undefined) {
+      view = await this.findView(req, projectId, String(req.query.viewId));
+      if (!view) {
+        return { error: 'View not found', status: 404 };
+      }
+    }
+
+    const requested = this.parseFilters(req.query);
+    if (requested.error) {
+      return { error: requested.error, status: 400 };
+    }
+
+    let sort = DEFAULT_TASK_SORT;
+    const sortSource = req.query.sort !== undefined ? req.query.sort : view?.sort;
+    if (sortSource) {
+      const parsed = this.parseSort(sortSource);
+      if (parsed.error) {
+        return { error: parsed.error, status: 400 };
+      }
+      sort = parsed.sort!;
+    }
+
+    // Stored filters were validated on save, but a view may predate a rule change
+    const stored = view ? this.parseFilters(view.filters || {}) : { filters: {} };
+    if (stored.error) {
+      return { error: `Saved view has invalid filters: ${stored.error}`, status: 400 };
+    }
+
+    // Each set may be fine on its own and conflict once the request overrides the view
+    const filters = this.merge(stored.filters!, requested.filters!);
+    if (hasLabelConflict(filters)) {
+      return { error: LABEL_FILTER_CONFLICT, status: 400 };
+    }
+
+    return {
+      query: {
+        view: view ? { id: view.id, name: view.name, visibility: view.visibility } : null,
+        filters,
+        sort
+      }
+    };
+  }
+
+  // SQL conditions for the filters, appending their values to params.
+  // Expects tasks aliased as t and the task's workflow_statuses row aliased as ws.
+  static buildConditions(filters: TaskFilters, params: any[], userId: string): string[] {
+    const conditions: string[] = [];
+    const param = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const resolveIds = (ids: string[]) => ids.map((id) => (id === 'me' ? String(userId) : id));
+
+    if (filters.status?.length) {
+      conditions.push(`t.status::text = ANY(${param(filters.status)}::text[])`);
+    }
+    if (filters.statusCategory?.length) {
+      conditions.push(`ws.category::text = ANY(${param(filters.statusCategory)}::text[])`);
+    }
+
+    // Listing assignees together with unassigned=true means "assigned to any of these, or to nobody"
+    const assigneeIds = filters.assigneeIds?.length ? resolveIds(filters.assigneeIds) : null;
+    if (assigneeIds && filters.unassigned) {
+      conditions.push(`(t.assignee_id = ANY(${param(assigneeIds)}::bigint[]) OR t.assignee_id IS NULL)`);
+    } else if (assigneeIds) {
+      conditions.push(`t.assignee_id = ANY(${param(assigneeIds)}::bigint[])`);
+    } else if (filters.unassigned === true) {
+      conditions.push(`t.assignee_id IS NULL`);
+    } else if (filters.unassigned === false) {
+      conditions.push(`t.assignee_id IS NOT NULL`);
+    }
+
+    if (filters.createdByIds?.length) {
+      conditions.push(`t.created_by = ANY(${param(resolveIds(filters.createdByIds))}::bigint[])`);
+    }
+
+    if (filters.priorityMin !== undefined) {
+      conditions.push(`t.priority >= ${param(filters.priorityMin)}`);
+    }
+    if (filters.priorityMax !== undefined) {
+      conditions.push(`t.priority <= ${param(filters.priorityMax)}`);
+    }
+
+    // Weeks run Monday to Sunday; overdue ignores tasks already in a done status
+    switch (filters.due) {
+      case 'overdue':
+        conditions.push(`t.due_date < CURRENT_DATE AND ws.category IS DISTINCT FROM '${StatusCategory.DONE}'`);
+        break;
+      case 'today':
+        conditions.push(`t.due_date = CURRENT_DATE`);
+        break;
+      case 'this_week':
+        conditions.push(`t.due_date >= date_trunc('week', CURRENT_DATE)::date AND t.due_date < (date_trunc('week', CURRENT_DATE) + interval '1 week')::date`);
+        break;
+      case 'next_week':
+        conditions.push(`t.due_date >= (date_trunc('week', CURRENT_DATE) + interval '1 week')::date AND t.due_date < (date_trunc('week', CURRENT_DATE) + interval '2 weeks')::date`);
+        break;
+      case 'none':
+        conditions.push(`t.due_date IS NULL`);
+        break;
+    }
+    if (filters.dueFrom) {
+      conditions.push(`t.due_date >= ${param(filters.dueFrom)}::date`);
+    }
+    if (filters.dueTo) {
+      conditions.push(`t.due_date <= ${param(filters.dueTo)}::date`);
+    }
+
+    // Tasks with any (default) or all of the labels; with unlabeled=true, "any of these or none at all".
+    // labelMatch=all with unlabeled=true is refused when the filters are parsed.
+    const labelIds = filters.labelIds?.length ? filters.labelIds : null;
+    const hasLabels = `EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id)`;
+    if (labelIds && filters.labelMatch === 'all') {
+      conditions.push(`(SELECT COUNT(*) FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id = ANY(${param(labelIds)}::bigint[])) = ${labelIds.length}`);
+    } else if (labelIds && filters.unlabeled) {
+      conditions.push(`(EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id = ANY(${param(labelIds)}::bigint[])) OR NOT ${hasLabels})`);
+    } else if (labelIds) {
+      conditions.push(`EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id = ANY(${param(labelIds)}::bigint[]))`);
+    }
+    if (filters.unlabeled === true && !labelIds) {
+      conditions.push(`NOT ${hasLabels}`);
+    } else if (filters.unlabeled === false) {
+      conditions.push(hasLabels);
+    }
+
+    // Same websearch syntax as /search, so the search_vector GIN index is used
+    if (filters.q) {
+      conditions.push(`t.search_vector @@ websearch_to_tsquery('english', ${param(filters.q)})`);
+    }
+
+    return conditions;
+  }
+
+  // Empty values sort last in both directions; t.id keeps the order stable between requests
+  static buildOrderBy(sort: TaskSort[]): string {
+    const terms = sort.map(({ field, direction }) =>
+      `${SORT_COLUMNS[field]} ${direction.toUpperCase()} NULLS LAST`
+    );
+    return [...terms, 't.id ASC'].join(', ');
+  }
+}
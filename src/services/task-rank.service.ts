@@ -0,0 +1,164 @@
+// Board ranks are base-36 fractions stored as strings ("0.i" is written "i") and compared byte-wise
+// (the column uses COLLATE "C"). They never end in '0', so there is always room between two ranks.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+// Longer ranks trigger a rebalance of the column (app.rebalance_board_ranks)
+const MAX_RANK_LENGTH = 24;
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export interface MoveTarget {
+  projectId: string;
+  taskId: string;
+  status: string;
+  // Place the task directly below afterTaskId and/or directly above beforeTaskId
+  afterTaskId?: string | null;
+  beforeTaskId?: string | null;
+}
+
+export interface MoveResult {
+  rank?: string;
+  rebalanced?: boolean;
+  error?: string;
+  status?: number;
+}
+
+const digitValue = (digit: string | undefined, fallback: number): number => {
+  return digit === undefined ? fallback : DIGITS.indexOf(digit);
+};
+
+export class TaskRankService {
+  // Rank strictly between lo and hi; null means the start/end of the column
+  static rankBetween(lo: string | null, hi: string | null): string {
+    if (lo !== null && hi !== null && lo >= hi) {
+      throw new Error(`Invalid rank range: "${lo}" is not before "${hi}"`);
+    }
+    return this.midpoint(lo || '', hi);
+  }
+
+  private static midpoint(lo: string, hi: string | null): string {
+    if (hi !== null) {
+      // Keep the shared prefix; a missing digit in lo reads as '0'
+      let prefix = 0;
+      while ((lo[prefix] || '0') === hi[prefix]) {
+        prefix++;
+      }
+      if (prefix > 0) {
+        return hi.slice(0, prefix) + this.midpoint(lo.slice(prefix), hi.slice(prefix));
+      }
+    }
+
+    const loDigit = digitValue(lo[0], 0);
+    const hiDigit = hi !== null ? digitValue(hi[0], BASE) : BASE;
+    if (hiDigit - loDigit > 1) {
+      return DIGITS[Math.round((loDigit + hiDigit) / 2)];
+    }
+    // Adjacent digits: hi's first digit alone is already between them, unless hi is that single digit
+    if (hi !== null && hi.length > 1) {
+      return hi.slice(0, 1);
+    }
+    return DIGITS[loDigit] + this.midpoint(lo.slice(1), null);
+  }
+
+  // Serialize rank changes per project for the rest of the transaction
+  static async lockBoard(query: Query, projectId: string) {
+    await query(`SELECT pg_advisory_xact_lock(hashtext('task_board'), hashtext($1::text))`, [String(projectId)]);
+  }
+
+  static async rebalance(query: Query, projectId: string, status: string) {
+    await query(`SELECT app.rebalance_board_ranks($1, $2)`, [projectId, status]);
+  }
+
+  // Rank for a new task at the bottom of a column. Call inside executeInTransactionWithRLS.
+  static async appendRank(query: Query, projectId: string, status: string): Promise<string> {
+    await this.lockBoard(query, projectId);
+
+    const nextRank = async () => {
+      const last = await query(`
+        SELECT board_rank FROM tasks
+        WHERE project_id = $1 AND status = $2 AND board_rank IS NOT NULL
+        ORDER BY board_rank DESC
+        LIMIT 1
+      `, [projectId, status]);
+      return this.rankBetween(last[0]?.board_rank ?? null, null);
+    };
+
+    const rank = await nextRank();
+    if (rank.length <= MAX_RANK_LENGTH) {
+      return rank;
+    }
+    await this.rebalance(query, projectId, status);
+    return nextRank();
+  }
+
+  // Compute and store the task's new status and rank. Neighbours must be in the target column;
+  // when both are given they must still be adjacent, otherwise the client's board is stale (409).
+  // Call inside executeInTransactionWithRLS.
+  static async move(query: Query, target: MoveTarget, updatedBy: string | null): Promise<MoveResult> {
+    const { projectId, taskId, status } = target;
+    const afterTaskId = target.afterTaskId ?? null;
+    const beforeTaskId = target.beforeTaskId ?? null;
+
+    if ([afterTaskId, beforeTaskId].some((id) => id !== null && String(id) === String(taskId))) {
+      return { error: 'A task cannot be placed next to itself', status: 400 };
+    }
+
+    await this.lockBoard(query, projectId);
+
+    let rebalanced = false;
+    for (let attempt = 0; attempt < 2; attempt++) {
+      // Column as it is now, without the task being moved
+      const column: { id: string; board_rank: string | null }[] = await query(`
+        SELECT id, board_rank FROM tasks
+        WHERE project_id = $1 AND status = $2 AND id <> $3
+        ORDER BY board_rank ASC NULLS LAST, id ASC
+      `, [projectId, status, taskId]);
+
+      const indexOf = (id: string | null) => id === null ? -1 : column.findIndex((task) => String(task.id) === String(id));
+      const afterIndex = indexOf(afterTaskId);
+      const beforeIndex = indexOf(beforeTaskId);
+
+      if ((afterTaskId !== null && afterIndex === -1) || (beforeTaskId !== null && beforeIndex === -1)) {
+        return { error: `Neighbour tasks must be in the ${status} column`, status: 400 };
+      }
+      if (afterTaskId !== null && beforeTaskId !== null && beforeIndex !== afterIndex + 1) {
+        return { error: 'Neighbour tasks are no longer adjacent; reload the board and try again', status: 409 };
+      }
+
+      // Missing neighbours are taken from the column; no neighbours at all appends to the bottom
+      let upper: number;
+      if (afterTaskId !== null) {
+        upper = afterIndex;
+      } else if (beforeTaskId !== null) {
+        upper = beforeIndex - 1;
+      } else {
+        upper = column.length - 1;
+      }
+      const above = upper >= 0 ? column[upper] : null;
+      const below = upper + 1 < column.length ? column[upper + 1] : null;
+
+      // Unranked or tied neighbours (e.g. after a status remap) leave no room; respace the column first
+      const needsRebalance = (above !== null && above.board_rank === null)
+        || (below !== null && below.board_rank === null)
+        || (above !== null && below !== null && above.board_rank! >= below.board_rank!);
+
+      if (!needsRebalance) {
+        const rank = this.rankBetween(above?.board_rank ?? null, below?.board_rank ?? null);
+        if (rank.length <= MAX_RANK_LENGTH || attempt > 0) {
+          await query(`
+            UPDATE tasks
+            SET status = $1, board_rank = $2, updated_by = $3, updated_at = now()
+            WHERE id = $4 AND project_id = $5
+          `, [status, rank, updatedBy, taskId, projectId]);
+          return { rank, rebalanced };
+        }
+      }
+
+      await this.rebalance(query, projectId, status);
+      rebalanced = true;
+    }
+
+    return { error: 'Could not rank the task; reload the board and try again', status: 409 };
+  }
+}
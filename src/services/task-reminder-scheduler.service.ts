@@ -0,0 +1,157 @@
+import { getInitializedDataSource } from '../config/database';
+import { TaskReminderKind } from '../db/enums';
+import { TaskReminderService, CollectedReminder } from './task-reminder.service';
+import { ActivityService } from './activity.service';
+import { NotificationService } from './notification.service';
+import { OutboxService, OutboxPayload } from './outbox.service';
+import { getOutboxDispatcher } from './outbox-dispatcher.service';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export interface TaskReminderSchedulerOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+// Escalations first, so a busy run reports the most urgent tasks before the rest
+const KINDS = [TaskReminderKind.ESCALATED, TaskReminderKind.OVERDUE, TaskReminderKind.DUE_SOON];
+
+// Sends due-date reminders to assignees and logs WARN/ALERT activities for overdue tasks.
+// Each batch of reminders is recorded and written to the outbox in one transaction, so a reminder
+// goes out exactly once across restarts and app instances and failed deliveries are retried by the
+// outbox dispatcher.
+export class TaskReminderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private pending = false;
+
+  constructor(private readonly options: TaskReminderSchedulerOptions) {}
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.trigger(), this.options.pollIntervalMs);
+    this.timer.unref();
+    console.log(`Task reminder scheduler started (poll every ${this.options.pollIntervalMs}ms)`);
+    this.trigger();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run now instead of waiting for the next poll (e.g. after the reminder settings changed)
+  trigger() {
+    if (this.processing) {
+      this.pending = true;
+      return;
+    }
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('Task reminder scheduler error:', error));
+    });
+  }
+
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      this.pending = true;
+      return 0;
+    }
+    this.processing = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.pending = false;
+        for (const kind of KINDS) {
+          const handled = await this.processKind(kind);
+          processed += handled;
+          // A full batch means more may be waiting
+          if (handled === this.options.batchSize) {
+            this.pending = true;
+          }
+        }
+      } while (this.pending);
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  private async processKind(kind: TaskReminderKind): Promise<number> {
+    const AppDataSource = await getInitializedDataSource();
+    const reminders = await AppDataSource.transaction(async (manager) => {
+      const query = (sql: string, params: any[] = []) => manager.query(sql, params);
+      const collected = await TaskReminderService.collect(query, kind, this.options.batchSize);
+      for (const reminder of collected) {
+        await this.enqueue(query, reminder);
+      }
+      return collected;
+    });
+
+    if (reminders.length > 0) {
+      getOutboxDispatcher()?.trigger();
+      console.log(`Task reminders: sent ${reminders.length} ${kind} reminder(s)`);
+    }
+    return reminders.length;
+  }
+
+  private async enqueue(query: Query, reminder: CollectedReminder) {
+    const payload: OutboxPayload = {};
+    if (reminder.kind !== TaskReminderKind.DUE_SOON) {
+      payload.activity = ActivityService.describeOverdueActivity(
+        reminder.kind === TaskReminderKind.ESCALATED ? 'escalated' : 'overdue',
+        reminder.title,
+        reminder.task_id,
+        reminder.due_date,
+        -reminder.days_left,
+        reminder.user_id,
+        reminder.project_name
+      );
+    }
+
+    if (reminder.user_id && !reminder.snoozed) {
+      payload.notifications = [NotificationService.taskReminder(
+        reminder.user_id,
+        { id: reminder.task_id, title: reminder.title, projectId: reminder.project_id, projectName: reminder.project_name },
+        reminder.due_date,
+        reminder.days_left
+      )];
+    }
+    // A due-soon reminder for an unassigned or snoozed task has nothing to send
+    if (!payload.activity && !payload.notifications) {
+      return;
+    }
+
+    await OutboxService.enqueue(query, {
+      organizationId: reminder.organization_id,
+      eventType: `task.${reminder.kind}`,
+      aggregateType: 'task',
+      aggregateId: reminder.task_id,
+      actorId: null,
+      payload
+    });
+  }
+}
+
+// Singleton instance
+let taskReminderScheduler: TaskReminderScheduler | null = null;
+
+export const initializeTaskReminderScheduler = (): TaskReminderScheduler => {
+  if (!taskReminderScheduler) {
+    taskReminderScheduler = new TaskReminderScheduler({
+      pollIntervalMs: parseInt(process.env.REMINDER_POLL_INTERVAL_MS || '300000', 10),
+      batchSize: 100
+    });
+    taskReminderScheduler.start();
+  }
+  return taskReminderScheduler;
+};
+
+export const getTaskReminderScheduler = (): TaskReminderScheduler | null => {
+  return taskReminderScheduler;
+};
@@ -0,0 +1,155 @@
+import { StatusCategory, TaskReminderKind } from '../db/enums';
+
+type Query = (query: string, params?: any[]) => Promise<any>;
+
+export interface ReminderSettingsInput {
+  leadDays?: number[];
+  escalationDays?: number;
+}
+
+// A reminder row just recorded by collect(), with what is needed to notify about it
+export interface CollectedReminder {
+  id: string;
+  organization_id: string;
+  project_id: string;
+  task_id: string;
+  kind: TaskReminderKind;
+  due_date: string;
+  lead_days: number;
+  user_id: string | null;
+  title: string;
+  project_name: string;
+  // Days until the due date (negative once overdue)
+  days_left: number;
+  // The assignee snoozed reminders for this task; overdue activity is still logged
+  snoozed: boolean;
+}
+
+const MAX_LEAD_TIMES = 5;
+const MAX_LEAD_DAYS = 90;
+const MAX_ESCALATION_DAYS = 365;
+const MAX_SNOOZE_HOURS = 90 * 24;
+// Tasks overdue for longer than this are treated as abandoned and never reminded about
+const MAX_OVERDUE_DAYS = 30;
+
+// Which tasks each kind picks up; o = organizations, t = tasks
+const KIND_CONDITIONS: Record<TaskReminderKind, string> = {
+  // Due within the largest lead time; the smallest lead time still ahead of the due date is used,
+  // so a task created one day before its due date does not also get the 3-day reminder
+  [TaskReminderKind.DUE_SOON]: `
+    t.assignee_id IS NOT NULL
+    AND t.due_date >= CURRENT_DATE
+    AND t.due_date <= CURRENT_DATE + (SELECT MAX(d) FROM unnest(o.reminder_lead_days) d)
+    AND NOT EXISTS (
+      SELECT 1 FROM task_reminder_snoozes s
+      WHERE s.task_id = t.id AND s.user_id = t.assignee_id AND s.snoozed_until > now()
+    )`,
+  // Overdue but not yet due for escalation; a task found past escalation only gets the ALERT
+  [TaskReminderKind.OVERDUE]: `
+    t.due_date < CURRENT_DATE
+    AND t.due_date > CURRENT_DATE - o.overdue_escalation_days
+    AND t.due_date >= CURRENT_DATE - ${MAX_OVERDUE_DAYS}`,
+  [TaskReminderKind.ESCALATED]: `
+    t.due_date <= CURRENT_DATE - o.overdue_escalation_days
+    AND t.due_date >= CURRENT_DATE - ${MAX_OVERDUE_DAYS}`,
+};
+
+const LEAD_DAYS_SQL = `(SELECT MIN(d) FROM unnest(o.reminder_lead_days) d WHERE d >= t.due_date - CURRENT_DATE)`;
+
+export class TaskReminderService {
+  // Validate a settings update; only given keys are returned
+  static validateSettings(body: any): { input?: ReminderSettingsInput; error?: string } {
+    const input: ReminderSettingsInput = {};
+
+    if (body.leadDays !== undefined) {
+      const valid = Array.isArray(body.leadDays)
+        && body.leadDays.length <= MAX_LEAD_TIMES
+        && body.leadDays.every((days: any) => Number.isInteger(days) && days >= 0 && days <= MAX_LEAD_DAYS);
+      if (!valid) {
+        return { error: `leadDays must be an array of up to ${MAX_LEAD_TIMES} whole days between 0 and ${MAX_LEAD_DAYS} (0 = on the due date)` };
+      }
+      input.leadDays = Array.from(new Set<number>(body.leadDays)).sort((a, b) => b - a);
+    }
+
+    if (body.escalationDays !== undefined) {
+      if (!Number.isInteger(body.escalationDays) || body.escalationDays < 1 || body.escalationDays > MAX_ESCALATION_DAYS) {
+        return { error: `escalationDays must be a whole number of days between 1 and ${MAX_ESCALATION_DAYS}` };
+      }
+      input.escalationDays = body.escalationDays;
+    }
+
+    return { input };
+  }
+
+  // Snooze end from { until: ISO timestamp } or { hours }; at most MAX_SNOOZE_HOURS ahead
+  static validateSnooze(body: any, now: Date = new Date()): { until?: Date; error?: string } {
+    let until: Date;
+    if (body.hours !== undefined) {
+      if (!Number.isInteger(body.hours) || body.hours < 1 || body.hours > MAX_SNOOZE_HOURS) {
+        return { error: `hours must be a whole number between 1 and ${MAX_SNOOZE_HOURS}` };
+      }
+      until = new Date(now.getTime() + body.hours * 60 * 60 * 1000);
+    } else if (typeof body.until === 'string') {
+      until = new Date(body.until);
+      if (isNaN(until.getTime())) {
+        return { error: 'until must be an ISO timestamp' };
+      }
+    } else {
+      return { error: 'Provide until (ISO timestamp) or hours' };
+    }
+
+    if (until.getTime() <= now.getTime()) {
+      return { error: 'Snooze must end in the future' };
+    }
+    if (until.getTime() > now.getTime() + MAX_SNOOZE_HOURS * 60 * 60 * 1000) {
+      return { error: `Reminders can be snoozed for at most ${MAX_SNOOZE_HOURS / 24} days` };
+    }
+    return { until };
+  }
+
+  // Record up to `limit` reminders of one kind that are due now and return them. Runs on the owner
+  // connection across every organization; tasks in a done status are skipped. The unique
+  // (task_id, kind, due_date, lead_days) key means a reminder is recorded, and so sent, only once,
+  // even with several reminder jobs running.
+  static async collect(query: Query, kind: TaskReminderKind, limit: number): Promise<CollectedReminder[]> {
+    const leadDays = kind === TaskReminderKind.DUE_SOON ? LEAD_DAYS_SQL : '0';
+
+    return query(`
+      WITH candidates AS (
+        SELECT t.id as task_id, t.organization_id, t.project_id, t.assignee_id, t.due_date, ${leadDays} as lead_days
+        FROM tasks t
+        JOIN organizations o ON o.id = t.organization_id
+        LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+        WHERE t.due_date IS NOT NULL
+          AND ws.category IS DISTINCT FROM '${StatusCategory.DONE}'
+          AND ${KIND_CONDITIONS[kind]}
+      ),
+      inserted AS (
+        INSERT INTO task_reminders (organization_id, project_id, task_id, kind, due_date, lead_days, user_id)
+        SELECT c.organization_id, c.project_id, c.task_id, $2::task_reminder_kind, c.due_date, c.lead_days, c.assignee_id
+        FROM candidates c
+        -- Already sent, or sent for a smaller lead time before the lead times were changed
+        WHERE NOT EXISTS (
+          SELECT 1 FROM task_reminders r
+          WHERE r.task_id = c.task_id AND r.kind = $2::task_reminder_kind
+            AND r.due_date = c.due_date AND r.lead_days <= c.lead_days
+        )
+        ORDER BY c.due_date ASC, c.task_id ASC
+        LIMIT $1
+        ON CONFLICT (task_id, kind, due_date, lead_days) DO NOTHING
+        RETURNING id, organization_id, project_id, task_id, kind, due_date, lead_days, user_id
+      )
+      SELECT
+        i.id, i.organization_id, i.project_id, i.task_id, i.kind, i.due_date::text as due_date, i.lead_days, i.user_id,
+        t.title, p.name as project_name, (i.due_date - CURRENT_DATE) as days_left,
+        EXISTS (
+          SELECT 1 FROM task_reminder_snoozes s
+          WHERE s.task_id = i.task_id AND s.user_id = i.user_id AND s.snoozed_until > now()
+        ) as snoozed
+      FROM inserted i
+      JOIN tasks t ON t.id = i.task_id
+      JOIN projects p ON p.id = i.project_id
+      ORDER BY i.due_date ASC, i.task_id ASC
+    `, [limit, kind]);
+  }
+}
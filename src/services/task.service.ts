@@ -0,0 +1,529 @@
+import { Task } from '../entity/task.entity';
+import { BlockerPolicy, StatusCategory } from '../db/enums';
+import { ServiceContext, contextQuery, inTransaction, requireOrganizationId } from './service-context';
+import { ProjectService } from './project.service';
+import { WorkflowService } from './workflow.service';
+import { TaskDependencyService, SubtaskProgress } from './task-dependency.service';
+import { TaskHistoryService } from './task-history.service';
+import { TaskRankService } from './task-rank.service';
+import { TaskQueryService, TaskFilters, TaskSort } from './task-query.service';
+import { LabelService, TaskLabelRef } from './label.service';
+import { ActivityService } from './activity.service';
+import { NotificationService, NotificationRequest } from './notification.service';
+import { OutboxService, OutboxPayload } from './outbox.service';
+
+export interface TaskDto {
+  id: string;
+  organizationId: string;
+  projectId: string;
+  parentId: string | null;
+  title: string;
+  description: string | null;
+  // Key of one of the project's workflow statuses
+  status: string;
+  assigneeId: string | null;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  priority: number | null;
+  boardRank: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  recurringTaskId: string | null;
+  occurrenceAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A task as lists, the board and subtask listings return it
+export interface TaskListItem extends TaskDto {
+  statusCategory: StatusCategory | null;
+  assigneeUsername: string | null;
+  createdByUsername: string | null;
+  // Roll-up of the task's own subtasks; null when it has none
+  subtasks: SubtaskProgress | null;
+  labels: TaskLabelRef[];
+}
+
+// One column per workflow status, in workflow order
+export interface BoardColumn {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  allowedTransitions: string[] | null;
+  tasks: TaskListItem[];
+}
+
+export interface CreateTaskInput {
+  title: string;
+  description?: string | null;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+  priority?: number | null;
+  // Defaults to the project's initial status
+  status?: string;
+  parentId?: string | null;
+}
+
+// Omitted keys keep their value; the board position changes through POST /tasks/:taskId/move only
+export interface UpdateTaskInput {
+  title?: string;
+  description?: string | null;
+  status?: string;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+  priority?: number | null;
+  parentId?: string | null;
+}
+
+// Place the task in the status column (default: its current one) directly below afterTaskId and/or
+// above beforeTaskId; with neither it goes to the bottom
+export interface MoveTaskInput {
+  status?: string;
+  afterTaskId?: string | null;
+  beforeTaskId?: string | null;
+}
+
+// What a board move did, as broadcast to the project room
+export interface TaskMove {
+  taskId: string;
+  projectId: string;
+  fromStatus: string;
+  toStatus: string;
+  boardRank: string;
+  afterTaskId: string | null;
+  beforeTaskId: string | null;
+  // The column was respaced: clients should reload it rather than patch one card
+  rebalanced: boolean;
+  movedBy: string | null;
+}
+
+export interface TaskWarning {
+  code: string;
+  message: string;
+  blockers?: any[];
+}
+
+// error and status (the HTTP status to answer with) are set when the change was refused;
+// blockers is set with a 409 when the project's blocker policy refused completing the task
+export interface TaskResult {
+  task?: TaskDto;
+  warnings?: TaskWarning[];
+  error?: string;
+  status?: number;
+  blockers?: any[];
+}
+
+export interface TaskMoveResult extends TaskResult {
+  move?: TaskMove;
+}
+
+export const toTaskDto = (task: Task): TaskDto => ({
+  id: String(task.id),
+  organizationId: String(task.organizationId),
+  projectId: String(task.projectId),
+  parentId: task.parentId ?? null,
+  title: task.title,
+  description: task.description ?? null,
+  status: task.status,
+  assigneeId: task.assigneeId ?? null,
+  dueDate: task.dueDate ?? null,
+  priority: task.priority ?? null,
+  boardRank: task.boardRank ?? null,
+  createdBy: task.createdBy ?? null,
+  updatedBy: task.updatedBy ?? null,
+  recurringTaskId: task.recurringTaskId ?? null,
+  occurrenceAt: task.occurrenceAt ?? null,
+  createdAt: task.createdAt,
+  updatedAt: task.updatedAt
+});
+
+// Listing columns; due_date is read as text so it never passes through a timezone-shifted JS Date
+const LIST_COLUMNS = `
+  t.id, t.organization_id, t.project_id, t.parent_id, t.title, t.description, t.status, t.assignee_id,
+  t.due_date::text as due_date, t.priority, t.board_rank, t.created_by, t.updated_by, t.recurring_task_id,
+  t.occurrence_at, t.created_at, t.updated_at,
+  ws.category as status_category,
+  u.username as assignee_username,
+  cu.username as created_by_username`;
+
+const nullableId = (value: any): string | null => value === null || value === undefined ? null : String(value);
+
+const toTaskListItem = (row: any, progress: Record<string, SubtaskProgress>, labels: Record<string, TaskLabelRef[]>): TaskListItem => ({
+  id: String(row.id),
+  organizationId: String(row.organization_id),
+  projectId: String(row.project_id),
+  parentId: nullableId(row.parent_id),
+  title: row.title,
+  description: row.description ?? null,
+  status: row.status,
+  assigneeId: nullableId(row.assignee_id),
+  dueDate: row.due_date ?? null,
+  priority: row.priority ?? null,
+  boardRank: row.board_rank ?? null,
+  createdBy: nullableId(row.created_by),
+  updatedBy: nullableId(row.updated_by),
+  recurringTaskId: nullableId(row.recurring_task_id),
+  occurrenceAt: row.occurrence_at ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  statusCategory: row.status_category ?? null,
+  assigneeUsername: row.assignee_username ?? null,
+  createdByUsername: row.created_by_username ?? null,
+  subtasks: progress[String(row.id)] || null,
+  labels: labels[String(row.id)] || []
+});
+
+// Task reads and writes for routes and jobs alike. Permission checks stay with the caller; the
+// service only scopes by the context's organization. Writes record field history and an outbox
+// event in the same transaction, so the caller triggers the outbox dispatcher once it committed.
+export class TaskService {
+  static async get(ctx: ServiceContext, projectId: string, taskId: string): Promise<TaskDto | null> {
+    const task = await ctx.manager.getRepository(Task).findOneBy({
+      id: taskId,
+      projectId,
+      organizationId: requireOrganizationId(ctx)
+    });
+    return task ? toTaskDto(task) : null;
+  }
+
+  // The project's tasks matching the filters (see TaskQueryService), in the given order
+  static async list(ctx: ServiceContext, projectId: string, filters: TaskFilters, sort: TaskSort[]): Promise<TaskListItem[]> {
+    const params: any[] = [projectId, requireOrganizationId(ctx)];
+    const conditions = TaskQueryService.buildConditions(filters, params, ctx.userId!);
+    return this.findListItems(ctx, conditions, params, TaskQueryService.buildOrderBy(sort));
+  }
+
+  // Same filters and sort as list; tasks in a status the workflow no longer has are left out
+  static async board(ctx: ServiceContext, projectId: string, filters: TaskFilters, sort: TaskSort[]): Promise<BoardColumn[]> {
+    const [tasks, statuses] = await Promise.all([
+      this.list(ctx, projectId, filters, sort),
+      WorkflowService.getStatuses(ctx, projectId)
+    ]);
+    return statuses.map((status) => ({
+      key: status.key,
+      name: status.name,
+      category: status.category,
+      allowedTransitions: status.allowed_transitions,
+      tasks: tasks.filter((task) => task.status === status.key)
+    }));
+  }
+
+  // Direct subtasks in board order with the parent's roll-up; null when the parent does not exist
+  static async subtasks(ctx: ServiceContext, projectId: string, taskId: string): Promise<{ subtasks: TaskListItem[]; progress: SubtaskProgress } | null> {
+    if (!(await this.get(ctx, projectId, taskId))) {
+      return null;
+    }
+    const params: any[] = [projectId, requireOrganizationId(ctx), taskId];
+    const [subtasks, progress] = await Promise.all([
+      this.findListItems(ctx, ['t.parent_id = $3'], params, 't.board_rank ASC NULLS LAST, t.id ASC'),
+      TaskDependencyService.getProgress(ctx, [taskId])
+    ]);
+    return { subtasks, progress: progress[taskId] || { total: 0, done: 0, percent: 0 } };
+  }
+
+  // params starts with the project and organization ids ($1, $2); conditions may refer to t and ws
+  private static async findListItems(ctx: ServiceContext, conditions: string[], params: any[], orderBy: string): Promise<TaskListItem[]> {
+    const rows = await contextQuery(ctx)(`
+      SELECT ${LIST_COLUMNS}
+      FROM tasks t
+      LEFT JOIN workflow_statuses ws ON ws.project_id = t.project_id AND ws.key = t.status
+      LEFT JOIN users u ON t.assignee_id = u.id
+      LEFT JOIN users cu ON t.created_by = cu.id
+      WHERE t.project_id = $1 AND t.organization_id = $2
+      ${conditions.map((condition) => `AND ${condition}`).join('\n      ')}
+      ORDER BY ${orderBy}
+    `, params);
+
+    const ids = rows.map((row: any) => String(row.id));
+    const [progress, labels] = await Promise.all([
+      TaskDependencyService.getProgress(ctx, ids),
+      LabelService.getTaskLabels(ctx, ids)
+    ]);
+    return rows.map((row: any) => toTaskListItem(row, progress, labels));
+  }
+
+  // New tasks go to the bottom of their status column
+  static async create(ctx: ServiceContext, projectId: string, input: CreateTaskInput): Promise<TaskResult> {
+    const organizationId = requireOrganizationId(ctx);
+    const parentId = input.parentId ?? null;
+
+    if (!input.title) {
+      return { error: 'Title is required', status: 400 };
+    }
+
+    if (parentId !== null) {
+      const parentError = await TaskDependencyService.validateParent(ctx, projectId, null, parentId);
+      if (parentError) {
+        return { error: parentError, status: 400 };
+      }
+    }
+
+    const statuses = await WorkflowService.getStatuses(ctx, projectId);
+    const status = input.status ?? WorkflowService.getInitialStatus(statuses)?.key;
+    const statusError = status ? WorkflowService.validateStatus(statuses, status) : 'Project has no workflow statuses';
+    if (statusError) {
+      return { error: statusError, status: 400 };
+    }
+
+    if (input.assigneeId && !(await ProjectService.isMember(ctx, projectId, input.assigneeId))) {
+      return { error: 'Assignee must be a project member', status: 400 };
+    }
+
+    const task = await inTransaction(ctx, async (tx) => {
+      const query = contextQuery(tx);
+      const boardRank = await TaskRankService.appendRank(query, projectId, status!);
+      const inserted = await tx.manager.getRepository(Task).insert({
+        organizationId,
+        projectId,
+        parentId,
+        title: input.title,
+        description: input.description ?? null,
+        status: status!,
+        assigneeId: input.assigneeId ?? null,
+        dueDate: input.dueDate ?? null,
+        priority: input.priority ?? null,
+        boardRank,
+        createdBy: ctx.userId
+      });
+      const created = (await this.get(tx, projectId, String(inserted.identifiers[0].id)))!;
+
+      const projectName = await this.projectName(tx, projectId);
+      await OutboxService.enqueue(query, {
+        organizationId,
+        eventType: 'task.created',
+        aggregateType: 'task',
+        aggregateId: created.id,
+        actorId: ctx.userId,
+        payload: {
+          activity: ActivityService.describeTaskActivity('created', created.title, created.id, projectName),
+          notifications: [
+            NotificationService.taskAssigned(ctx.userId, created.assigneeId, { id: created.id, title: created.title, projectId, projectName })
+          ]
+        }
+      });
+
+      await TaskHistoryService.record(tx, 'created', null, await TaskHistoryService.snapshot(tx, created.id));
+      return created;
+    });
+
+    return { task };
+  }
+
+  // Status changes follow the workflow's transitions and the project's blocker policy
+  static async update(ctx: ServiceContext, projectId: string, taskId: string, input: UpdateTaskInput): Promise<TaskResult> {
+    const organizationId = requireOrganizationId(ctx);
+
+    const changes: Partial<Task> = {};
+    if (input.title !== undefined) changes.title = input.title;
+    if (input.description !== undefined) changes.description = input.description;
+    if (input.status !== undefined) changes.status = input.status;
+    if (input.assigneeId !== undefined) changes.assigneeId = input.assigneeId;
+    if (input.dueDate !== undefined) changes.dueDate = input.dueDate;
+    if (input.priority !== undefined) changes.priority = input.priority;
+    if (input.parentId !== undefined) changes.parentId = input.parentId;
+
+    if (Object.keys(changes).length === 0) {
+      return { error: 'No fields to update', status: 400 };
+    }
+
+    const current = await this.get(ctx, projectId, taskId);
+    if (!current) {
+      return { error: 'Task not found', status: 404 };
+    }
+
+    const warnings: TaskWarning[] = [];
+    const statusChanged = input.status !== undefined && input.status !== current.status;
+    if (statusChanged) {
+      const statuses = await WorkflowService.getStatuses(ctx, projectId);
+      const transitionError = WorkflowService.validateTransition(statuses, current.status, input.status!);
+      if (transitionError) {
+        return { error: transitionError, status: 400 };
+      }
+
+      // Completing a task that still has open blockers is refused or warned about per project
+      const completion = await TaskDependencyService.checkCompletion(ctx, projectId, taskId, statuses, input.status!);
+      if (completion?.policy === BlockerPolicy.BLOCK) {
+        return {
+          error: 'Task has open blockers and this project does not allow completing it',
+          status: 409,
+          blockers: completion.blockers
+        };
+      }
+      if (completion) {
+        warnings.push({ code: 'open_blockers', message: 'Task was completed with open blockers', blockers: completion.blockers });
+      }
+    }
+
+    if (input.parentId !== undefined && input.parentId !== null) {
+      const parentError = await TaskDependencyService.validateParent(ctx, projectId, taskId, input.parentId);
+      if (parentError) {
+        return { error: parentError, status: 400 };
+      }
+    }
+
+    if (input.assigneeId !== undefined && input.assigneeId !== null
+      && !(await ProjectService.isMember(ctx, projectId, input.assigneeId))) {
+      return { error: 'Assignee must be a project member', status: 400 };
+    }
+
+    const task = await inTransaction(ctx, async (tx) => {
+      const before = await TaskHistoryService.snapshot(tx, taskId);
+      await tx.manager.getRepository(Task).update(
+        { id: taskId, projectId, organizationId },
+        { ...changes, updatedBy: ctx.userId }
+      );
+      const updated = (await this.get(tx, projectId, taskId))!;
+
+      // Tell the assignee about a new assignment, or else about a status change on their task
+      const projectName = await this.projectName(tx, projectId);
+      const taskRef = { id: taskId, title: updated.title, projectId, projectName };
+      const notifications: NotificationRequest[] = [];
+      if (input.assigneeId !== undefined && updated.assigneeId && updated.assigneeId !== current.assigneeId) {
+        notifications.push(NotificationService.taskAssigned(ctx.userId, updated.assigneeId, taskRef));
+      } else if (statusChanged) {
+        notifications.push(NotificationService.statusChanged(ctx.userId, updated.assigneeId, taskRef, current.status, updated.status));
+      }
+
+      await OutboxService.enqueue(contextQuery(tx), {
+        organizationId,
+        eventType: statusChanged ? 'task.status_changed' : 'task.updated',
+        aggregateType: 'task',
+        aggregateId: taskId,
+        actorId: ctx.userId,
+        payload: {
+          activity: statusChanged
+            ? ActivityService.describeTaskActivity('status_changed', current.title, taskId, projectName, current.status, updated.status)
+            : ActivityService.describeTaskActivity('updated', current.title, taskId, projectName),
+          notifications
+        }
+      });
+
+      await TaskHistoryService.record(tx, 'updated', before, await TaskHistoryService.snapshot(tx, taskId));
+      return updated;
+    });
+
+    return { task, warnings };
+  }
+
+  // Status changes follow the same workflow and blocker rules as update; the move is broadcast to the
+  // project room through the outbox
+  static async move(ctx: ServiceContext, projectId: string, taskId: string, input: MoveTaskInput): Promise<TaskMoveResult> {
+    const organizationId = requireOrganizationId(ctx);
+
+    const current = await this.get(ctx, projectId, taskId);
+    if (!current) {
+      return { error: 'Task not found', status: 404 };
+    }
+
+    const status = input.status ?? current.status;
+    const statusChanged = status !== current.status;
+    const warnings: TaskWarning[] = [];
+    if (statusChanged) {
+      const statuses = await WorkflowService.getStatuses(ctx, projectId);
+      const transitionError = WorkflowService.validateTransition(statuses, current.status, status);
+      if (transitionError) {
+        return { error: transitionError, status: 400 };
+      }
+
+      const completion = await TaskDependencyService.checkCompletion(ctx, projectId, taskId, statuses, status);
+      if (completion?.policy === BlockerPolicy.BLOCK) {
+        return {
+          error: 'Task has open blockers and this project does not allow completing it',
+          status: 409,
+          blockers: completion.blockers
+        };
+      }
+      if (completion) {
+        warnings.push({ code: 'open_blockers', message: 'Task was completed with open blockers', blockers: completion.blockers });
+      }
+    }
+
+    const afterTaskId = input.afterTaskId ?? null;
+    const beforeTaskId = input.beforeTaskId ?? null;
+
+    // Lock, read the neighbours and write the new rank in one transaction, together with the
+    // outbox event that broadcasts the move (and logs a status change)
+    return inTransaction(ctx, async (tx): Promise<TaskMoveResult> => {
+      const query = contextQuery(tx);
+      const before = await TaskHistoryService.snapshot(tx, taskId);
+      const ranked = await TaskRankService.move(query, { projectId, taskId, status, afterTaskId, beforeTaskId }, ctx.userId);
+      if (ranked.error) {
+        return { error: ranked.error, status: ranked.status };
+      }
+
+      const move: TaskMove = {
+        taskId,
+        projectId,
+        fromStatus: current.status,
+        toStatus: status,
+        boardRank: ranked.rank!,
+        afterTaskId,
+        beforeTaskId,
+        rebalanced: ranked.rebalanced!,
+        movedBy: ctx.userId
+      };
+
+      const payload: OutboxPayload = { broadcast: { event: 'task-moved', data: move } };
+      if (statusChanged) {
+        const projectName = await this.projectName(tx, projectId);
+        payload.activity = ActivityService.describeTaskActivity('status_changed', current.title, taskId, projectName, current.status, status);
+        payload.notifications = [
+          NotificationService.statusChanged(
+            ctx.userId,
+            current.assigneeId,
+            { id: taskId, title: current.title, projectId, projectName },
+            current.status,
+            status
+          )
+        ];
+      }
+
+      await OutboxService.enqueue(query, {
+        organizationId,
+        eventType: 'task.moved',
+        aggregateType: 'task',
+        aggregateId: taskId,
+        actorId: ctx.userId,
+        payload
+      });
+
+      await TaskHistoryService.record(tx, 'updated', before, await TaskHistoryService.snapshot(tx, taskId));
+      return { task: (await this.get(tx, projectId, taskId))!, move, warnings };
+    });
+  }
+
+  // Returns the deleted task; its subtasks become top-level tasks (parent_id ON DELETE SET NULL)
+  static async delete(ctx: ServiceContext, projectId: string, taskId: string): Promise<TaskResult> {
+    const organizationId = requireOrganizationId(ctx);
+
+    const task = await this.get(ctx, projectId, taskId);
+    if (!task) {
+      return { error: 'Task not found', status: 404 };
+    }
+
+    await inTransaction(ctx, async (tx) => {
+      const before = await TaskHistoryService.snapshot(tx, taskId);
+      await tx.manager.getRepository(Task).delete({ id: taskId, projectId, organizationId });
+
+      await OutboxService.enqueue(contextQuery(tx), {
+        organizationId,
+        eventType: 'task.deleted',
+        aggregateType: 'task',
+        aggregateId: taskId,
+        actorId: ctx.userId,
+        payload: {
+          activity: ActivityService.describeTaskActivity('deleted', task.title, taskId, await this.projectName(tx, projectId))
+        }
+      });
+
+      await TaskHistoryService.record(tx, 'deleted', before, null);
+    });
+
+    return { task };
+  }
+
+  // Project name for activity and notification messages
+  private static async projectName(ctx: ServiceContext, projectId: string): Promise<string> {
+    return (await ProjectService.get(ctx, projectId))?.name || 'Unknown Project';
+  }
+}
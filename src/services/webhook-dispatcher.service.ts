@@ -0,0 +1,208 @@
+import { getInitializedDataSource } from '../config/database';
+import { WebhookService, SIGNATURE_HEADER } from './webhook.service';
+
+export interface WebhookDispatcherOptions {
+  pollIntervalMs: number;
+  maxAttempts: number;
+  timeoutMs: number;
+  batchSize: number;
+}
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// Delivers queued webhook_deliveries rows: signs the payload, POSTs it and schedules retries.
+// Rows are claimed with FOR UPDATE SKIP LOCKED, so several app instances can run a dispatcher.
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private pending = false;
+
+  constructor(private readonly options: WebhookDispatcherOptions) {}
+
+  // Exponential backoff: 30s, 1m, 2m, 4m, ... capped at 6h
+  static backoffMs(attempt: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_MS);
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.trigger(), this.options.pollIntervalMs);
+    this.timer.unref();
+    console.log(`Webhook dispatcher started (poll every ${this.options.pollIntervalMs}ms)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Process due deliveries now instead of waiting for the next poll
+  trigger() {
+    if (this.processing) {
+      this.pending = true;
+      return;
+    }
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('Webhook dispatcher error:', error));
+    });
+  }
+
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      this.pending = true;
+      return 0;
+    }
+    this.processing = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.pending = false;
+        const deliveries = await this.claimDue();
+        for (const delivery of deliveries) {
+          await this.attempt(delivery);
+        }
+        processed += deliveries.length;
+        // A full batch means more may be waiting
+        if (deliveries.length === this.options.batchSize) {
+          this.pending = true;
+        }
+      } while (this.pending);
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  private async claimDue(): Promise<any[]> {
+    const AppDataSource = await getInitializedDataSource();
+
+    // Push next_attempt_at out as a lease so a crashed attempt is retried later, not lost.
+    // The batch is sent one delivery at a time, so the lease covers every attempt timing out in turn.
+    const leaseMs = (this.options.batchSize + 1) * this.options.timeoutMs;
+    return AppDataSource.query(`
+      WITH claimed AS (
+        UPDATE webhook_deliveries d
+        SET next_attempt_at = now() + $2::int * interval '1 millisecond'
+        WHERE d.id IN (
+          SELECT id FROM webhook_deliveries
+          WHERE status = 'pending' AND next_attempt_at <= now()
+          ORDER BY next_attempt_at ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING d.id, d.endpoint_id, d.event_type, d.payload, d.attempt_count
+      )
+      SELECT c.*, e.url, e.secret, e.is_active
+      FROM claimed c
+      JOIN webhook_endpoints e ON e.id = c.endpoint_id
+      ORDER BY c.id ASC
+    `, [this.options.batchSize, leaseMs]);
+  }
+
+  private async attempt(delivery: any) {
+    const AppDataSource = await getInitializedDataSource();
+    const attemptCount = delivery.attempt_count + 1;
+
+    if (!delivery.is_active) {
+      await AppDataSource.query(`
+        UPDATE webhook_deliveries
+        SET status = 'failed', next_attempt_at = NULL, error = 'Endpoint is disabled'
+        WHERE id = $1
+      `, [delivery.id]);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const destinationError = await WebhookService.validateDestination(delivery.url);
+      if (destinationError) {
+        throw new Error(destinationError);
+      }
+
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'multi-tenant-backend-webhooks/1.0',
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Delivery': String(delivery.id),
+          [SIGNATURE_HEADER]: WebhookService.sign(delivery.secret, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError?.name === 'TimeoutError'
+        ? `Timed out after ${this.options.timeoutMs}ms`
+        : requestError?.message || 'Request failed';
+    }
+
+    if (!error) {
+      await AppDataSource.query(`
+        UPDATE webhook_deliveries
+        SET status = 'succeeded', attempt_count = $2, last_attempt_at = now(), next_attempt_at = NULL,
+            response_status = $3, response_body = $4, error = NULL
+        WHERE id = $1
+      `, [delivery.id, attemptCount, responseStatus, responseBody]);
+      return;
+    }
+
+    const exhausted = attemptCount >= this.options.maxAttempts;
+    await AppDataSource.query(`
+      UPDATE webhook_deliveries
+      SET status = $2::webhook_delivery_status, attempt_count = $3, last_attempt_at = now(),
+          next_attempt_at = now() + $4::int * interval '1 millisecond',
+          response_status = $5, response_body = $6, error = $7
+      WHERE id = $1
+    `, [
+      delivery.id,
+      exhausted ? 'failed' : 'pending',
+      attemptCount,
+      exhausted ? null : WebhookDispatcher.backoffMs(attemptCount),
+      responseStatus,
+      responseBody,
+      error
+    ]);
+
+    console.log(`Webhook delivery ${delivery.id} attempt ${attemptCount} failed: ${error}${exhausted ? ' (giving up)' : ''}`);
+  }
+}
+
+// Singleton instance
+let webhookDispatcher: WebhookDispatcher | null = null;
+
+export const initializeWebhookDispatcher = (): WebhookDispatcher => {
+  if (!webhookDispatcher) {
+    webhookDispatcher = new WebhookDispatcher({
+      pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '10000', 10),
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+      batchSize: 20
+    });
+    webhookDispatcher.start();
+  }
+  return webhookDispatcher;
+};
+
+export const getWebhookDispatcher = (): WebhookDispatcher | null => {
+  return webhookDispatcher;
+};
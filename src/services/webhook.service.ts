@@ -0,0 +1,181 @@
+import * as crypto from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { getInitializedDataSource } from '../config/database';
+import { Activity } from '../entity/activity.entity';
+
+// Loopback, private, link-local (including the 169.254.169.254 metadata service), CGNAT and other
+// non-public ranges. Deliveries are POSTed from inside the app's network, so these are refused unless
+// WEBHOOK_ALLOW_PRIVATE_URLS=true (e.g. for a local test receiver).
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const allowPrivateUrls = () => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Event types are derived from activities as `${objectType}.${meta.action}`
+export const WEBHOOK_EVENT_TYPES = [
+  'organization.created',
+  'organization.updated',
+  'member.added',
+  'member.removed',
+  'member.role_changed',
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'task.created',
+  'task.updated',
+  'task.status_changed',
+  'task.deleted',
+  'task.overdue',
+  'task.escalated',
+  'comment.created',
+  'comment.replied',
+  'comment.updated',
+  'comment.deleted',
+] as const;
+
+export const WEBHOOK_WILDCARD = '*';
+export const WEBHOOK_PING_EVENT = 'webhook.ping';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookEventPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  organizationId: string;
+  data: Record<string, any>;
+}
+
+export class WebhookService {
+  static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  // Stripe-style signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+  static sign(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  static eventTypeFor(activity: Activity): string | null {
+    const action = activity.meta?.action;
+    if (!activity.objectType || !action) {
+      return null;
+    }
+    const eventType = `${activity.objectType}.${action}`;
+    return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(eventType) ? eventType : null;
+  }
+
+  // Returns an error message, or null when the subscription list is valid
+  static validateEventTypes(eventTypes: any): string | null {
+    if (!Array.isArray(eventTypes) || eventTypes.length === 0) {
+      return `eventTypes must be a non-empty array (use ["${WEBHOOK_WILDCARD}"] for all events)`;
+    }
+    const unknown = eventTypes.find((type) =>
+      type !== WEBHOOK_WILDCARD && !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(type)
+    );
+    if (unknown !== undefined) {
+      return `Unknown event type "${unknown}"`;
+    }
+    return null;
+  }
+
+  // Returns an error message, or null when the URL can receive deliveries
+  static validateUrl(url: any): string | null {
+    if (typeof url !== 'string') {
+      return 'url is required';
+    }
+    try {
+      const parsed = new URL(url);
+      if (!['http:', 'https:'].includes(parsed.protocol)) {
+        return 'url must use http or https';
+      }
+    } catch {
+      return 'url must be a valid absolute URL';
+    }
+    return null;
+  }
+
+  // Returns an error message, or null when the URL's host only resolves to public addresses.
+  // Checked when an endpoint is saved and again before every delivery, as DNS can change in between.
+  static async validateDestination(url: string): Promise<string | null> {
+    if (allowPrivateUrls()) {
+      return null;
+    }
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname)
+        ? [hostname]
+        : (await dns.lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+    } catch {
+      return `url host ${hostname} could not be resolved`;
+    }
+
+    const blocked = addresses.find((address) => PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'));
+    if (blocked) {
+      return `url must not point to a private, loopback or link-local address (${hostname} resolves to ${blocked})`;
+    }
+    return null;
+  }
+
+  static buildPayload(activity: Activity, actor: { id: string | null; username: string }, eventType: string): WebhookEventPayload {
+    return {
+      id: `act_${activity.id}`,
+      type: eventType,
+      createdAt: new Date(activity.createdAt).toISOString(),
+      organizationId: String(activity.organizationId),
+      data: {
+        actor: { id: actor.id === null ? null : String(actor.id), username: actor.username },
+        message: activity.message,
+        objectType: activity.objectType,
+        objectId: activity.objectId,
+        meta: activity.meta
+      }
+    };
+  }
+
+  // Queue one delivery per active endpoint subscribed to the activity's event type.
+  // Runs outside the request's RLS context, like the activity insert itself; pass `query` to
+  // queue inside an existing transaction on the owner connection.
+  static async enqueueForActivity(
+    activity: Activity,
+    actor: { id: string | null; username: string },
+    query?: (query: string, params?: any[]) => Promise<any>
+  ): Promise<number> {
+    const eventType = this.eventTypeFor(activity);
+    if (!eventType) {
+      return 0;
+    }
+
+    if (!query) {
+      const AppDataSource = await getInitializedDataSource();
+      query = (sql: string, params: any[] = []) => AppDataSource.query(sql, params);
+    }
+    const payload = this.buildPayload(activity, actor, eventType);
+
+    const queued = await query(`
+      INSERT INTO webhook_deliveries (organization_id, endpoint_id, event_id, event_type, payload)
+      SELECT e.organization_id, e.id, $2, $3, $4::jsonb
+      FROM webhook_endpoints e
+      WHERE e.organization_id = $1 AND e.is_active
+        AND ($3 = ANY(e.event_types) OR '${WEBHOOK_WILDCARD}' = ANY(e.event_types))
+      RETURNING id
+    `, [activity.organizationId, payload.id, eventType, JSON.stringify(payload)]);
+
+    return queued.length;
+  }
+}
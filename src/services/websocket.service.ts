@@ -1,10 +1,63 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket, RemoteSocket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import { Activity } from '../entity/activity.entity';
 import { ActivityKind } from '../db/enums';
+import { getInitializedDataSource } from '../config/database';
+import { verifyToken } from '../utils/middleware/jwtMiddleWare';
+import { PermissionService } from './permission.service';
+
+interface SocketData {
+  userId: string;
+  username?: string;
+  tokenExpiresAt?: number; // epoch ms
+  expiryTimer?: NodeJS.Timeout;
+  organizations: Map<string, string>; // roomKey -> organizationId
+  projects: Map<string, string>; // projectId -> organizationId
+}
+
+type AuthenticatedSocket = Socket<any, any, any, SocketData>;
+type ConnectedSocket = RemoteSocket<any, SocketData>;
+
+// Every socket joins its user's room on connect, for events addressed to one user
+const userRoom = (userId: string) => `user:${userId}`;
+
+// Project-scoped events (comments, board moves) go to the project's room, not the organization's
+const projectRoom = (projectId: string) => `project:${projectId}`;
+
+// Read the access token from `auth: { token }` or an `Authorization: Bearer` header
+const getHandshakeToken = (socket: Socket): string | undefined => {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken.replace(/^Bearer\s+/i, '');
+  }
+  const header = socket.handshake.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.split(' ')[1];
+  }
+  return undefined;
+};
+
+// Same checks and error codes as jwtMiddleware
+const authenticateToken = (token: string | undefined) => {
+  if (!token) {
+    return { error: { code: 'missing_auth', message: 'Authorization token missing' } };
+  }
+  try {
+    const decoded = verifyToken(token);
+    if (!decoded.userId) {
+      return { error: { code: 'invalid_claims', message: 'Invalid token: missing user data' } };
+    }
+    return { decoded };
+  } catch (err: any) {
+    if (err.name === 'TokenExpiredError') {
+      return { error: { code: 'token_expired', message: 'Access token expired' } };
+    }
+    return { error: { code: 'invalid_token', message: 'Invalid access token' } };
+  }
+};
 
 export class WebSocketService {
-  private io: SocketIOServer;
+  private io: SocketIOServer<any, any, any, SocketData>;
   private connectedUsers: Map<string, Set<string>> = new Map(); // roomKey -> Set of socketIds
 
   constructor(httpServer: HTTPServer) {
@@ -19,46 +72,158 @@ export class WebSocketService {
       }
     });
 
+    this.setupAuthentication();
     this.setupEventHandlers();
   }
 
+  // Reject handshakes without a valid access JWT; the client receives `connect_error` with err.data.code
+  private setupAuthentication() {
+    this.io.use((socket, next) => {
+      const { decoded, error } = authenticateToken(getHandshakeToken(socket));
+      if (error) {
+        const err: Error & { data?: any } = new Error(error.message);
+        err.data = error;
+        return next(err);
+      }
+
+      socket.data.userId = String(decoded!.userId);
+      socket.data.username = decoded!.username;
+      socket.data.tokenExpiresAt = decoded!.exp ? decoded!.exp * 1000 : undefined;
+      socket.data.organizations = new Map();
+      socket.data.projects = new Map();
+      next();
+    });
+  }
+
+  // Disconnect the socket when its access token expires unless it re-authenticates first
+  private scheduleExpiry(socket: AuthenticatedSocket) {
+    if (socket.data.expiryTimer) {
+      clearTimeout(socket.data.expiryTimer);
+    }
+    if (!socket.data.tokenExpiresAt) {
+      return;
+    }
+
+    const delay = Math.max(socket.data.tokenExpiresAt - Date.now(), 0);
+    socket.data.expiryTimer = setTimeout(() => {
+      console.log(`Access token expired for socket ${socket.id}, disconnecting`);
+      socket.emit('token-expired', { code: 'token_expired', message: 'Access token expired' });
+      socket.disconnect(true);
+    }, delay);
+  }
+
+  private untrackSocket(roomKey: string, socketId: string) {
+    const roomUsers = this.connectedUsers.get(roomKey);
+    if (roomUsers) {
+      roomUsers.delete(socketId);
+      if (roomUsers.size === 0) {
+        this.connectedUsers.delete(roomKey);
+      }
+    }
+  }
+
   private setupEventHandlers() {
     this.io.on('connection', (socket) => {
-      console.log(`User connected: ${socket.id}`);
+      console.log(`User connected: ${socket.id} (user ${socket.data.userId})`);
+      this.scheduleExpiry(socket);
+      socket.join(userRoom(socket.data.userId));
 
-      // Join organization room
-      socket.on('join-organization', (roomKey: string) => {
-        console.log(`User ${socket.id} joining room: ${roomKey}`);
-        socket.join(roomKey);
-        
-        // Track connected users for this room
-        if (!this.connectedUsers.has(roomKey)) {
-          this.connectedUsers.set(roomKey, new Set());
+      // Swap in a fresh access token (after /auth/refresh) to keep the connection alive
+      socket.on('authenticate', (token: string) => {
+        const { decoded, error } = authenticateToken(token);
+        if (error || String(decoded!.userId) !== socket.data.userId) {
+          socket.emit('auth-error', error || { code: 'invalid_claims', message: 'Token belongs to a different user' });
+          return;
+        }
+
+        socket.data.tokenExpiresAt = decoded!.exp ? decoded!.exp * 1000 : undefined;
+        this.scheduleExpiry(socket);
+        socket.emit('authenticated', { expiresAt: socket.data.tokenExpiresAt });
+      });
+
+      // Join organization room (members only)
+      socket.on('join-organization', async (roomKey: string) => {
+        try {
+          console.log(`User ${socket.id} joining room: ${roomKey}`);
+          const AppDataSource = await getInitializedDataSource();
+          const membership = await AppDataSource.query(`
+            SELECT o.id
+            FROM organizations o
+            JOIN org_memberships om ON om.organization_id = o.id
+            WHERE o.room_key = $1 AND om.user_id = $2
+          `, [roomKey, socket.data.userId]);
+
+          if (membership.length === 0) {
+            socket.emit('join-error', { roomKey, code: 'forbidden', message: 'Not a member of this organization' });
+            return;
+          }
+
+          socket.join(roomKey);
+          socket.data.organizations.set(roomKey, String(membership[0].id));
+          
+          // Track connected users for this room
+          if (!this.connectedUsers.has(roomKey)) {
+            this.connectedUsers.set(roomKey, new Set());
+          }
+          this.connectedUsers.get(roomKey)!.add(socket.id);
+          
+          socket.emit('joined-room', { roomKey, message: `Joined organization room: ${roomKey}` });
+        } catch (error) {
+          console.error(`Error joining room ${roomKey}:`, error);
+          socket.emit('join-error', { roomKey, code: 'internal_error', message: 'Failed to join organization room' });
         }
-        this.connectedUsers.get(roomKey)!.add(socket.id);
-        
-        socket.emit('joined-room', { roomKey, message: `Joined organization room: ${roomKey}` });
       });
 
       // Leave organization room
       socket.on('leave-organization', (roomKey: string) => {
         console.log(`User ${socket.id} leaving room: ${roomKey}`);
         socket.leave(roomKey);
+        socket.data.organizations.delete(roomKey);
         
         // Remove from tracking
-        const roomUsers = this.connectedUsers.get(roomKey);
-        if (roomUsers) {
-          roomUsers.delete(socket.id);
-          if (roomUsers.size === 0) {
-            this.connectedUsers.delete(roomKey);
-          }
-        }
+        this.untrackSocket(roomKey, socket.id);
         
         socket.emit('left-room', { roomKey, message: `Left organization room: ${roomKey}` });
       });
 
+      // Join a project room (users who can view the project only)
+      socket.on('join-project', async (projectId: string) => {
+        try {
+          if (!/^\d+$/.test(String(projectId))) {
+            socket.emit('join-error', { projectId, code: 'invalid_project', message: 'Invalid project id' });
+            return;
+          }
+          const AppDataSource = await getInitializedDataSource();
+          const project = await AppDataSource.query(`
+            SELECT p.id, p.organization_id FROM projects p
+            WHERE p.id = $2 AND p.id IN (${PermissionService.accessibleProjectIdsSql('$1', null)})
+          `, [socket.data.userId, projectId]);
+
+          if (project.length === 0) {
+            socket.emit('join-error', { projectId, code: 'forbidden', message: 'Not allowed to view this project' });
+            return;
+          }
+
+          socket.join(projectRoom(String(projectId)));
+          socket.data.projects.set(String(projectId), String(project[0].organization_id));
+          socket.emit('joined-project', { projectId: String(projectId) });
+        } catch (error) {
+          console.error(`Error joining project ${projectId}:`, error);
+          socket.emit('join-error', { projectId, code: 'internal_error', message: 'Failed to join project room' });
+        }
+      });
+
+      socket.on('leave-project', (projectId: string) => {
+        socket.leave(projectRoom(String(projectId)));
+        socket.data.projects.delete(String(projectId));
+        socket.emit('left-project', { projectId: String(projectId) });
+      });
+
       // Handle activity filter changes
       socket.on('filter-activities', (data: { roomKey: string, kind?: string }) => {
+        if (!socket.rooms.has(data.roomKey)) {
+          return;
+        }
         console.log(`User ${socket.id} filtering activities in room ${data.roomKey} by kind: ${data.kind}`);
         // This could trigger a re-fetch of activities with the new filter
         socket.to(data.roomKey).emit('activity-filter-changed', data);
@@ -66,20 +231,106 @@ export class WebSocketService {
 
       socket.on('disconnect', () => {
         console.log(`User disconnected: ${socket.id}`);
+        if (socket.data.expiryTimer) {
+          clearTimeout(socket.data.expiryTimer);
+        }
         
         // Remove from all rooms
-        for (const [roomKey, users] of this.connectedUsers.entries()) {
-          if (users.has(socket.id)) {
-            users.delete(socket.id);
-            if (users.size === 0) {
-              this.connectedUsers.delete(roomKey);
-            }
-          }
+        for (const roomKey of socket.data.organizations.keys()) {
+          this.untrackSocket(roomKey, socket.id);
         }
       });
     });
   }
 
+  // Sockets in any room of the organization, optionally only those of one user
+  private async socketsInOrganization(organizationId: string, userId?: string): Promise<ConnectedSocket[]> {
+    const sockets = await this.io.fetchSockets();
+    return sockets.filter((socket) => {
+      if (userId !== undefined && socket.data.userId !== String(userId)) {
+        return false;
+      }
+      return [...socket.data.organizations.values(), ...socket.data.projects.values()]
+        .includes(String(organizationId));
+    });
+  }
+
+  private leaveProject(socket: ConnectedSocket, projectId: string, reason: 'access_revoked' | 'project_deleted') {
+    console.log(`Removing socket ${socket.id} from project room: ${projectId} (${reason})`);
+    socket.leave(projectRoom(projectId));
+    socket.data.projects.delete(projectId);
+    socket.emit('removed-from-project', { projectId, reason });
+  }
+
+  private leaveOrganization(socket: ConnectedSocket, organizationId: string) {
+    for (const [roomKey, orgId] of socket.data.organizations.entries()) {
+      if (orgId !== String(organizationId)) {
+        continue;
+      }
+      console.log(`Evicting user ${socket.data.userId} (socket ${socket.id}) from room: ${roomKey}`);
+      socket.leave(roomKey);
+      socket.data.organizations.delete(roomKey);
+      this.untrackSocket(roomKey, socket.id);
+      socket.emit('removed-from-organization', { roomKey, organizationId: String(organizationId) });
+    }
+    for (const [projectId, orgId] of socket.data.projects.entries()) {
+      if (orgId === String(organizationId)) {
+        this.leaveProject(socket, projectId, 'access_revoked');
+      }
+    }
+  }
+
+  // Remove a user's sockets from an organization's rooms, e.g. after their membership was deleted
+  public async evictUserFromOrganization(organizationId: string, userId: string) {
+    for (const socket of await this.socketsInOrganization(organizationId, userId)) {
+      this.leaveOrganization(socket, organizationId);
+    }
+  }
+
+  // Re-run the join checks for the rooms a socket holds in an organization after the user's access may
+  // have shrunk (role downgrade, custom role change, project membership removed)
+  private async reauthorizeSocket(socket: ConnectedSocket, organizationId: string) {
+    const AppDataSource = await getInitializedDataSource();
+    const [membership, projects] = await Promise.all([
+      AppDataSource.query(`
+        SELECT 1 FROM org_memberships WHERE organization_id = $1 AND user_id = $2
+      `, [organizationId, socket.data.userId]),
+      AppDataSource.query(PermissionService.accessibleProjectIdsSql('$1', '$2'), [socket.data.userId, organizationId])
+    ]);
+
+    if (membership.length === 0) {
+      this.leaveOrganization(socket, organizationId);
+      return;
+    }
+    const accessible = new Set(projects.map((project: any) => String(project.id)));
+    for (const [projectId, orgId] of socket.data.projects.entries()) {
+      if (orgId === String(organizationId) && !accessible.has(projectId)) {
+        this.leaveProject(socket, projectId, 'access_revoked');
+      }
+    }
+  }
+
+  public async reauthorizeUser(organizationId: string, userId: string) {
+    for (const socket of await this.socketsInOrganization(organizationId, userId)) {
+      await this.reauthorizeSocket(socket, organizationId);
+    }
+  }
+
+  // For changes that can affect many members at once, e.g. a custom role's permissions
+  public async reauthorizeOrganization(organizationId: string) {
+    for (const socket of await this.socketsInOrganization(organizationId)) {
+      await this.reauthorizeSocket(socket, organizationId);
+    }
+  }
+
+  // Empty a deleted project's room
+  public async closeProject(projectId: string) {
+    const sockets = await this.io.in(projectRoom(String(projectId))).fetchSockets();
+    for (const socket of sockets) {
+      this.leaveProject(socket, String(projectId), 'project_deleted');
+    }
+  }
+
   // Broadcast new activity to organization room
   public broadcastActivity(roomKey: string, activity: Activity) {
     console.log(`Broadcasting activity to room: ${roomKey}`, activity);
@@ -107,6 +358,33 @@ export class WebSocketService {
     });
   }
 
+  // Broadcast task comment changes to the project room
+  public broadcastTaskComment(projectId: string, action: 'created' | 'updated' | 'deleted', comment: Record<string, any>) {
+    console.log(`Broadcasting comment ${action} to project: ${projectId}`, comment.id);
+    this.io.to(projectRoom(String(projectId))).emit(`comment-${action}`, {
+      comment,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast a board move so other open boards can reposition the card
+  public broadcastTaskMoved(projectId: string, move: Record<string, any>) {
+    console.log(`Broadcasting task move to project: ${projectId}`, move.taskId);
+    this.io.to(projectRoom(String(projectId))).emit('task-moved', {
+      move,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Send an inbox notification to every socket of its recipient, and to no one else
+  public sendNotification(userId: string, notification: Record<string, any>) {
+    console.log(`Sending notification to user: ${userId}`, notification.id);
+    this.io.to(userRoom(String(userId))).emit('notification', {
+      notification,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   // Get connected users count for a room
   public getRoomUserCount(roomKey: string): number {
     return this.connectedUsers.get(roomKey)?.size || 0;
@@ -0,0 +1,103 @@
+import { ServiceContext, contextQuery, requireOrganizationId } from './service-context';
+import { StatusCategory } from '../db/enums';
+
+export interface WorkflowStatusRow {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  position: number;
+  allowed_transitions: string[] | null;
+}
+
+export interface WorkflowStatusInput {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  allowedTransitions?: string[] | null;
+}
+
+const STATUS_KEY_REGEX = /^[A-Z][A-Z0-9_]{0,39}$/;
+const MAX_STATUSES = 30;
+
+export class WorkflowService {
+  static async getStatuses(ctx: ServiceContext, projectId: string): Promise<WorkflowStatusRow[]> {
+    return contextQuery(ctx)(`
+      SELECT key, name, category, position, allowed_transitions
+      FROM workflow_statuses
+      WHERE project_id = $1 AND organization_id = $2
+      ORDER BY position ASC, id ASC
+    `, [projectId, requireOrganizationId(ctx)]);
+  }
+
+  // New tasks start in the first 'todo' status, falling back to the first column
+  static getInitialStatus(statuses: WorkflowStatusRow[]): WorkflowStatusRow | undefined {
+    return statuses.find((status) => status.category === StatusCategory.TODO) || statuses[0];
+  }
+
+  // Returns an error message, or null when the status is valid for this workflow
+  static validateStatus(statuses: WorkflowStatusRow[], status: string): string | null {
+    if (!statuses.some((s) => s.key === status)) {
+      return `Invalid status "${status}". Allowed: ${statuses.map((s) => s.key).join(', ')}`;
+    }
+    return null;
+  }
+
+  static validateTransition(statuses: WorkflowStatusRow[], from: string, to: string): string | null {
+    const statusError = this.validateStatus(statuses, to);
+    if (statusError) {
+      return statusError;
+    }
+
+    const current = statuses.find((s) => s.key === from);
+    if (from === to || !current?.allowed_transitions) {
+      return null;
+    }
+    if (!current.allowed_transitions.includes(to)) {
+      return `Transition from ${from} to ${to} is not allowed`;
+    }
+    return null;
+  }
+
+  // Validate a full workflow definition as submitted to PUT /workflow
+  static validateDefinition(statuses: any): string | null {
+    if (!Array.isArray(statuses) || statuses.length === 0) {
+      return 'statuses must be a non-empty array';
+    }
+    if (statuses.length > MAX_STATUSES) {
+      return `A workflow can have at most ${MAX_STATUSES} statuses`;
+    }
+
+    const keys = new Set<string>();
+    for (const status of statuses as WorkflowStatusInput[]) {
+      if (typeof status?.key !== 'string' || !STATUS_KEY_REGEX.test(status.key)) {
+        return 'Status keys must be UPPER_SNAKE_CASE and at most 40 characters';
+      }
+      if (keys.has(status.key)) {
+        return `Duplicate status key "${status.key}"`;
+      }
+      keys.add(status.key);
+
+      if (typeof status.name !== 'string' || !status.name.trim() || status.name.length > 80) {
+        return `Status "${status.key}" needs a name of at most 80 characters`;
+      }
+      if (!Object.values(StatusCategory).includes(status.category)) {
+        return `Status "${status.key}" has an invalid category (todo, active, done)`;
+      }
+      if (status.allowedTransitions != null && !Array.isArray(status.allowedTransitions)) {
+        return `allowedTransitions of "${status.key}" must be an array or null`;
+      }
+    }
+
+    for (const status of statuses as WorkflowStatusInput[]) {
+      const unknown = (status.allowedTransitions || []).find((key) => !keys.has(key));
+      if (unknown) {
+        return `Status "${status.key}" allows a transition to unknown status "${unknown}"`;
+      }
+    }
+
+    if (!statuses.some((status: WorkflowStatusInput) => status.category === StatusCategory.DONE)) {
+      return 'A workflow needs at least one status in the done category';
+    }
+    return null;
+  }
+}
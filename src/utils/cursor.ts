@@ -0,0 +1,28 @@
+// Opaque keyset cursors: base64url-encoded `{ t, id }` where `t` is the row's
+// timestamp rendered by Postgres at microsecond precision (JS Dates only keep
+// milliseconds, which would skip or repeat rows that share a millisecond).
+
+export interface KeysetCursor {
+  t: string;
+  id: string;
+}
+
+export const encodeCursor = (cursor: KeysetCursor): string => {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+};
+
+export const decodeCursor = (value: string): KeysetCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.t !== 'string' || Number.isNaN(Date.parse(parsed.t))) return null;
+    if (!/^\d+$/.test(String(parsed?.id))) return null;
+    return { t: parsed.t, id: String(parsed.id) };
+  } catch {
+    return null;
+  }
+};
+
+// SQL expression rendering a timestamptz column in the format stored in cursors
+export const cursorTimestampSql = (column: string): string => {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+};
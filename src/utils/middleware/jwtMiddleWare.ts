@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppDataSource } from '../../config/database';
 import { QueryRunner } from 'typeorm';
+import { ServiceContext } from '../../services/service-context';
 
 const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'default-access-secret-for-demo';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-for-demo';
@@ -20,8 +21,12 @@ interface AuthenticatedRequest extends Request {
   queryRunner?: QueryRunner;
   accessToken?: string;
   organizationId?: string;
+  // Work queued with afterCommit(), run once the request transaction has committed
+  afterCommitTasks?: (() => unknown)[];
 }
 
+type Query = (query: string, params?: any[]) => Promise<any>;
+
 export const generateAccessToken = (payload: object): string => {
   return jwt.sign(payload, JWT_ACCESS_SECRET, { expiresIn: ACCESS_EXPIRES_IN });
 };
@@ -34,27 +39,68 @@ export const verifyToken = (token: string): JWTPayload => {
   return jwt.verify(token, JWT_ACCESS_SECRET) as JWTPayload;
 };
 
-// RLS helper with transaction-local context
-async function withRls<T>(
-  queryRunner: QueryRunner,
-  userId: string,
-  organizationId: string | undefined,
-  fn: () => Promise<T>
-): Promise<T> {
-  await queryRunner.startTransaction();
-  try {
-    await queryRunner.query(`SELECT set_config('app.user_id', '${userId}', true)`);
-    if (organizationId) {
-      await queryRunner.query(`SELECT set_config('app.organization_id', '${organizationId}', true)`);
+// Ends the request's unit of work just before the response goes out: responses below 400 commit the
+// request transaction, anything else rolls it back. The response is held until the commit is done, so
+// a client never sees success for a change that was not saved; a failed commit turns it into a 500.
+// afterCommit() work runs once the response is sent, so slow side effects (mail, webhooks) never delay it.
+const bindUnitOfWork = (req: AuthenticatedRequest, res: Response, queryRunner: QueryRunner) => {
+  let settled = false;
+  const end = res.end.bind(res) as (...args: any[]) => Response;
+
+  const settle = async (commit: boolean): Promise<boolean> => {
+    try {
+      if (queryRunner.isTransactionActive) {
+        if (commit) {
+          await queryRunner.commitTransaction();
+        } else {
+          await queryRunner.rollbackTransaction();
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Request transaction failed to commit:', error);
+      try { if (queryRunner.isTransactionActive) await queryRunner.rollbackTransaction(); } catch {}
+      return false;
+    } finally {
+      try { if (!queryRunner.isReleased) await queryRunner.release(); } catch {}
+    }
+  };
+
+  (res as any).end = (...args: any[]) => {
+    if (settled) {
+      return end(...args);
+    }
+    settled = true;
+
+    const commit = res.statusCode < 400;
+    settle(commit).then(async (committed) => {
+      if (!committed) {
+        res.statusCode = 500;
+        res.removeHeader('Content-Length');
+        res.removeHeader('ETag');
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        return end(JSON.stringify({ code: 'commit_failed', message: 'Failed to save changes' }));
+      }
+      end(...args);
+      if (commit) {
+        await runAfterCommit(req);
+      }
+    });
+    return res;
+  };
+};
+
+const runAfterCommit = async (req: AuthenticatedRequest) => {
+  const tasks = req.afterCommitTasks ?? [];
+  req.afterCommitTasks = undefined;
+  for (const task of tasks) {
+    try {
+      await task();
+    } catch (error) {
+      console.error('After-commit task failed:', error);
     }
-    const result = await fn();
-    await queryRunner.commitTransaction();
-    return result;
-  } catch (e) {
-    await queryRunner.rollbackTransaction();
-    throw e;
   }
-}
+};
 
 async function setUserContextInDB(queryRunner: QueryRunner, userId: string, organizationId?: string): Promise<void> {
   // Always set user_id for basic user context
@@ -104,51 +150,34 @@ export const jwtMiddleware = async (req: AuthenticatedRequest, res: Response, ne
     return res.status(401).json({ code: 'invalid_claims', message: 'Invalid token: missing user data' });
   }
 
+  // A router mounted earlier on the same path already opened this request's unit of work
+  if (req.queryRunner) {
+    return next();
+  }
+
+  // One transaction per request; app.user_id is transaction-local and stays set until it ends
   const queryRunner = AppDataSource.createQueryRunner();
   try {
     await queryRunner.connect();
-    req.user = decoded;
-    req.queryRunner = queryRunner;
-    req.accessToken = token;
-
-    // IMPORTANT: do NOT set GUCs here globally; set them per-query via withRls()
-    // or run a request-scoped transaction & SET LOCAL if your handlers are disciplined.
-
-    // Ensure release in all cases
-    res.on('finish', async () => {
-      try { if (!queryRunner.isReleased) await queryRunner.release(); } catch {}
-    });
-
-    next();
+    await queryRunner.startTransaction();
+    await queryRunner.query(`SELECT set_config('app.user_id', $1, true)`, [String(decoded.userId)]);
   } catch (e) {
+    try { if (queryRunner.isTransactionActive) await queryRunner.rollbackTransaction(); } catch {}
     try { if (!queryRunner.isReleased) await queryRunner.release(); } catch {}
     return res.status(500).json({ code: 'db_connect_failed', message: 'DB connection failed' });
   }
-};
 
+  req.user = decoded;
+  req.queryRunner = queryRunner;
+  req.accessToken = token;
+  req.afterCommitTasks = [];
+  bindUnitOfWork(req, res, queryRunner);
 
-
-export const getUserOrganizations = async (req: AuthenticatedRequest) => {
-  if (!req.user || !req.queryRunner) {
-    return [];
-  }
-  
-  try {
-    // Query without RLS since we're getting user's own organizations
-    const result = await req.queryRunner.query(`
-      SELECT o.id, o.name, o.subdomain, om.role
-      FROM organizations o
-      JOIN org_memberships om ON o.id = om.organization_id
-      WHERE om.user_id = $1
-      ORDER BY o.name
-    `, [req.user.userId]);
-    
-    return result;
-  } catch (error) {
-    return [];
-  }
+  next();
 };
 
+
+
 export const switchOrganization = async (req: AuthenticatedRequest, organizationId: string) => {
   if (!req.user || !req.queryRunner) {
     throw new Error('No user context available');
@@ -177,15 +206,6 @@ export const setOrganizationContext = async (req: AuthenticatedRequest, res: Res
     }
   }
   
-  console.log('setOrganizationContext:', { 
-    organizationId, 
-    hasQueryRunner: !!req.queryRunner,
-    params: req.params,
-    query: req.query,
-    url: req.url,
-    originalUrl: req.originalUrl
-  });
-  
   if (organizationId && req.queryRunner) {
     try {
       await setUserContextInDB(req.queryRunner, req.user!.userId, organizationId);
@@ -201,7 +221,6 @@ export const setOrganizationContext = async (req: AuthenticatedRequest, res: Res
 };
 
 export const requireOrganization = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  console.log('requireOrganization:', { organizationId: req.organizationId });
   if (!req.organizationId) {
     return res.status(400).json({ 
       message: 'Organization context required. Please provide organizationId in URL path, query params, or body.' 
@@ -211,18 +230,58 @@ export const requireOrganization = async (req: AuthenticatedRequest, res: Respon
   next();
 };
 
+const requestQueryRunner = (req: AuthenticatedRequest): QueryRunner => {
+  if (!req.queryRunner || !req.user || !req.queryRunner.isTransactionActive) {
+    throw new Error('No DB connection or user context available');
+  }
+  return req.queryRunner;
+};
+
+// Run a query in the request transaction, under the RLS context bound by the middleware
 export const executeWithRLS = async (
   req: AuthenticatedRequest,
   query: string,
   params: any[] = []
 ) => {
-  if (!req.queryRunner || !req.user) {
-    throw new Error('No DB connection or user context available');
+  return requestQueryRunner(req).query(query, params);
+};
+
+// The request transaction as a service context: queries run under the RLS context bound above
+export const requestContext = (req: AuthenticatedRequest): ServiceContext => {
+  return {
+    manager: requestQueryRunner(req).manager,
+    organizationId: req.organizationId ?? null,
+    userId: req.user!.userId
+  };
+};
+
+// Run several queries as one savepoint in the request transaction, e.g. take a lock, read, then write.
+// A failure rolls back just this block, so a handler that catches it can still respond normally.
+export const executeInTransactionWithRLS = async <T>(
+  req: AuthenticatedRequest,
+  fn: (query: Query) => Promise<T>
+): Promise<T> => {
+  const queryRunner = requestQueryRunner(req);
+  await queryRunner.startTransaction();
+  try {
+    const result = await fn((query, params = []) => queryRunner.query(query, params));
+    await queryRunner.commitTransaction();
+    return result;
+  } catch (e) {
+    await queryRunner.rollbackTransaction();
+    throw e;
+  }
+};
+
+// Run once the request transaction has committed, and not at all if it rolls back: activity logging,
+// notifications, broadcasts and job triggers that must only describe saved changes. Runs right away
+// outside a request unit of work. The request's queries are no longer available at that point.
+export const afterCommit = (req: AuthenticatedRequest, task: () => unknown) => {
+  if (req.afterCommitTasks) {
+    req.afterCommitTasks.push(task);
+  } else {
+    Promise.resolve().then(task).catch((error) => console.error('After-commit task failed:', error));
   }
-  
-  return withRls(req.queryRunner, req.user.userId, req.organizationId, () =>
-    req.queryRunner!.query(query, params)
-  );
 };
 
 export const hasOrgAccess = async (req: AuthenticatedRequest, organizationId: string): Promise<boolean> => {
@@ -246,11 +305,6 @@ export const hasOrgAccess = async (req: AuthenticatedRequest, organizationId: st
 
 export const hasProjectAccess = async (req: AuthenticatedRequest, projectId: string): Promise<boolean> => {
   if (!req.user || !req.queryRunner || !req.organizationId) {
-    console.log('hasProjectAccess: Missing context', { 
-      hasUser: !!req.user, 
-      hasQueryRunner: !!req.queryRunner, 
-      organizationId: req.organizationId 
-    });
     return false;
   }
   
@@ -265,16 +319,6 @@ export const hasProjectAccess = async (req: AuthenticatedRequest, projectId: str
       ) as has_access
     `, [req.user.userId, projectId, req.organizationId]);
     
-    console.log('hasProjectAccess result:', { 
-      userId: req.user.userId, 
-      userIdType: typeof req.user.userId,
-      projectId, 
-      projectIdType: typeof projectId,
-      organizationId: req.organizationId, 
-      organizationIdType: typeof req.organizationId,
-      hasAccess: result[0]?.has_access 
-    });
-    
     return result[0]?.has_access || false;
   } catch (error) {
     console.error('hasProjectAccess error:', error);
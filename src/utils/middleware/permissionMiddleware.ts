@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { PermissionService, Action, AccessContext } from '../../services/permission.service';
+
+interface PermissionRequest extends Request {
+  user?: { userId: string; [key: string]: any };
+  organizationId?: string;
+  access?: AccessContext;
+}
+
+// Routers are mounted without mergeParams, so fall back to the original URL
+export const getRouteProjectId = (req: Request): string | undefined => {
+  if (typeof req.params?.projectId === 'string') {
+    return req.params.projectId;
+  }
+  const urlMatch = req.originalUrl?.match(/\/projects\/([^\/?]+)/);
+  return urlMatch?.[1];
+};
+
+// The one 403 shape used for every permission failure
+export const sendForbidden = (res: Response, action: Action) => {
+  return res.status(403).json({
+    code: 'forbidden',
+    message: `You do not have permission to perform this action (${action})`,
+    permission: action
+  });
+};
+
+// Resolve the caller's roles once per request and cache them on req.access
+export const loadAccess = async (req: PermissionRequest, projectId?: string): Promise<AccessContext | null> => {
+  if (req.access && req.access.projectId === (projectId || null)) {
+    return req.access;
+  }
+  const access = await PermissionService.resolve(req, projectId);
+  if (access) {
+    req.access = access;
+  }
+  return access;
+};
+
+// A requirePermission() guard; the action stays readable on it for the OpenAPI document
+export type PermissionMiddleware = ((req: PermissionRequest, res: Response, next: NextFunction) => Promise<any>) & {
+  action: Action;
+};
+
+// Route guard: requirePermission('task.create'). Must run after setOrganizationContext/requireOrganization.
+export const requirePermission = (action: Action): PermissionMiddleware => {
+  const middleware = async (req: PermissionRequest, res: Response, next: NextFunction) => {
+    try {
+      const projectId = PermissionService.isProjectAction(action) ? getRouteProjectId(req) : undefined;
+      if (PermissionService.isProjectAction(action) && !projectId) {
+        return res.status(400).json({ message: 'Project context required' });
+      }
+
+      const access = await loadAccess(req, projectId);
+      if (!access) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      if (!access.permissions.has(action)) {
+        return sendForbidden(res, action);
+      }
+
+      next();
+    } catch (error) {
+      console.error('Permission check failed:', error);
+      return res.status(500).json({ code: 'permission_check_failed', message: 'Failed to check permissions' });
+    }
+  };
+
+  return Object.assign(middleware, { action });
+};
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+
+// Parts of the request a route can declare a schema for
+export const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+export type RequestPart = typeof REQUEST_PARTS[number];
+
+export type RequestSchemas = Partial<Record<RequestPart, z.ZodType>>;
+
+export interface ValidationIssue {
+  in: RequestPart;
+  // Dotted path inside that part, e.g. "statuses.0.key"; empty for the part itself
+  field: string;
+  message: string;
+}
+
+// A validate() guard; the schemas stay readable on it for the OpenAPI document
+export type ValidationMiddleware = ((req: Request, res: Response, next: NextFunction) => void) & {
+  schemas: RequestSchemas;
+};
+
+// The one 400 shape used for every invalid request
+export const sendValidationError = (res: Response, errors: ValidationIssue[]) => {
+  return res.status(400).json({
+    code: 'validation_failed',
+    message: 'Validation failed',
+    errors
+  });
+};
+
+export const toValidationIssues = (part: RequestPart, error: z.ZodError): ValidationIssue[] => {
+  return error.issues.map((issue) => ({
+    in: part,
+    field: issue.path.map(String).join('.'),
+    message: issue.message
+  }));
+};
+
+// Route guard: validate({ params, query, body }). Every part is checked before answering, so the 400
+// lists all issues at once. Handlers then read the parsed values: unknown keys dropped, defaults
+// filled in, ids as strings and query numbers as numbers. Put it before the permission guard.
+export const validate = (schemas: RequestSchemas): ValidationMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const errors: ValidationIssue[] = [];
+    const parsed: Partial<Record<RequestPart, any>> = {};
+
+    for (const part of REQUEST_PARTS) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        parsed[part] = result.data;
+      } else {
+        errors.push(...toValidationIssues(part, result.error));
+      }
+    }
+
+    if (errors.length > 0) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    if (parsed.params) {
+      Object.assign(req.params, parsed.params);
+    }
+    // req.query is a getter in Express 5, re-parsed from the URL on every read
+    if (parsed.query) {
+      Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true, enumerable: true });
+    }
+    if (parsed.body) {
+      req.body = parsed.body;
+    }
+    next();
+  };
+
+  return Object.assign(middleware, { schemas });
+};
+
+// Shared field schemas
+
+// Bigint ids arrive as JSON numbers or numeric strings and are handed on as strings
+export const id = z.union([
+  z.string().regex(/^\d+$/, 'Must be a numeric id'),
+  z.number().int().positive()
+]).transform(String);
+
+export const idParam = z.string().regex(/^\d+$/, 'Must be a numeric id');
+
+// Route parameter guard for ids in paths: app.param('projectId', validateIdParam). It runs before the
+// route's other guards, so a malformed id gets the standard 400 instead of reaching a bigint query.
+export const validateIdParam = (req: Request, res: Response, next: NextFunction, value: string, name: string) => {
+  const result = idParam.safeParse(value);
+  if (!result.success) {
+    sendValidationError(res, result.error.issues.map((issue) => ({ in: 'params' as const, field: name, message: issue.message })));
+    return;
+  }
+  next();
+};
+
+// For routes that take no query or body: unknown keys are dropped and the OpenAPI document says so
+export const noInput = z.object({});
+
+// Calendar date without a time, e.g. 2025-01-31
+export const date = z.iso.date();
+
+export const timestamp = z.iso.datetime({ offset: true });
+
+// Columns are smallint
+export const priority = z.number().int().min(-32768).max(32767);
+
+// ?flag=true|false; handlers compare against 'true'
+export const booleanQuery = z.enum(['true', 'false']);
+
+// Keyset page size from the query string, defaulting when absent
+export const limitQuery = (defaultLimit: number, maxLimit: number) => {
+  return z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit);
+};
+
+// Opaque pagination cursor (see src/utils/cursor.ts); decoded and checked by the route
+export const cursorQuery = z.string().min(1).max(500);
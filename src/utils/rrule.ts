@@ -0,0 +1,389 @@
+// Minimal iCalendar RRULE (RFC 5545) support for recurring task templates.
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals
+// such as 1MO or -1FR for MONTHLY/YEARLY), BYMONTHDAY (negative counts from the end), BYMONTH and WKST.
+// Occurrences happen once per matching day at a fixed local time in the template's IANA timezone.
+// Days are handled as "day numbers" (days since 1970-01-01 of the local calendar date), so the
+// calendar arithmetic never depends on the server's timezone.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number;
+  // 1MO => 1, -1FR => -1; null matches every such weekday of the period
+  ordinal: number | null;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count: number | null;
+  // UNTIL=20250131 (local date, inclusive) or UNTIL=20250131T170000Z (instant)
+  untilDay: number | null;
+  untilAt: Date | null;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  weekStart: number;
+}
+
+export interface Occurrence {
+  at: Date;
+  // Local calendar date of the occurrence (YYYY-MM-DD)
+  date: string;
+}
+
+export interface ExpandOptions {
+  // First local date of the series (YYYY-MM-DD); occurrences never precede it
+  startsOn: string;
+  // Minutes after local midnight
+  timeOfDay: number;
+  timezone: string;
+  // Inclusive bounds on the occurrence instant
+  from: Date;
+  to: Date;
+  limit: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+const MAX_INTERVAL = 1000;
+const MAX_COUNT = 10000;
+// Upper bound on days scanned per expansion (about 100 years), so a rule that never matches ends
+const MAX_SCAN_DAYS = 36600;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const dayNumber = (year: number, month: number, day: number): number => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const fromDayNumber = (day: number) => {
+  const date = new Date(day * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// "YYYY-MM-DD" => day number, or null when it is not a real date
+export const parseDay = (value: string): number | null => {
+  const match = DATE_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const number = dayNumber(year, month, day);
+  const check = fromDayNumber(number);
+  return check.month === month && check.day === day ? number : null;
+};
+
+// "HH:MM" => minutes after midnight, or null
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_REGEX.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timezone: any): boolean => {
+  if (typeof timezone !== 'string' || !timezone) {
+    return false;
+  }
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in a timezone
+const localParts = (at: number, timezone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(new Date(at))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+};
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+const offsetAt = (at: number, timezone: string): number => {
+  const parts = localParts(at, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(at / 1000) * 1000;
+};
+
+// Instant of a local date and time; times skipped by a DST change resolve to the later offset
+const zonedToInstant = (day: number, minutes: number, timezone: string): Date => {
+  const local = day * DAY_MS + minutes * 60 * 1000;
+  const guess = local - offsetAt(local, timezone);
+  const corrected = local - offsetAt(guess, timezone);
+  return new Date(corrected);
+};
+
+// Local calendar day of an instant in a timezone
+export const localDayOf = (at: Date, timezone: string): number => {
+  const parts = localParts(at.getTime(), timezone);
+  return dayNumber(parts.year, parts.month, parts.day);
+};
+
+const parseInteger = (value: string, min: number, max: number, name: string): number => {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  const number = Number(value);
+  if (number < min || number > max || number === 0) {
+    throw new Error(`${name} must be between ${min} and ${max} and not 0`);
+  }
+  return number;
+};
+
+const parseUntil = (value: string): { untilDay: number | null; untilAt: Date | null } => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Error('UNTIL must be a date (YYYYMMDD) or a UTC date-time (YYYYMMDDTHHMMSSZ)');
+  }
+  const day = parseDay(`${match[1]}-${match[2]}-${match[3]}`);
+  if (day === null) {
+    throw new Error('UNTIL is not a valid date');
+  }
+  if (match[4] === undefined) {
+    return { untilDay: day, untilAt: null };
+  }
+  return {
+    untilDay: null,
+    untilAt: new Date(day * DAY_MS + ((Number(match[4]) * 60 + Number(match[5])) * 60 + Number(match[6])) * 1000)
+  };
+};
+
+// Parse "FREQ=WEEKLY;BYDAY=MO,WE" (an "RRULE:" prefix is accepted). Throws with a readable message.
+export const parseRRule = (value: string): RecurrenceRule => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error('rrule is required');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) {
+      continue;
+    }
+    const [key, partValue] = part.split('=');
+    const name = key.trim().toUpperCase();
+    if (partValue === undefined || !partValue.trim()) {
+      throw new Error(`${name} needs a value`);
+    }
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new Error(`${name} is not supported. Supported parts: ${SUPPORTED_PARTS.join(', ')}`);
+    }
+    if (parts.has(name)) {
+      throw new Error(`${name} is given twice`);
+    }
+    parts.set(name, partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+
+  const byDay = (parts.get('BYDAY')?.split(',') || []).map((item) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item.trim());
+    if (!match) {
+      throw new Error(`Invalid BYDAY value "${item}"`);
+    }
+    const ordinal = match[1] === undefined ? null : parseInteger(match[1], -53, 53, 'BYDAY ordinal');
+    if (ordinal !== null && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      throw new Error('BYDAY ordinals are only allowed with FREQ=MONTHLY or FREQ=YEARLY');
+    }
+    return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+  });
+
+  const weekStart = parts.has('WKST') ? WEEKDAYS.indexOf(parts.get('WKST')!) : 1;
+  if (weekStart === -1) {
+    throw new Error('WKST must be a weekday (MO, TU, ...)');
+  }
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? parseInteger(parts.get('INTERVAL')!, 1, MAX_INTERVAL, 'INTERVAL') : 1,
+    count: parts.has('COUNT') ? parseInteger(parts.get('COUNT')!, 1, MAX_COUNT, 'COUNT') : null,
+    ...(parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : { untilDay: null, untilAt: null }),
+    byDay,
+    byMonthDay: (parts.get('BYMONTHDAY')?.split(',') || []).map((item) => parseInteger(item, -31, 31, 'BYMONTHDAY')),
+    byMonth: (parts.get('BYMONTH')?.split(',') || []).map((item) => parseInteger(item, 1, 12, 'BYMONTH')),
+    weekStart
+  };
+};
+
+const matchesMonthDay = (byMonthDay: number[], day: number, monthLength: number): boolean => {
+  return byMonthDay.some((value) => (value > 0 ? value === day : monthLength + value + 1 === day));
+};
+
+// Weekday rules with ordinals counted within a span (a month, or a year) of spanLength days
+const matchesWeekday = (byDay: WeekdayRule[], weekday: number, dayOfSpan: number, spanLength: number): boolean => {
+  return byDay.some((rule) => {
+    if (rule.weekday !== weekday) {
+      return false;
+    }
+    if (rule.ordinal === null) {
+      return true;
+    }
+    return rule.ordinal > 0
+      ? Math.ceil(dayOfSpan / 7) === rule.ordinal
+      : Math.floor((spanLength - dayOfSpan) / 7) + 1 === -rule.ordinal;
+  });
+};
+
+// Whether a local day is in the series, ignoring COUNT/UNTIL
+const matchesDay = (rule: RecurrenceRule, startDay: number, day: number): boolean => {
+  const start = fromDayNumber(startDay);
+  const date = fromDayNumber(day);
+  const monthLength = daysInMonth(date.year, date.month);
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.month)) {
+    return false;
+  }
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if ((day - startDay) % rule.interval !== 0) {
+        return false;
+      }
+      break;
+    }
+    case 'WEEKLY': {
+      const weekOf = (value: number) => value - ((fromDayNumber(value).weekday - rule.weekStart + 7) % 7);
+      if (((weekOf(day) - weekOf(startDay)) / 7) % rule.interval !== 0) {
+        return false;
+      }
+      if (rule.byDay.length === 0 && date.weekday !== start.weekday) {
+        return false;
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const months = (date.year - start.year) * 12 + (date.month - start.month);
+      if (months % rule.interval !== 0) {
+        return false;
+      }
+      if (rule.byDay.length === 0 && rule.byMonthDay.length === 0 && date.day !== start.day) {
+        return false;
+      }
+      if (rule.byDay.length > 0 && !matchesWeekday(rule.byDay, date.weekday, date.day, monthLength)) {
+        return false;
+      }
+      return rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay, date.day, monthLength);
+    }
+    case 'YEARLY': {
+      if ((date.year - start.year) % rule.interval !== 0) {
+        return false;
+      }
+      if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+        // Same day of month as the start, in the start's month unless BYMONTH lists others
+        return date.day === start.day && (rule.byMonth.length > 0 || date.month === start.month);
+      }
+      if (rule.byDay.length > 0) {
+        // Ordinals count within the month when BYMONTH is given, otherwise within the year
+        const yearStart = dayNumber(date.year, 1, 1);
+        const matches = rule.byMonth.length > 0
+          ? matchesWeekday(rule.byDay, date.weekday, date.day, monthLength)
+          : matchesWeekday(rule.byDay, date.weekday, day - yearStart + 1, dayNumber(date.year + 1, 1, 1) - yearStart);
+        if (!matches) {
+          return false;
+        }
+      }
+      return rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay, date.day, monthLength);
+    }
+  }
+
+  // DAILY and WEEKLY: BYDAY and BYMONTHDAY only narrow the matching days
+  if (rule.byDay.length > 0 && !matchesWeekday(rule.byDay, date.weekday, date.day, monthLength)) {
+    return false;
+  }
+  return rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay, date.day, monthLength);
+};
+
+// Occurrences of the series between options.from and options.to, oldest first
+export const expandOccurrences = (rule: RecurrenceRule, options: ExpandOptions): Occurrence[] => {
+  const startDay = parseDay(options.startsOn);
+  if (startDay === null) {
+    throw new Error('startsOn must be a date (YYYY-MM-DD)');
+  }
+
+  // COUNT is counted from the first occurrence, so those series are always walked from the start.
+  // Otherwise start a day early: the local date of `from` may differ from its UTC date.
+  const firstDay = rule.count !== null
+    ? startDay
+    : Math.max(startDay, localDayOf(options.from, options.timezone) - 1);
+  const lastDay = Math.min(
+    localDayOf(options.to, options.timezone) + 1,
+    rule.untilDay ?? Number.MAX_SAFE_INTEGER,
+    firstDay + MAX_SCAN_DAYS
+  );
+
+  const occurrences: Occurrence[] = [];
+  let seen = 0;
+  for (let day = firstDay; day <= lastDay; day++) {
+    if (!matchesDay(rule, startDay, day)) {
+      continue;
+    }
+    seen++;
+    if (rule.count !== null && seen > rule.count) {
+      break;
+    }
+
+    const at = zonedToInstant(day, options.timeOfDay, options.timezone);
+    if (rule.untilAt && at > rule.untilAt) {
+      break;
+    }
+    if (at < options.from) {
+      continue;
+    }
+    if (at > options.to || occurrences.length >= options.limit) {
+      break;
+    }
+    occurrences.push({ at, date: formatDay(day) });
+  }
+  return occurrences;
+};
+
+// First occurrence at or after `from`, or null when the series has ended
+export const nextOccurrence = (rule: RecurrenceRule, options: Omit<ExpandOptions, 'to' | 'limit'>): Occurrence | null => {
+  return expandOccurrences(rule, {
+    ...options,
+    to: new Date(options.from.getTime() + MAX_SCAN_DAYS * DAY_MS),
+    limit: 1
+  })[0] || null;
+};